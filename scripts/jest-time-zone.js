@@ -0,0 +1,12 @@
+/**
+ * Test Time Zone
+ *
+ * Jest global setup that runs every test in a fixed time zone with daylight
+ * saving time, so date handling behaves the same on every machine and DST
+ * changes can be tested. Time zone changes made inside a test file do not
+ * reach Date, since Jest gives each file its own copy of process.env.
+ */
+
+module.exports = () => {
+  process.env.TZ = "Europe/Amsterdam";
+};
@@ -0,0 +1,106 @@
+/**
+ * Mock Microsoft Graph Server
+ *
+ * Serves a few sample meetings from GET /v1.0/me/calendarView so the calendar
+ * integration can be tried without an Outlook account:
+ *
+ *   npm run mock:graph
+ *   REACT_APP_GRAPH_URL=http://localhost:4001/v1.0 npm start
+ *
+ * Events are returned for whichever day is requested, in the time zone named
+ * by the Prefer: outlook.timezone header. Tokens are not checked.
+ */
+
+const http = require("http");
+
+const PORT = Number(process.env.MOCK_GRAPH_PORT) || 4001;
+
+const SAMPLE_EVENTS = [
+  { id: "standup", subject: "Team standup", start: "09:30", end: "09:45", showAs: "busy" },
+  { id: "design-review", subject: "Design review", start: "11:00", end: "12:00", showAs: "busy" },
+  { id: "focus", subject: "Focus time", start: "13:00", end: "14:00", showAs: "free" },
+  { id: "one-on-one", subject: "1:1 with manager", start: "15:00", end: "15:30", showAs: "tentative" },
+  { id: "holiday", subject: "Company holiday", start: "00:00", end: "24:00", showAs: "free", isAllDay: true },
+];
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Prefer, Content-Type",
+};
+
+/**
+ * Read the time zone from a Prefer: outlook.timezone="..." header
+ */
+const getTimeZone = (prefer) => {
+  const match = /outlook\.timezone="([^"]+)"/.exec(prefer || "");
+  return match ? match[1] : "UTC";
+};
+
+/**
+ * The calendar day (YYYY-MM-DD) an instant falls on in a time zone
+ */
+const toDayKey = (instant, timeZone) => {
+  try {
+    return new Intl.DateTimeFormat("en-CA", { timeZone }).format(instant);
+  } catch (error) {
+    return instant.toISOString().slice(0, 10);
+  }
+};
+
+const nextDayKey = (day) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+const toGraphDateTime = (day, time, timeZone) => ({
+  dateTime: time === "24:00" ? `${nextDayKey(day)}T00:00:00.0000000` : `${day}T${time}:00.0000000`,
+  timeZone,
+});
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  if (req.method !== "GET" || url.pathname !== "/v1.0/me/calendarView") {
+    sendJson(res, 404, { error: { code: "ResourceNotFound", message: "Not found" } });
+    return;
+  }
+
+  const startParam = url.searchParams.get("startDateTime");
+  const start = startParam ? new Date(startParam) : new Date();
+  if (Number.isNaN(start.getTime())) {
+    sendJson(res, 400, { error: { code: "BadRequest", message: "Invalid startDateTime" } });
+    return;
+  }
+
+  const timeZone = getTimeZone(req.headers.prefer);
+  const day = toDayKey(start, timeZone);
+  const value = SAMPLE_EVENTS.map((event) => ({
+    id: `${day}-${event.id}`,
+    subject: event.subject,
+    start: toGraphDateTime(day, event.start, timeZone),
+    end: toGraphDateTime(day, event.end, timeZone),
+    showAs: event.showAs,
+    isAllDay: Boolean(event.isAllDay),
+    isCancelled: false,
+  }));
+
+  console.log(`${req.method} ${url.pathname} ${day} (${timeZone}): ${value.length} events`);
+  sendJson(res, 200, { value });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Graph server listening on http://localhost:${PORT}/v1.0`);
+});
@@ -7,12 +7,12 @@
  */
 
 import React, { FC } from "react";
-import { useIsAuthenticated } from "@azure/msal-react";
+import { useAuth } from "./hooks/useAuth";
 import Login from "./components/Login";
 import TodoAssistant from "./components/TodoAssistant";
 
 const App: FC = () => {
-  const isAuthenticated = useIsAuthenticated();
+  const { isAuthenticated } = useAuth();
 
   return (
     <div className="App">
@@ -1,11 +1,35 @@
 /**
- * Authentication Configuration for Azure Entra ID (MSAL)
+ * Authentication Configuration
  *
- * This file configures the Microsoft Authentication Library (MSAL) for React.
- * Update the clientId and authority with your Azure Entra ID application details.
+ * Selects the identity provider with REACT_APP_AUTH_PROVIDER:
+ * - "msal" (default): Azure Entra ID through the Microsoft Authentication Library.
+ *   Update the clientId and authority with your Azure Entra ID application details.
+ * - "oidc": any OpenID Connect provider, configured with REACT_APP_OIDC_* variables
+ * - "mock": a local test account with fake tokens, for development without a tenant
  */
 
-import type { MSALConfig, LoginRequest, ApiRequest } from "./types";
+import type {
+  MSALConfig,
+  OidcConfig,
+  LoginRequest,
+  ApiRequest,
+  AuthProviderKind,
+} from "./types";
+
+const AUTH_PROVIDER_KINDS: AuthProviderKind[] = ["msal", "oidc", "mock"];
+
+const parseAuthProviderKind = (value: string | undefined): AuthProviderKind => {
+  if (!value) return "msal";
+  if ((AUTH_PROVIDER_KINDS as string[]).includes(value)) {
+    return value as AuthProviderKind;
+  }
+  console.warn(`Unknown REACT_APP_AUTH_PROVIDER "${value}", using "msal"`);
+  return "msal";
+};
+
+export const authProviderKind: AuthProviderKind = parseAuthProviderKind(
+  process.env.REACT_APP_AUTH_PROVIDER
+);
 
 export const msalConfig: MSALConfig = {
   auth: {
@@ -21,6 +45,19 @@ export const msalConfig: MSALConfig = {
   },
 };
 
+/**
+ * Generic OpenID Connect configuration, used when REACT_APP_AUTH_PROVIDER is "oidc"
+ * The client must be a public client allowed to use PKCE; offline_access asks for
+ * a refresh token so sessions can be renewed without a redirect.
+ */
+export const oidcConfig: OidcConfig = {
+  authority: process.env.REACT_APP_OIDC_AUTHORITY || "https://YOUR_OIDC_PROVIDER",
+  clientId: process.env.REACT_APP_OIDC_CLIENT_ID || "YOUR_CLIENT_ID",
+  redirectUri: process.env.REACT_APP_OIDC_REDIRECT_URI || window.location.origin,
+  scopes: (process.env.REACT_APP_OIDC_SCOPES || "offline_access").split(/\s+/).filter(Boolean),
+  displayName: process.env.REACT_APP_OIDC_DISPLAY_NAME || "your identity provider",
+};
+
 /**
  * Login request configuration
  * Scopes define what permissions the app is requesting from the user
@@ -36,3 +73,11 @@ export const loginRequest: LoginRequest = {
 export const apiRequest: ApiRequest = {
   scopes: [process.env.REACT_APP_API_SCOPE || "api://<YOUR_API_CLIENT_ID>/.default"],
 };
+
+/**
+ * Microsoft Graph request configuration
+ * Calendars.Read lets the scheduler plan around the user's meetings
+ */
+export const graphRequest: ApiRequest = {
+  scopes: ["Calendars.Read"],
+};
@@ -0,0 +1,95 @@
+/**
+ * AccountMenu Component
+ *
+ * Header menu for the signed-in user:
+ * - Shows the active account's name and email
+ * - Lists the other signed-in accounts to switch to
+ * - Signs in with another account, or logs out
+ */
+
+import React, { FC } from "react";
+import { Menu } from "@headlessui/react";
+import {
+  CheckIcon,
+  ChevronDownIcon,
+  UserPlusIcon,
+  ArrowRightOnRectangleIcon,
+} from "@heroicons/react/20/solid";
+import type { AuthAccount } from "../types";
+
+interface AccountMenuProps {
+  activeAccount: AuthAccount;
+  accounts: AuthAccount[];
+  onSwitch: (account: AuthAccount) => void;
+  onAddAccount: () => void;
+  onLogout: () => void;
+}
+
+const itemClassName = (active: boolean): string =>
+  `flex items-center gap-2 w-full px-3 py-2 text-left text-sm ${
+    active ? "bg-gray-100 text-gray-900" : "text-gray-700"
+  }`;
+
+const AccountMenu: FC<AccountMenuProps> = ({
+  activeAccount,
+  accounts,
+  onSwitch,
+  onAddAccount,
+  onLogout,
+}) => (
+  <Menu as="div" className="relative">
+    <Menu.Button className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-gray-100 transition">
+      <div className="text-right">
+        <p className="text-sm font-medium text-gray-900">{activeAccount.name}</p>
+        <p className="text-xs text-gray-500">{activeAccount.username}</p>
+      </div>
+      <ChevronDownIcon className="w-4 h-4 text-gray-500" aria-hidden="true" />
+    </Menu.Button>
+
+    <Menu.Items className="absolute right-0 mt-2 w-64 py-1 bg-white border border-gray-200 rounded-lg shadow-lg focus:outline-none z-20">
+      {accounts.length > 1 && (
+        <div className="pb-1 mb-1 border-b border-gray-100">
+          <p className="px-3 py-1 text-xs font-semibold text-gray-500 uppercase">Accounts</p>
+          {accounts.map((account) => {
+            const isActive = account.id === activeAccount.id;
+            return (
+              <Menu.Item key={account.id} disabled={isActive}>
+                {({ active }) => (
+                  <button
+                    onClick={() => onSwitch(account)}
+                    className={itemClassName(active)}
+                    aria-current={isActive}
+                  >
+                    <CheckIcon
+                      className={`w-4 h-4 shrink-0 ${isActive ? "text-blue-600" : "invisible"}`}
+                      aria-hidden="true"
+                    />
+                    <span className="truncate">{account.username}</span>
+                  </button>
+                )}
+              </Menu.Item>
+            );
+          })}
+        </div>
+      )}
+      <Menu.Item>
+        {({ active }) => (
+          <button onClick={onAddAccount} className={itemClassName(active)}>
+            <UserPlusIcon className="w-4 h-4 shrink-0" aria-hidden="true" />
+            Use another account
+          </button>
+        )}
+      </Menu.Item>
+      <Menu.Item>
+        {({ active }) => (
+          <button onClick={onLogout} className={itemClassName(active)}>
+            <ArrowRightOnRectangleIcon className="w-4 h-4 shrink-0" aria-hidden="true" />
+            Log out
+          </button>
+        )}
+      </Menu.Item>
+    </Menu.Items>
+  </Menu>
+);
+
+export default AccountMenu;
@@ -0,0 +1,78 @@
+/**
+ * DateNavigator Component
+ *
+ * Steps through calendar days for the schedule panel:
+ * - Previous / next day buttons and a jump back to today
+ * - A date picker for days further away
+ */
+
+import React, { FC } from "react";
+import { ChevronLeftIcon, ChevronRightIcon } from "@heroicons/react/20/solid";
+import { addDaysToKey, fromDateKey } from "../utils/dates";
+
+interface DateNavigatorProps {
+  date: string;
+  today: string;
+  onChange: (date: string) => void;
+}
+
+const DateNavigator: FC<DateNavigatorProps> = ({ date, today, onChange }) => {
+  const label = (fromDateKey(date) ?? new Date()).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  const relative =
+    date === today
+      ? "Today"
+      : date === addDaysToKey(today, -1)
+        ? "Yesterday"
+        : date === addDaysToKey(today, 1)
+          ? "Tomorrow"
+          : null;
+
+  return (
+    <div className="flex items-center justify-between gap-2 mb-4">
+      <button
+        onClick={() => onChange(addDaysToKey(date, -1))}
+        className="p-1 text-gray-600 rounded hover:bg-gray-100"
+        aria-label="Previous day"
+      >
+        <ChevronLeftIcon className="w-5 h-5" aria-hidden="true" />
+      </button>
+
+      <div className="flex flex-col items-center">
+        <span className="text-sm font-semibold text-gray-900">
+          {relative ? `${relative} · ${label}` : label}
+        </span>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && onChange(e.target.value)}
+            className="text-xs text-gray-600 border-none p-0 focus:outline-none focus:ring-0"
+            aria-label="Schedule date"
+          />
+          {date !== today && (
+            <button
+              onClick={() => onChange(today)}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              Today
+            </button>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={() => onChange(addDaysToKey(date, 1))}
+        className="p-1 text-gray-600 rounded hover:bg-gray-100"
+        aria-label="Next day"
+      >
+        <ChevronRightIcon className="w-5 h-5" aria-hidden="true" />
+      </button>
+    </div>
+  );
+};
+
+export default DateNavigator;
@@ -0,0 +1,390 @@
+/**
+ * HabitsEditor Component
+ *
+ * Collapsible habit questionnaire:
+ * - Named habit profiles (work hours, breaks, focus area), one of them the default
+ * - A weekly plan choosing the profile for each weekday, days off and custom
+ *   hours such as split shifts
+ * - Inline validation and the autosave status
+ */
+
+import React, { FC } from "react";
+import { Disclosure } from "@headlessui/react";
+import { ChevronUpIcon, PlusIcon, TrashIcon, XMarkIcon } from "@heroicons/react/20/solid";
+import type { HabitsState } from "../hooks/useHabits";
+import type { HabitsSaveState, WorkPeriod } from "../types";
+import { WEEKDAYS, WEEKDAY_NAMES } from "../utils/recurrence";
+
+type HabitsEditorProps = HabitsState;
+
+const SAVE_LABELS: Record<HabitsSaveState, string> = {
+  idle: "",
+  saving: "Saving...",
+  saved: "Saved",
+  offline: "Saved on this device",
+  error: "Couldn't save",
+};
+
+// Monday first, as indexes into settings.weekdays (0 = Sunday)
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const DAY_OFF = "off";
+
+const HabitsEditor: FC<HabitsEditorProps> = ({
+  settings,
+  selectedProfileId,
+  draft,
+  errors,
+  weekdayErrors,
+  saveState,
+  selectProfile,
+  updateHabit,
+  addProfile,
+  renameProfile,
+  removeProfile,
+  setDefaultProfile,
+  updateWeekday,
+}) => {
+  const selectedProfile =
+    settings.profiles.find((profile) => profile.id === selectedProfileId) ?? settings.profiles[0];
+  const isDefault = selectedProfile.id === settings.defaultProfileId;
+
+  const handleAddProfile = (): void => {
+    const name = window.prompt("Name the new profile (e.g. Maker day, Meeting-heavy)");
+    if (name !== null) {
+      addProfile(name);
+    }
+  };
+
+  const handleRenameProfile = (): void => {
+    const name = window.prompt("Rename profile", selectedProfile.name);
+    if (name !== null) {
+      renameProfile(selectedProfile.id, name);
+    }
+  };
+
+  const handleRemoveProfile = (): void => {
+    if (window.confirm(`Delete the "${selectedProfile.name}" profile?`)) {
+      removeProfile(selectedProfile.id);
+    }
+  };
+
+  /**
+   * Pick the default profile, another profile or a day off for a weekday
+   */
+  const handleWeekdayChoice = (day: number, choice: string): void => {
+    updateWeekday(
+      day,
+      choice === DAY_OFF
+        ? { dayOff: true }
+        : { dayOff: false, profileId: choice || null }
+    );
+  };
+
+  /**
+   * Start custom hours for a weekday from its profile's work window
+   */
+  const handleCustomHours = (day: number): void => {
+    const weekday = settings.weekdays[day] ?? {};
+    const profile =
+      settings.profiles.find((p) => p.id === (weekday.profileId ?? settings.defaultProfileId)) ??
+      settings.profiles[0];
+    updateWeekday(day, {
+      workPeriods: [{ start: profile.habits.workStartTime, end: profile.habits.workEndTime }],
+    });
+  };
+
+  const handlePeriodChange = (day: number, index: number, period: WorkPeriod): void => {
+    const periods = settings.weekdays[day]?.workPeriods ?? [];
+    updateWeekday(day, {
+      workPeriods: periods.map((existing, i) => (i === index ? period : existing)),
+    });
+  };
+
+  const handleAddPeriod = (day: number): void => {
+    const periods = settings.weekdays[day]?.workPeriods ?? [];
+    updateWeekday(day, { workPeriods: [...periods, { start: "", end: "" }] });
+  };
+
+  const handleRemovePeriod = (day: number, index: number): void => {
+    const periods = (settings.weekdays[day]?.workPeriods ?? []).filter((_, i) => i !== index);
+    updateWeekday(day, { workPeriods: periods.length > 0 ? periods : null });
+  };
+
+  return (
+    <Disclosure defaultOpen={false}>
+      {({ open }) => (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <Disclosure.Button className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50">
+            <h2 className="text-xl font-bold text-gray-900">
+              🎯 Your Habits
+            </h2>
+            <span className="ml-auto mr-3 text-xs text-gray-500" aria-live="polite">
+              {SAVE_LABELS[saveState]}
+            </span>
+            <ChevronUpIcon
+              className={`w-5 h-5 text-gray-600 transition ${
+                open ? "rotate-180" : ""
+              }`}
+              aria-hidden="true"
+            />
+          </Disclosure.Button>
+
+          <Disclosure.Panel className="px-6 py-4 border-t border-gray-200 space-y-4">
+            {/* Profiles */}
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={selectedProfile.id}
+                onChange={(e) => selectProfile(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Habit profile"
+              >
+                {settings.profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                    {profile.id === settings.defaultProfileId ? " (default)" : ""}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleAddProfile}
+                className="flex items-center gap-1 px-2 py-1 text-sm text-blue-700 rounded hover:bg-blue-50"
+              >
+                <PlusIcon className="w-4 h-4" aria-hidden="true" />
+                New profile
+              </button>
+              <button
+                type="button"
+                onClick={handleRenameProfile}
+                className="px-2 py-1 text-sm text-gray-700 rounded hover:bg-gray-100"
+              >
+                Rename
+              </button>
+              {isDefault ? (
+                <span className="px-2 py-1 text-xs text-gray-500">
+                  Used unless a weekday says otherwise
+                </span>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => setDefaultProfile(selectedProfile.id)}
+                    className="px-2 py-1 text-sm text-gray-700 rounded hover:bg-gray-100"
+                  >
+                    Make default
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleRemoveProfile}
+                    className="p-1 text-gray-500 rounded hover:text-red-600 hover:bg-red-50"
+                    aria-label={`Delete profile ${selectedProfile.name}`}
+                  >
+                    <TrashIcon className="w-4 h-4" aria-hidden="true" />
+                  </button>
+                </>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Work Start Time
+                </label>
+                <input
+                  type="time"
+                  value={draft.workStartTime}
+                  onChange={(e) => updateHabit("workStartTime", e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.workStartTime ? "border-red-400" : "border-gray-300"
+                  }`}
+                  aria-label="Work start time"
+                  aria-invalid={Boolean(errors.workStartTime)}
+                />
+                {errors.workStartTime && (
+                  <p className="mt-1 text-xs text-red-600">{errors.workStartTime}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Work End Time
+                </label>
+                <input
+                  type="time"
+                  value={draft.workEndTime}
+                  onChange={(e) => updateHabit("workEndTime", e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.workEndTime ? "border-red-400" : "border-gray-300"
+                  }`}
+                  aria-label="Work end time"
+                  aria-invalid={Boolean(errors.workEndTime)}
+                />
+                {errors.workEndTime && (
+                  <p className="mt-1 text-xs text-red-600">{errors.workEndTime}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Break Duration (minutes)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={draft.breakDuration}
+                  onChange={(e) => updateHabit("breakDuration", e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.breakDuration ? "border-red-400" : "border-gray-300"
+                  }`}
+                  aria-label="Break duration"
+                  aria-invalid={Boolean(errors.breakDuration)}
+                />
+                {errors.breakDuration && (
+                  <p className="mt-1 text-xs text-red-600">{errors.breakDuration}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Break Frequency (minutes)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={draft.breakFrequency}
+                  onChange={(e) => updateHabit("breakFrequency", e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.breakFrequency ? "border-red-400" : "border-gray-300"
+                  }`}
+                  aria-label="Break frequency"
+                  aria-invalid={Boolean(errors.breakFrequency)}
+                />
+                {errors.breakFrequency && (
+                  <p className="mt-1 text-xs text-red-600">{errors.breakFrequency}</p>
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Focus Area (e.g., Development, Design, Admin)
+              </label>
+              <input
+                type="text"
+                value={draft.focusArea}
+                onChange={(e) => updateHabit("focusArea", e.target.value)}
+                placeholder="What's your main focus today?"
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.focusArea ? "border-red-400" : "border-gray-300"
+                }`}
+                aria-label="Focus area"
+                aria-invalid={Boolean(errors.focusArea)}
+              />
+              {errors.focusArea && (
+                <p className="mt-1 text-xs text-red-600">{errors.focusArea}</p>
+              )}
+            </div>
+
+            {/* Weekly plan */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Your week</h3>
+              <ul className="space-y-2">
+                {WEEK_ORDER.map((day) => {
+                  const weekday = settings.weekdays[day] ?? {};
+                  const choice = weekday.dayOff ? DAY_OFF : weekday.profileId ?? "";
+                  const dayName = WEEKDAY_NAMES[WEEKDAYS[day]];
+
+                  return (
+                    <li key={day} className="text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="w-24 font-medium text-gray-700">{dayName}</span>
+                        <select
+                          value={choice}
+                          onChange={(e) => handleWeekdayChoice(day, e.target.value)}
+                          className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          aria-label={`${dayName} profile`}
+                        >
+                          <option value="">Default profile</option>
+                          {settings.profiles.map((profile) => (
+                            <option key={profile.id} value={profile.id}>
+                              {profile.name}
+                            </option>
+                          ))}
+                          <option value={DAY_OFF}>Day off</option>
+                        </select>
+                        {!weekday.dayOff && !weekday.workPeriods && (
+                          <button
+                            type="button"
+                            onClick={() => handleCustomHours(day)}
+                            className="text-xs text-blue-600 hover:underline"
+                          >
+                            Custom hours
+                          </button>
+                        )}
+                      </div>
+
+                      {!weekday.dayOff && weekday.workPeriods && (
+                        <div className="mt-1 ml-24 pl-2 space-y-1">
+                          {weekday.workPeriods.map((period, index) => (
+                            <div key={index} className="flex items-center gap-1">
+                              <input
+                                type="time"
+                                value={period.start}
+                                onChange={(e) =>
+                                  handlePeriodChange(day, index, { ...period, start: e.target.value })
+                                }
+                                className="px-2 py-0.5 border border-gray-300 rounded"
+                                aria-label={`${dayName} period ${index + 1} start`}
+                              />
+                              <span className="text-gray-500">–</span>
+                              <input
+                                type="time"
+                                value={period.end}
+                                onChange={(e) =>
+                                  handlePeriodChange(day, index, { ...period, end: e.target.value })
+                                }
+                                className="px-2 py-0.5 border border-gray-300 rounded"
+                                aria-label={`${dayName} period ${index + 1} end`}
+                              />
+                              <button
+                                type="button"
+                                onClick={() => handleRemovePeriod(day, index)}
+                                className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                                aria-label={`Remove ${dayName} period ${index + 1}`}
+                              >
+                                <XMarkIcon className="w-4 h-4" aria-hidden="true" />
+                              </button>
+                            </div>
+                          ))}
+                          <div className="flex gap-3">
+                            <button
+                              type="button"
+                              onClick={() => handleAddPeriod(day)}
+                              className="text-xs text-blue-600 hover:underline"
+                            >
+                              Add period
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => updateWeekday(day, { workPeriods: null })}
+                              className="text-xs text-gray-600 hover:underline"
+                            >
+                              Use profile hours
+                            </button>
+                          </div>
+                          {weekdayErrors[day] && (
+                            <p className="text-xs text-red-600">{weekdayErrors[day]}</p>
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </Disclosure.Panel>
+        </div>
+      )}
+    </Disclosure>
+  );
+};
+
+export default HabitsEditor;
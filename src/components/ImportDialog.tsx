@@ -0,0 +1,374 @@
+/**
+ * ImportDialog Component
+ *
+ * Brings tasks in from other tools:
+ * - Choose a file (or paste its contents); the format is detected and can be changed
+ * - CSV columns are mapped to task, priority, done and due date
+ * - A preview lists every task with duplicates of existing todos unticked
+ * - The ticked tasks are created in batches, with progress and a summary of failures
+ */
+
+import React, { FC, useState, useMemo, useEffect, useRef } from "react";
+import { Dialog } from "@headlessui/react";
+import { XMarkIcon, ArrowUpTrayIcon } from "@heroicons/react/20/solid";
+import {
+  detectImportFormat,
+  parseCsv,
+  guessColumnMapping,
+  mapCsvTasks,
+  parseMarkdownTasks,
+  parseICalTasks,
+  parseMicrosoftToDoTasks,
+  findDuplicateTasks,
+  selectImportedTasks,
+} from "../utils/taskImport";
+import { importTasks } from "../services/todoImport";
+import { getAppendPosition } from "../utils/todoOrder";
+import { formatDueDate } from "../utils/dates";
+import type {
+  ImportColumnMapping,
+  ImportFormat,
+  ImportedTask,
+  ImportResult,
+  Todo,
+} from "../types";
+
+interface ImportDialogProps {
+  open: boolean;
+  existingTodos: Todo[];
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: "CSV / spreadsheet",
+  markdown: "Markdown checklist",
+  ical: "iCalendar (VTODO)",
+  mstodo: "Microsoft To Do (JSON)",
+};
+
+const MAPPING_FIELDS: Array<{ field: keyof ImportColumnMapping; label: string }> = [
+  { field: "task", label: "Task" },
+  { field: "priority", label: "Priority" },
+  { field: "completed", label: "Done" },
+  { field: "dueAt", label: "Due date" },
+];
+
+const PASTE_PLACEHOLDER =
+  "…or paste here, e.g.\n- [ ] Book flights\n  - [ ] Compare prices\n- [x] Renew passport";
+
+const EMPTY_MAPPING: ImportColumnMapping = {
+  task: null,
+  priority: null,
+  completed: null,
+  dueAt: null,
+};
+
+const ImportDialog: FC<ImportDialogProps> = ({ open, existingTodos, onClose }) => {
+  const [text, setText] = useState<string>("");
+  const [fileName, setFileName] = useState<string>("");
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [mapping, setMapping] = useState<ImportColumnMapping>(EMPTY_MAPPING);
+  const [selected, setSelected] = useState<boolean[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const table = useMemo(() => (format === "csv" ? parseCsv(text) : null), [format, text]);
+
+  // Start from a guessed mapping whenever a different table is loaded
+  useEffect(() => {
+    setMapping(table ? guessColumnMapping(table.headers) : EMPTY_MAPPING);
+  }, [table]);
+
+  const parsed = useMemo((): { tasks: ImportedTask[]; error: string | null } => {
+    if (!text.trim()) return { tasks: [], error: null };
+    try {
+      switch (format) {
+        case "csv":
+          return { tasks: table ? mapCsvTasks(table, mapping) : [], error: null };
+        case "markdown":
+          return { tasks: parseMarkdownTasks(text), error: null };
+        case "ical":
+          return { tasks: parseICalTasks(text), error: null };
+        case "mstodo":
+          return { tasks: parseMicrosoftToDoTasks(text), error: null };
+      }
+    } catch (err) {
+      return { tasks: [], error: err instanceof Error ? err.message : "Couldn't read this file." };
+    }
+  }, [format, text, table, mapping]);
+
+  // Marks tasks already in the list; shown only, the ticks are the user's
+  const duplicates = useMemo(
+    () => findDuplicateTasks(parsed.tasks, existingTodos),
+    [parsed.tasks, existingTodos]
+  );
+  const existingTodosRef = useRef<Todo[]>(existingTodos);
+  existingTodosRef.current = existingTodos;
+
+  // Tick everything except duplicates whenever different tasks are read, but not when the
+  // list changes underneath (a sync, or this very import)
+  useEffect(() => {
+    setSelected(
+      findDuplicateTasks(parsed.tasks, existingTodosRef.current).map((duplicate) => !duplicate)
+    );
+  }, [parsed.tasks]);
+
+  const selectedCount = selected.filter(Boolean).length;
+  const importing = progress !== null && result === null;
+
+  const reset = (): void => {
+    setText("");
+    setFileName("");
+    setFormat("csv");
+    setProgress(null);
+    setResult(null);
+  };
+
+  const handleClose = (): void => {
+    if (importing) return;
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const contents = await file.text();
+    setFileName(file.name);
+    setFormat(detectImportFormat(file.name, contents));
+    setText(contents);
+    setResult(null);
+  };
+
+  const handlePaste = (value: string): void => {
+    setText(value);
+    setFileName("");
+    setFormat(detectImportFormat("", value));
+    setResult(null);
+  };
+
+  const handleImport = async (): Promise<void> => {
+    const tasks = selectImportedTasks(parsed.tasks, selected);
+    if (tasks.length === 0) return;
+    setProgress({ done: 0, total: tasks.length });
+    const outcome = await importTasks(
+      tasks,
+      (done, total) => setProgress({ done, total }),
+      getAppendPosition(existingTodos)
+    );
+    setResult(outcome);
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-white rounded-lg shadow-xl">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <Dialog.Title className="text-xl font-bold text-gray-900">
+              📥 Import Tasks
+            </Dialog.Title>
+            <button
+              onClick={handleClose}
+              disabled={importing}
+              className="p-1 text-gray-500 rounded hover:bg-gray-100 disabled:opacity-40"
+              aria-label="Close import"
+            >
+              <XMarkIcon className="w-5 h-5" aria-hidden="true" />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            {result ? (
+              <div className="space-y-2" aria-live="polite">
+                <p className="text-gray-900">
+                  ✅ Imported {result.created} {result.created === 1 ? "task" : "tasks"}.
+                </p>
+                {result.failed.length > 0 && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                    <p className="font-semibold">
+                      {result.failed.length} {result.failed.length === 1 ? "task" : "tasks"}{" "}
+                      couldn't be imported:
+                    </p>
+                    <ul className="list-disc ml-5">
+                      {result.failed.map((task, index) => (
+                        <li key={index}>{task}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <>
+                {/* Source */}
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex items-center gap-2 px-3 py-2 text-sm text-blue-700 border border-blue-300 rounded-lg cursor-pointer hover:bg-blue-50">
+                    <ArrowUpTrayIcon className="w-4 h-4" aria-hidden="true" />
+                    Choose file
+                    <input
+                      type="file"
+                      accept=".csv,.tsv,.md,.markdown,.txt,.ics,.json"
+                      onChange={handleFileChange}
+                      disabled={importing}
+                      className="sr-only"
+                    />
+                  </label>
+                  {fileName && <span className="text-sm text-gray-600">{fileName}</span>}
+                  <select
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as ImportFormat)}
+                    disabled={importing}
+                    className="ml-auto px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="File format"
+                  >
+                    {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map((value) => (
+                      <option key={value} value={value}>
+                        {FORMAT_LABELS[value]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {!fileName && (
+                  <textarea
+                    value={text}
+                    onChange={(e) => handlePaste(e.target.value)}
+                    placeholder={PASTE_PLACEHOLDER}
+                    rows={5}
+                    disabled={importing}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="Tasks to import"
+                  />
+                )}
+
+                {/* Column mapping */}
+                {table && table.headers.length > 0 && (
+                  <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                    {MAPPING_FIELDS.map(({ field, label }) => (
+                      <label key={field} className="text-sm font-medium text-gray-700">
+                        {label}
+                        <select
+                          value={mapping[field] ?? ""}
+                          onChange={(e) =>
+                            setMapping((prev) => ({
+                              ...prev,
+                              [field]: e.target.value === "" ? null : Number(e.target.value),
+                            }))
+                          }
+                          disabled={importing}
+                          className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm font-normal focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">{field === "task" ? "Choose a column" : "None"}</option>
+                          {table.headers.map((header, index) => (
+                            <option key={index} value={index}>
+                              {header || `Column ${index + 1}`}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {parsed.error && (
+                  <p className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                    {parsed.error}
+                  </p>
+                )}
+
+                {/* Preview */}
+                {parsed.tasks.length > 0 && (
+                  <div>
+                    <p className="mb-2 text-sm text-gray-600">
+                      {parsed.tasks.length} {parsed.tasks.length === 1 ? "task" : "tasks"} found
+                      {duplicates.some(Boolean) &&
+                        ` · ${duplicates.filter(Boolean).length} already in your list`}
+                    </p>
+                    <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                      {parsed.tasks.map((task, index) => (
+                        <li key={index} className="flex items-center gap-2 px-3 py-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={selected[index] ?? false}
+                            onChange={(e) =>
+                              setSelected((prev) =>
+                                prev.map((value, i) => (i === index ? e.target.checked : value))
+                              )
+                            }
+                            disabled={importing}
+                            className="w-4 h-4 text-blue-600 rounded"
+                            aria-label={`Import ${task.task}`}
+                          />
+                          <span
+                            className={`flex-1 truncate ${
+                              task.completed ? "line-through text-gray-500" : "text-gray-900"
+                            } ${typeof task.parentIndex === "number" ? "pl-4" : ""}`}
+                          >
+                            {task.task}
+                          </span>
+                          {duplicates[index] && (
+                            <span className="px-2 py-0.5 text-xs rounded bg-amber-100 text-amber-800">
+                              Duplicate
+                            </span>
+                          )}
+                          {task.dueAt && (
+                            <span className="text-xs text-gray-500">{formatDueDate(task.dueAt)}</span>
+                          )}
+                          <span
+                            className={`px-2 py-0.5 text-xs font-semibold rounded ${
+                              task.priority === "High"
+                                ? "bg-red-100 text-red-800"
+                                : task.priority === "Medium"
+                                ? "bg-yellow-100 text-yellow-800"
+                                : "bg-green-100 text-green-800"
+                            }`}
+                          >
+                            {task.priority}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-gray-200">
+            {importing && progress && (
+              <span className="mr-auto text-sm text-gray-600" aria-live="polite">
+                Importing {progress.done}/{progress.total}...
+              </span>
+            )}
+            {result ? (
+              <button
+                onClick={handleClose}
+                className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+              >
+                Done
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={handleClose}
+                  disabled={importing}
+                  className="px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-40"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={importing || selectedCount === 0}
+                  className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Import {selectedCount} {selectedCount === 1 ? "task" : "tasks"}
+                </button>
+              </>
+            )}
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
@@ -1,28 +1,31 @@
 /**
  * Login Component
  *
- * Displays the authentication page with a "Sign in with Microsoft" button.
- * Uses MSAL to handle Azure Entra ID authentication.
+ * Displays the authentication page with a sign-in button for the configured
+ * identity provider ("Sign in with Microsoft" for Azure Entra ID).
  */
 
 import React, { FC } from "react";
-import { useMsal } from "@azure/msal-react";
-import { InteractionRequiredAuthError } from "@azure/msal-browser";
+import { useAuth } from "../hooks/useAuth";
+import { signIn } from "../services/auth";
 import { loginRequest } from "../authConfig";
+import type { AuthProviderKind } from "../types";
+
+const FOOTER_NOTES: Record<AuthProviderKind, string> = {
+  msal: "By signing in, you agree to secure your data with Azure Entra ID",
+  oidc: "You will be sent to your identity provider to sign in",
+  mock: "Development mode: you are signed in as a local test user with fake tokens",
+};
 
 const Login: FC = () => {
-  const { instance } = useMsal();
+  const { providerKind, providerName } = useAuth();
 
   const handleLogin = async (): Promise<void> => {
     try {
       // Initiate login flow
-      await instance.loginPopup(loginRequest);
+      await signIn(loginRequest);
     } catch (error) {
-      if (error instanceof InteractionRequiredAuthError) {
-        console.error("Login requires interaction:", error);
-      } else {
-        console.error("Login failed:", error);
-      }
+      console.error("Login failed:", error);
     }
   };
 
@@ -61,18 +64,18 @@ const Login: FC = () => {
         <button
           onClick={handleLogin}
           className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-semibold py-3 px-4 rounded-lg transition duration-200 ease-in-out transform hover:scale-105 active:scale-95 flex items-center justify-center gap-2"
-          aria-label="Sign in with Microsoft"
+          aria-label={`Sign in with ${providerName}`}
         >
-          <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
-            <path d="M11.4 24H0V12.6h11.4V24zM24 24H12.6V12.6H24V24zM11.4 11.4H0V0h11.4v11.4zm12.6 0H12.6V0H24v11.4z" />
-          </svg>
-          Sign in with Microsoft
+          {providerKind === "msal" && (
+            <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M11.4 24H0V12.6h11.4V24zM24 24H12.6V12.6H24V24zM11.4 11.4H0V0h11.4v11.4zm12.6 0H12.6V0H24v11.4z" />
+            </svg>
+          )}
+          Sign in with {providerName}
         </button>
 
         {/* Footer */}
-        <p className="text-xs text-gray-500 text-center mt-6">
-          By signing in, you agree to secure your data with Azure Entra ID
-        </p>
+        <p className="text-xs text-gray-500 text-center mt-6">{FOOTER_NOTES[providerKind]}</p>
       </div>
     </div>
   );
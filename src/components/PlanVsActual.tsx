@@ -0,0 +1,81 @@
+/**
+ * PlanVsActual Component
+ *
+ * Shows how a day went compared with its schedule:
+ * - How many planned todos were completed that day
+ * - Each planned todo with its outcome
+ * - Todos completed that day that were not on the schedule
+ */
+
+import React, { FC } from "react";
+import type { PlanReview, PlannedTaskStatus } from "../types";
+import { formatMinutes } from "../utils/dates";
+
+interface PlanVsActualProps {
+  review: PlanReview;
+}
+
+const STATUS_LABELS: Record<PlannedTaskStatus, { icon: string; label: string; className: string }> = {
+  done: { icon: "✅", label: "Done", className: "text-green-700" },
+  "done-other-day": { icon: "☑️", label: "Done another day", className: "text-gray-600" },
+  open: { icon: "⬜", label: "Not done", className: "text-amber-700" },
+  removed: { icon: "🗑️", label: "Deleted", className: "text-gray-400" },
+};
+
+const PlanVsActual: FC<PlanVsActualProps> = ({ review }) => {
+  const { planned, unplannedCompleted, completedCount } = review;
+  if (planned.length === 0 && unplannedCompleted.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 text-sm">
+      <h3 className="font-semibold text-gray-900 mb-2">Planned vs. done</h3>
+      {planned.length > 0 && (
+        <>
+          <p className="text-xs text-gray-600 mb-2">
+            {completedCount} of {planned.length} planned{" "}
+            {planned.length === 1 ? "task" : "tasks"} completed that day
+          </p>
+          <div className="w-full h-2 mb-3 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-green-500"
+              style={{ width: `${(completedCount / planned.length) * 100}%` }}
+            />
+          </div>
+          <ul className="space-y-1 mb-3">
+            {planned.map((outcome) => {
+              const status = STATUS_LABELS[outcome.status];
+              return (
+                <li key={outcome.todoId} className="flex items-center justify-between gap-2">
+                  <span className="truncate">
+                    <span aria-hidden="true">{status.icon} </span>
+                    {outcome.task}
+                  </span>
+                  <span className={`flex-shrink-0 text-xs ${status.className}`}>
+                    {status.label} · {formatMinutes(outcome.plannedMinutes)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+      {unplannedCompleted.length > 0 && (
+        <>
+          <p className="text-xs font-medium text-gray-600 mb-1">Also completed</p>
+          <ul className="space-y-1">
+            {unplannedCompleted.map((todo) => (
+              <li key={todo.id} className="truncate text-gray-700">
+                <span aria-hidden="true">✔️ </span>
+                {todo.task}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlanVsActual;
@@ -0,0 +1,158 @@
+/**
+ * RecurrencePicker Component
+ *
+ * Lets the user choose how a task repeats:
+ * - Common presets based on the task's due date (or today)
+ * - A custom RRULE field with validation and a plain-English preview
+ */
+
+import React, { FC, useState, useEffect } from "react";
+import {
+  WEEKDAYS,
+  WEEKDAY_NAMES,
+  parseRRule,
+  describeRRule,
+} from "../utils/recurrence";
+
+interface RecurrencePickerProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+  referenceDate: Date;
+  disabled?: boolean;
+}
+
+const CUSTOM = "custom";
+const ORDINALS = ["", "first", "second", "third", "fourth", "fifth"];
+
+/**
+ * Preset rules relative to the day the task is due
+ */
+const buildPresets = (reference: Date): { label: string; value: string }[] => {
+  const weekday = WEEKDAYS[reference.getDay()];
+  const dayName = WEEKDAY_NAMES[weekday];
+  const dayOfMonth = reference.getDate();
+  const weekOfMonth = Math.ceil(dayOfMonth / 7);
+
+  return [
+    { label: "Every day", value: "FREQ=DAILY" },
+    { label: "Every weekday (Mon–Fri)", value: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" },
+    { label: `Every week on ${dayName}`, value: `FREQ=WEEKLY;BYDAY=${weekday}` },
+    { label: `Every 2 weeks on ${dayName}`, value: `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}` },
+    {
+      label: `Every month on the ${ORDINALS[weekOfMonth]} ${dayName}`,
+      value: `FREQ=MONTHLY;BYDAY=${weekOfMonth}${weekday}`,
+    },
+    { label: `Every month on day ${dayOfMonth}`, value: `FREQ=MONTHLY;BYMONTHDAY=${dayOfMonth}` },
+    { label: "First of every month", value: "FREQ=MONTHLY;BYMONTHDAY=1" },
+    { label: "Every year", value: "FREQ=YEARLY" },
+  ];
+};
+
+const RecurrencePicker: FC<RecurrencePickerProps> = ({
+  value,
+  onChange,
+  referenceDate,
+  disabled = false,
+}) => {
+  const presets = buildPresets(referenceDate);
+  const [customMode, setCustomMode] = useState<boolean>(false);
+  const [customText, setCustomText] = useState<string>("");
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  // Leave custom mode when the form is reset after submitting
+  useEffect(() => {
+    if (value === null && !customError) {
+      setCustomMode(false);
+      setCustomText("");
+    }
+  }, [value, customError]);
+
+  const isPreset = !value || presets.some((preset) => preset.value === value);
+  const selected = customMode || !isPreset ? CUSTOM : value ?? "";
+
+  const handleSelect = (selection: string): void => {
+    if (selection === CUSTOM) {
+      setCustomMode(true);
+      setCustomText(value ?? "");
+      return;
+    }
+    setCustomMode(false);
+    setCustomError(null);
+    onChange(selection || null);
+  };
+
+  const handleCustomChange = (text: string): void => {
+    setCustomText(text);
+    if (!text.trim()) {
+      setCustomError(null);
+      onChange(null);
+      return;
+    }
+    try {
+      parseRRule(text);
+      setCustomError(null);
+      onChange(text.trim().replace(/^RRULE:/i, ""));
+    } catch (err) {
+      setCustomError(err instanceof Error ? err.message : "Invalid rule");
+      onChange(null);
+    }
+  };
+
+  let preview: string | null = null;
+  if (value) {
+    try {
+      preview = describeRRule(parseRRule(value));
+    } catch {
+      preview = null;
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+      <label className="flex items-center gap-2">
+        Repeat
+        <select
+          value={selected}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={disabled}
+          aria-label="Repeat"
+        >
+          <option value="">Does not repeat</option>
+          {presets.map((preset) => (
+            <option key={preset.value} value={preset.value}>
+              {preset.label}
+            </option>
+          ))}
+          <option value={CUSTOM}>Custom rule…</option>
+        </select>
+      </label>
+
+      {selected === CUSTOM && (
+        <input
+          type="text"
+          value={customMode ? customText : value ?? ""}
+          onChange={(e) => handleCustomChange(e.target.value)}
+          placeholder="FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10"
+          className={`flex-1 min-w-[16rem] px-3 py-1 border rounded-lg font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+            customError ? "border-red-400" : "border-gray-300"
+          }`}
+          disabled={disabled}
+          aria-label="Custom recurrence rule"
+          aria-invalid={!!customError}
+        />
+      )}
+
+      {customError && (
+        <span className="w-full text-xs text-red-700" role="alert">
+          {customError}
+        </span>
+      )}
+      {preview && !customError && selected === CUSTOM && (
+        <span className="w-full text-xs text-gray-500">🔁 {preview}</span>
+      )}
+    </div>
+  );
+};
+
+export default RecurrencePicker;
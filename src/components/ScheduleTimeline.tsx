@@ -0,0 +1,301 @@
+/**
+ * ScheduleTimeline Component
+ *
+ * Vertical day timeline for a generated schedule:
+ * - Blocks are placed proportionally between the user's work start and end,
+ *   with each work period of a split shift shaded
+ * - Breaks and calendar meetings are drawn as distinct blocks; meetings stay fixed
+ * - A "now" line marks the current time on today's schedule
+ * - Free gaps are outlined and overlapping blocks are flagged side by side
+ * - When editing is enabled, blocks can be dragged to move them and resized from
+ *   their bottom edge (or nudged with the arrow keys, Shift+arrows to resize)
+ */
+
+import React, { FC, useState, useEffect, useRef } from "react";
+import type { ScheduleItem, WorkPeriod } from "../types";
+import { layoutTimeline } from "../utils/timeline";
+import { formatClockTime, parseTimeOfDay } from "../utils/scheduleModel";
+import { formatMinutes } from "../utils/dates";
+import { getWorkPeriods } from "../utils/habits";
+import { SNAP_MINUTES, snapMinutes, isEditableItem } from "../utils/scheduleEdit";
+
+interface ScheduleTimelineProps {
+  items: ScheduleItem[];
+  workStartTime: string;
+  workEndTime: string;
+  workPeriods?: WorkPeriod[];
+  showNowLine?: boolean;
+  onMoveItem?: (index: number, start: number) => void;
+  onResizeItem?: (index: number, durationMinutes: number) => void;
+}
+
+interface DragState {
+  index: number;
+  mode: "move" | "resize";
+  originY: number;
+  deltaMinutes: number;
+}
+
+const PX_PER_MINUTE = 1.2;
+const MIN_BLOCK_HEIGHT = 20;
+
+const minutesSinceMidnight = (date: Date): number => date.getHours() * 60 + date.getMinutes();
+
+const ScheduleTimeline: FC<ScheduleTimelineProps> = ({
+  items,
+  workStartTime,
+  workEndTime,
+  workPeriods,
+  showNowLine = true,
+  onMoveItem,
+  onResizeItem,
+}) => {
+  const [now, setNow] = useState<number>(() => minutesSinceMidnight(new Date()));
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the now line current
+  useEffect(() => {
+    if (!showNowLine) return;
+    const interval = window.setInterval(
+      () => setNow(minutesSinceMidnight(new Date())),
+      60 * 1000
+    );
+    return () => window.clearInterval(interval);
+  }, [showNowLine]);
+
+  const workStart = parseTimeOfDay(workStartTime) ?? 9 * 60;
+  const workEnd = parseTimeOfDay(workEndTime) ?? 17 * 60;
+  const periods = getWorkPeriods({ workStartTime, workEndTime, workPeriods });
+  const { rangeStart, rangeEnd, blocks, gaps, overlapCount } = layoutTimeline(
+    items,
+    workStart,
+    Math.max(workEnd, workStart + 60),
+    periods
+  );
+
+  const toPx = (minutes: number): number => (minutes - rangeStart) * PX_PER_MINUTE;
+  const nowVisible = showNowLine && now >= rangeStart && now <= rangeEnd;
+  const freeMinutes = gaps.reduce((total, gap) => total + gap.end - gap.start, 0);
+
+  // Start scrolled to the current time on today's schedule
+  useEffect(() => {
+    if (nowVisible && scrollRef.current) {
+      scrollRef.current.scrollTop = Math.max(0, toPx(now) - 80);
+    }
+    // Only on mount: later minute ticks should not fight the user's scrolling
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const editable = Boolean(onMoveItem && onResizeItem);
+
+  /**
+   * Start dragging a block (move) or its bottom handle (resize)
+   */
+  const handlePointerDown = (
+    e: React.PointerEvent<HTMLDivElement>,
+    index: number,
+    mode: DragState["mode"]
+  ): void => {
+    if (e.button !== 0) return;
+    // The resize handle sits inside the block; move and up events bubble to the block
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ index, mode, originY: e.clientY, deltaMinutes: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>): void => {
+    if (!drag) return;
+    const deltaMinutes = snapMinutes((e.clientY - drag.originY) / PX_PER_MINUTE);
+    if (deltaMinutes !== drag.deltaMinutes) {
+      setDrag({ ...drag, deltaMinutes });
+    }
+  };
+
+  const handlePointerUp = (): void => {
+    if (!drag) return;
+    const item = items[drag.index];
+    if (item && drag.deltaMinutes !== 0) {
+      if (drag.mode === "move") {
+        onMoveItem?.(drag.index, item.start + drag.deltaMinutes);
+      } else {
+        onResizeItem?.(drag.index, item.durationMinutes + drag.deltaMinutes);
+      }
+    }
+    setDrag(null);
+  };
+
+  /**
+   * Arrow keys nudge the focused block; with Shift they change its length
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, index: number): void => {
+    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+    e.preventDefault();
+    const item = items[index];
+    const step = e.key === "ArrowUp" ? -SNAP_MINUTES : SNAP_MINUTES;
+    if (e.shiftKey) {
+      onResizeItem?.(index, item.durationMinutes + step);
+    } else {
+      onMoveItem?.(index, item.start + step);
+    }
+  };
+
+  const hours: number[] = [];
+  for (let hour = rangeStart; hour <= rangeEnd; hour += 60) {
+    hours.push(hour);
+  }
+
+  return (
+    <div>
+      {(overlapCount > 0 || freeMinutes > 0) && (
+        <div className="flex flex-wrap gap-2 mb-3 text-xs">
+          {overlapCount > 0 && (
+            <span className="px-2 py-1 rounded bg-red-100 text-red-800">
+              ⚠️ {overlapCount} overlapping {overlapCount === 1 ? "block" : "blocks"}
+            </span>
+          )}
+          {freeMinutes > 0 && (
+            <span className="px-2 py-1 rounded bg-gray-100 text-gray-700">
+              {formatMinutes(freeMinutes)} unplanned
+            </span>
+          )}
+        </div>
+      )}
+
+      <div ref={scrollRef} className="max-h-[70vh] overflow-y-auto pr-1">
+        <div
+          className="relative ml-12"
+          style={{ height: toPx(rangeEnd) }}
+          role="list"
+          aria-label="Schedule timeline"
+        >
+          {/* Hour grid */}
+          {hours.map((hour) => (
+            <div
+              key={hour}
+              className="absolute left-0 right-0 border-t border-gray-100"
+              style={{ top: toPx(hour) }}
+              aria-hidden="true"
+            >
+              <span className="absolute -left-12 -top-2 w-10 text-right text-xs text-gray-400">
+                {formatClockTime(hour)}
+              </span>
+            </div>
+          ))}
+
+          {/* Work periods */}
+          {periods.map((period) => (
+            <div
+              key={`period-${period.start}`}
+              className="absolute left-0 right-0 bg-blue-50/40 border-y border-blue-100"
+              style={{ top: toPx(period.start), height: (period.end - period.start) * PX_PER_MINUTE }}
+              aria-hidden="true"
+            />
+          ))}
+
+          {/* Free gaps */}
+          {gaps.map((gap) => (
+            <div
+              key={`gap-${gap.start}`}
+              className="absolute left-1 right-1 border-2 border-dashed border-gray-200 rounded flex items-center justify-center text-xs text-gray-400"
+              style={{
+                top: toPx(gap.start),
+                height: Math.max((gap.end - gap.start) * PX_PER_MINUTE, MIN_BLOCK_HEIGHT),
+              }}
+            >
+              Free · {formatMinutes(gap.end - gap.start)}
+            </div>
+          ))}
+
+          {/* Schedule blocks */}
+          {blocks.map(({ item, index, column, columns, overlaps }) => {
+            const dragging = drag?.index === index ? drag : null;
+            const start = item.start + (dragging?.mode === "move" ? dragging.deltaMinutes : 0);
+            const duration = Math.max(
+              SNAP_MINUTES,
+              item.durationMinutes + (dragging?.mode === "resize" ? dragging.deltaMinutes : 0)
+            );
+            const height = Math.max(duration * PX_PER_MINUTE, MIN_BLOCK_HEIGHT);
+            const isBreak = item.kind === "break";
+            const isEvent = item.kind === "event";
+            const draggable = editable && isEditableItem(item);
+
+            return (
+              <div
+                key={index}
+                role="listitem"
+                className={`absolute rounded-md px-2 py-1 overflow-hidden text-xs ${
+                  dragging ? "z-20 shadow-lg opacity-90" : "animate-fadeIn"
+                } ${
+                  isBreak
+                    ? "bg-amber-50 border border-dashed border-amber-300 text-amber-800"
+                    : isEvent
+                    ? "bg-purple-100 border border-purple-300 text-purple-900"
+                    : "bg-gradient-to-r from-blue-100 to-indigo-100 border border-blue-200 text-blue-900"
+                } ${overlaps ? "ring-2 ring-red-400" : ""} ${
+                  draggable ? "cursor-grab touch-none select-none focus:outline-none focus:ring-2 focus:ring-blue-500" : ""
+                }`}
+                style={{
+                  top: toPx(start),
+                  height,
+                  left: `calc(${(column / columns) * 100}% + 2px)`,
+                  width: `calc(${100 / columns}% - 4px)`,
+                }}
+                title={`${formatClockTime(start)}–${formatClockTime(start + duration)} ${item.task}`}
+                tabIndex={draggable ? 0 : undefined}
+                aria-label={
+                  draggable
+                    ? `${item.task}, ${formatClockTime(item.start)} to ${formatClockTime(item.end)}. Use arrow keys to move, Shift+arrow keys to resize.`
+                    : undefined
+                }
+                onPointerDown={draggable ? (e) => handlePointerDown(e, index, "move") : undefined}
+                onPointerMove={draggable ? handlePointerMove : undefined}
+                onPointerUp={draggable ? handlePointerUp : undefined}
+                onPointerCancel={draggable ? () => setDrag(null) : undefined}
+                onKeyDown={draggable ? (e) => handleKeyDown(e, index) : undefined}
+              >
+                <div className="flex items-baseline justify-between gap-1">
+                  <span className="font-semibold truncate">
+                    {isBreak ? "☕ " : isEvent ? "📅 " : ""}
+                    {item.task}
+                  </span>
+                  {height >= 32 && (
+                    <span className="flex-shrink-0 opacity-75">
+                      {formatMinutes(duration)}
+                    </span>
+                  )}
+                </div>
+                {height >= 32 && (
+                  <div className="opacity-75">
+                    {formatClockTime(start)}–{formatClockTime(start + duration)}
+                    {overlaps && <span className="ml-1 text-red-700 font-semibold">Overlaps</span>}
+                  </div>
+                )}
+                {draggable && (
+                  <div
+                    className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize"
+                    onPointerDown={(e) => handlePointerDown(e, index, "resize")}
+                    aria-hidden="true"
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          {/* Now line */}
+          {nowVisible && (
+            <div
+              className="absolute left-0 right-0 z-10 border-t-2 border-red-500 pointer-events-none"
+              style={{ top: toPx(now) }}
+              aria-label={`Now, ${formatClockTime(now)}`}
+            >
+              <span className="absolute -left-2 -top-1.5 w-3 h-3 rounded-full bg-red-500" />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleTimeline;
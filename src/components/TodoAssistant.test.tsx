@@ -0,0 +1,215 @@
+/**
+ * TodoAssistant Tests
+ *
+ * Adding, completing, deleting and scheduling tasks against the mock API,
+ * including how the page copes with the backend failing.
+ */
+
+import React from "react";
+import { render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import TodoAssistant from "./TodoAssistant";
+import { loginRequest } from "../authConfig";
+import { initializeAuth, signIn } from "../services/auth";
+import { createMockAuthProvider } from "../services/mockAuthProvider";
+import { createMockApi } from "../services/mockApi";
+import { initializeApi, setApiAdapter } from "../services/api";
+import { clearLocalData } from "../services/localData";
+import type { Todo } from "../types";
+
+// No Outlook calendar in tests
+jest.mock("../services/graphClient", () => ({
+  initializeGraph: () => undefined,
+  getCalendarEvents: () => Promise.resolve([]),
+}));
+
+const TODOS: Todo[] = [
+  {
+    id: "todo-1",
+    task: "Write report",
+    priority: "High",
+    completed: false,
+    estimatedMinutes: 60,
+    position: 1000,
+  },
+  {
+    id: "todo-2",
+    task: "Water plants",
+    priority: "Low",
+    completed: false,
+    estimatedMinutes: 15,
+    position: 2000,
+  },
+];
+
+const mockApi = createMockApi();
+
+const findStoredTodo = (task: string): Todo | undefined =>
+  mockApi.getTodos().find((todo) => todo.task === task);
+
+/**
+ * Render the page and wait for the backend's todos to show up
+ */
+const renderAssistant = async (): Promise<ReturnType<typeof userEvent.setup>> => {
+  const user = userEvent.setup();
+  render(<TodoAssistant />);
+  await screen.findByText("Write report");
+  return user;
+};
+
+beforeAll(async () => {
+  await initializeAuth(createMockAuthProvider());
+  initializeApi();
+  setApiAdapter(mockApi.adapter);
+});
+
+beforeEach(async () => {
+  await signIn(loginRequest);
+  await clearLocalData();
+  mockApi.reset({ todos: TODOS });
+  jest.spyOn(window, "confirm").mockReturnValue(true);
+  // Failed requests are logged; the failures here are expected
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("adding a task", () => {
+  it("creates the task on the backend and lists it", async () => {
+    const user = await renderAssistant();
+
+    await user.type(screen.getByLabelText("Task input"), "Call Sam");
+    await user.selectOptions(screen.getByLabelText("Priority selection"), "High");
+    await user.click(screen.getByLabelText("Add task button"));
+
+    expect(await screen.findByText("Call Sam")).toBeInTheDocument();
+    await waitFor(() =>
+      expect(findStoredTodo("Call Sam")).toMatchObject({ priority: "High", completed: false })
+    );
+    expect(screen.getByLabelText("Task input")).toHaveValue("");
+  });
+
+  it("restores the form and explains why when the server fails", async () => {
+    mockApi.addFault({ method: "post", path: "/todos", status: 500 });
+    const user = await renderAssistant();
+
+    await user.type(screen.getByLabelText("Task input"), "Call Sam");
+    await user.click(screen.getByLabelText("Add task button"));
+
+    expect(
+      await screen.findByText(
+        "Couldn't add the task: the server ran into a problem. Please try again later."
+      )
+    ).toBeInTheDocument();
+    expect(screen.getByLabelText("Task input")).toHaveValue("Call Sam");
+    await waitFor(() =>
+      expect(screen.queryByLabelText("Toggle task: Call Sam")).not.toBeInTheDocument()
+    );
+    expect(findStoredTodo("Call Sam")).toBeUndefined();
+  });
+});
+
+describe("completing a task", () => {
+  it("marks the task done on the backend", async () => {
+    const user = await renderAssistant();
+
+    await user.click(screen.getByLabelText("Toggle task: Write report"));
+
+    await waitFor(() =>
+      expect(screen.getByLabelText("Toggle task: Write report")).toHaveAttribute(
+        "aria-pressed",
+        "true"
+      )
+    );
+    await waitFor(() => expect(findStoredTodo("Write report")?.completed).toBe(true));
+    expect(findStoredTodo("Write report")?.completedAt).toEqual(expect.any(String));
+  });
+
+  it("retries with a fresh token when the backend answers 401", async () => {
+    mockApi.addFault({ method: "put", status: 401 });
+    const user = await renderAssistant();
+
+    await user.click(screen.getByLabelText("Toggle task: Write report"));
+
+    await waitFor(() => expect(findStoredTodo("Write report")?.completed).toBe(true));
+    expect(screen.queryByText(/Your session has expired/)).not.toBeInTheDocument();
+  });
+
+  it("keeps the change when the session has expired and syncs it after signing in", async () => {
+    mockApi.addFault({ method: "put", status: 401, times: 2 });
+    const user = await renderAssistant();
+
+    await user.click(screen.getByLabelText("Toggle task: Write report"));
+
+    expect(await screen.findByText(/Your session has expired/)).toBeInTheDocument();
+    expect(screen.getByLabelText("Toggle task: Write report")).toHaveAttribute(
+      "aria-pressed",
+      "true"
+    );
+    expect(findStoredTodo("Write report")?.completed).toBe(false);
+
+    await user.click(screen.getByRole("button", { name: "Sign in again" }));
+
+    await waitFor(() => expect(findStoredTodo("Write report")?.completed).toBe(true));
+    expect(screen.queryByText(/Your session has expired/)).not.toBeInTheDocument();
+  });
+});
+
+describe("deleting a task", () => {
+  it("removes the task from the list and the backend, offering to undo", async () => {
+    const user = await renderAssistant();
+
+    await user.click(screen.getByLabelText("Delete task: Water plants"));
+
+    await waitFor(() => expect(screen.queryByText("Water plants")).not.toBeInTheDocument());
+    expect(findStoredTodo("Water plants")).toBeUndefined();
+    const toast = await screen.findByRole("status");
+    expect(within(toast).getByText('Deleted "Water plants"')).toBeInTheDocument();
+  });
+
+  it("puts the task back when the server fails to delete it", async () => {
+    mockApi.addFault({ method: "delete", status: 500 });
+    const user = await renderAssistant();
+
+    await user.click(screen.getByLabelText("Delete task: Water plants"));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Couldn't delete this task: the server ran into a problem."
+    );
+    expect(screen.getByText("Water plants")).toBeInTheDocument();
+    expect(findStoredTodo("Water plants")).toBeDefined();
+  });
+});
+
+describe("generating a schedule", () => {
+  it("shows the schedule planned by the backend", async () => {
+    const user = await renderAssistant();
+
+    await user.click(screen.getByLabelText("Generate AI schedule"));
+
+    expect(await screen.findByLabelText(/^Write report, 09:00 to 10:00/)).toBeInTheDocument();
+    expect(screen.queryByText(/Quick preview/)).not.toBeInTheDocument();
+    const request = mockApi.getRequests().find(({ path }) => path === "/schedule");
+    expect(request?.body).toMatchObject({
+      todos: [{ id: "todo-1" }, { id: "todo-2" }],
+      habits: { workStartTime: "09:00", workEndTime: "17:00" },
+      busy: [],
+    });
+  });
+
+  it("falls back to a schedule planned on the device when the AI fails", async () => {
+    mockApi.addFault({ method: "post", path: "/schedule", status: 500 });
+    const user = await renderAssistant();
+
+    await user.click(screen.getByLabelText("Generate AI schedule"));
+
+    expect(
+      await screen.findByText(
+        "The AI scheduler is unavailable, so this schedule was planned on your device."
+      )
+    ).toBeInTheDocument();
+    expect(screen.getByLabelText(/^Write report, 09:00 to 10:00/)).toBeInTheDocument();
+  });
+});
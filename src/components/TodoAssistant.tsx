@@ -2,64 +2,230 @@
  * TodoAssistant Component
  *
  * Main application component that includes:
- * - Task input form with priority selection
- * - Task management (list, complete, delete)
- * - Habit questionnaire (collapsible)
- * - AI-generated schedule display
- * - User profile and logout
+ * - Task input form with priority, due date, estimate and recurrence, which can also
+ *   be typed inline ("tomorrow 3pm !high ~45m #work") with a live preview
+ * - Task management (list, complete, delete) backed by the offline-first store
+ * - Subtasks rendered as a collapsible tree, reordered by drag and drop
+ * - Search, filters (tag, project, priority, completion) and sorting, kept in the URL
+ * - Multi-select with batch complete, reopen, priority change and delete
+ * - Habit profiles and weekly plan (collapsible), validated and saved to the user's profile
+ * - AI-generated schedule on a day timeline, with an instant local preview and offline fallback
+ * - Drag-and-drop schedule editing
+ * - Undo/redo of task and schedule changes (Ctrl+Z / Ctrl+Shift+Z), with an undo
+ *   toast after deletions
+ * - Schedules saved per day, with a date navigator and planned vs. done review
+ * - Outlook meetings shown as fixed blocks that schedules are planned around
+ * - Schedule and open tasks exported as an iCalendar (.ics) file
+ * - Tasks imported from CSV, Markdown, iCalendar and Microsoft To Do files
+ * - Account menu: switch between signed-in accounts, add one, or log out
+ * - A prompt to sign in again when the session expires, keeping unsynced changes
  */
 
-import React, { FC, useState, useEffect } from "react";
-import { useMsal } from "@azure/msal-react";
-import { AccountInfo } from "@azure/msal-browser";
-import { Disclosure } from "@headlessui/react";
-import { ChevronUpIcon, TrashIcon, CheckIcon } from "@heroicons/react/20/solid";
+import React, { FC, useState, useEffect, useMemo, useRef, useCallback } from "react";
 import {
-  getTodos,
-  createTodo,
-  updateTodo,
-  deleteTodo,
-  generateSchedule,
-} from "../services/api";
-import type { Todo, Habits, ScheduleItem, CreateTodoRequest } from "../types";
+  XMarkIcon,
+  ArrowUturnLeftIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+} from "@heroicons/react/20/solid";
+import { generateSchedule } from "../services/api";
+import { refreshTodos, isNetworkError } from "../services/todoSync";
+import {
+  addAccount,
+  setActiveAccount,
+  signOut,
+  renewSession,
+  isSessionExpired,
+  subscribeToSessionExpired,
+} from "../services/auth";
+import { hasUnsyncedChanges, clearLocalData } from "../services/localData";
+import { loginRequest, apiRequest } from "../authConfig";
+import {
+  createCommand,
+  deleteCommand,
+  updateCommand,
+  moveCommand,
+  batchCommand,
+  combineCommands,
+} from "../services/todoCommands";
+import { useTodoStore } from "../hooks/useTodoStore";
+import { useTodoMutations } from "../hooks/useTodoMutations";
+import { useScheduleEditor } from "../hooks/useScheduleEditor";
+import { useHabits } from "../hooks/useHabits";
+import { useCalendarEvents } from "../hooks/useCalendarEvents";
+import { useTodoFilters } from "../hooks/useTodoFilters";
+import { useTodoSelection } from "../hooks/useTodoSelection";
+import { useUndoHistory } from "../hooks/useUndoHistory";
+import { useAuth } from "../hooks/useAuth";
+import type { ScheduleChange } from "../hooks/useScheduleEditor";
+import {
+  buildTodoTree,
+  flattenTodoTree,
+  getDescendantIds,
+  getParentToAutoComplete,
+} from "../utils/todoTree";
+import {
+  fromDateTimeLocalValue,
+  toDateKey,
+  fromDateKey,
+} from "../utils/dates";
+import { getNextRecurrence } from "../utils/recurrence";
+import { parseQuickAdd } from "../utils/quickAdd";
+import { filterTodoTree, collectTagsAndProjects } from "../utils/todoFilters";
+import { getAppendPosition, getReorderUpdates } from "../utils/todoOrder";
+import type { QuickAddTokenKind } from "../utils/quickAdd";
+import { buildLocalSchedule } from "../utils/scheduleEngine";
+import { ScheduleValidationError } from "../utils/scheduleModel";
+import { CancelledError, RateLimitError, TimeoutError, describeError } from "../utils/errors";
+import { reviewPlan } from "../utils/planReview";
+import { buildICalendar } from "../utils/ical";
+import { resolveHabitsForDate } from "../utils/habits";
+import {
+  getBlockingEvents,
+  toBusyIntervals,
+  toEventItems,
+  mergeEventsIntoSchedule,
+} from "../utils/calendar";
+import TodoTree from "./TodoTree";
+import RecurrencePicker from "./RecurrencePicker";
+import ScheduleTimeline from "./ScheduleTimeline";
+import DateNavigator from "./DateNavigator";
+import PlanVsActual from "./PlanVsActual";
+import HabitsEditor from "./HabitsEditor";
+import ImportDialog from "./ImportDialog";
+import TodoFilterBar from "./TodoFilterBar";
+import TodoBulkActions from "./TodoBulkActions";
+import UndoToast from "./UndoToast";
+import AccountMenu from "./AccountMenu";
+import type {
+  Todo,
+  CreateTodoRequest,
+  TodoBatchOperation,
+  TodoBatchResult,
+  UndoCommand,
+  AuthAccount,
+} from "../types";
+
+// Quick-add preview chips, coloured like the matching badges in the task list
+const QUICK_ADD_CHIP_CLASSES: Record<QuickAddTokenKind, string> = {
+  priority: "bg-yellow-100 text-yellow-800",
+  due: "bg-gray-100 text-gray-700",
+  estimate: "bg-purple-100 text-purple-800",
+  tag: "bg-sky-100 text-sky-800",
+  project: "bg-indigo-100 text-indigo-800",
+  recurrence: "bg-teal-100 text-teal-800",
+};
+
+/**
+ * Why the AI schedule was replaced by one planned on the device
+ */
+const describeScheduleFallback = (error: unknown): string => {
+  if (error instanceof ScheduleValidationError) {
+    return "The AI returned a schedule that couldn't be read, so this one was planned on your device.";
+  }
+  if (error instanceof TimeoutError) {
+    return "The AI scheduler took too long, so this schedule was planned on your device.";
+  }
+  if (error instanceof RateLimitError) {
+    return "The AI scheduler is busy right now, so this schedule was planned on your device.";
+  }
+  return "The AI scheduler is unavailable, so this schedule was planned on your device.";
+};
+
+const countTasks = (count: number): string => `${count} ${count === 1 ? "task" : "tasks"}`;
 
 const TodoAssistant: FC = () => {
-  const { instance, accounts } = useMsal();
+  const { accounts, activeAccount } = useAuth();
 
   // State management
-  const [todos, setTodos] = useState<Todo[]>([]);
-  const [schedule, setSchedule] = useState<ScheduleItem[]>([]);
+  const { todos, pendingIds, isOnline } = useTodoStore();
+  const { statuses, addTodo, updateTodo, moveTodo, removeTodo, applyBatch, dismissError } =
+    useTodoMutations();
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [showSchedule, setShowSchedule] = useState<boolean>(false);
+  const [scheduleNotice, setScheduleNotice] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState<boolean>(isSessionExpired);
+  // The AI schedule request in flight, so it can be cancelled
+  const scheduleRequestRef = useRef<AbortController | null>(null);
 
   // Form states
   const [taskInput, setTaskInput] = useState<string>("");
   const [priorityInput, setPriorityInput] = useState<"High" | "Medium" | "Low">("Medium");
-  const [habits, setHabits] = useState<Habits>({
-    workStartTime: "09:00",
-    workEndTime: "17:00",
-    breakDuration: 15,
-    breakFrequency: 60,
-    focusArea: "",
-  });
+  const [dueInput, setDueInput] = useState<string>("");
+  const [estimateInput, setEstimateInput] = useState<string>("");
+  const [recurrenceInput, setRecurrenceInput] = useState<string | null>(null);
+  const [projectInput, setProjectInput] = useState<string>("");
+  const [parentTodo, setParentTodo] = useState<Todo | null>(null);
+  const taskInputRef = useRef<HTMLInputElement>(null);
+  const habitsState = useHabits();
+  const [today] = useState<string>(() => toDateKey(new Date()));
+  const [scheduleDate, setScheduleDate] = useState<string>(today);
+  const activeHabits = useMemo(
+    () => resolveHabitsForDate(habitsState.settings, fromDateKey(scheduleDate) ?? new Date()),
+    [habitsState.settings, scheduleDate]
+  );
+  const habits = activeHabits.habits;
+  const scheduleEditor = useScheduleEditor(scheduleDate, habits);
+  const schedule = scheduleEditor.items;
+  const scheduleSource = scheduleEditor.source;
+  const calendar = useCalendarEvents(scheduleDate);
+  const meetingCount = getBlockingEvents(calendar.events).length;
+  const [showSchedule, setShowSchedule] = useState<boolean>(schedule.length > 0);
+  const [showImport, setShowImport] = useState<boolean>(false);
+
+  const { filters, updateFilters, clearFilters } = useTodoFilters();
+  const todoTree = useMemo(() => buildTodoTree(todos), [todos]);
+  const visibleTree = useMemo(() => filterTodoTree(todoTree, filters), [todoTree, filters]);
+  const visibleNodes = useMemo(() => flattenTodoTree(visibleTree.nodes), [visibleTree]);
+  const visibleIds = useMemo(() => visibleNodes.map((node) => node.todo.id), [visibleNodes]);
+  // "Select all" covers the matching tasks, not parents shown only for context
+  const matchingIds = useMemo(
+    () => visibleNodes.filter((node) => !node.context).map((node) => node.todo.id),
+    [visibleNodes]
+  );
+  const selection = useTodoSelection(visibleIds);
+  const selectedTodos = todos.filter((todo) => selection.selectedIds.has(todo.id));
+  const [batchBusy, setBatchBusy] = useState<boolean>(false);
+  const history = useUndoHistory();
+  const [toast, setToast] = useState<string | null>(null);
+  const scheduleScope = `schedule:${scheduleDate}`;
+  const tagsAndProjects = useMemo(() => collectTagsAndProjects(todos), [todos]);
+  const quickAdd = useMemo(() => parseQuickAdd(taskInput), [taskInput]);
+  const planReview = useMemo(
+    () => (scheduleDate <= today ? reviewPlan(schedule, todos, scheduleDate) : null),
+    [schedule, todos, scheduleDate, today]
+  );
+
+  // Forget the selected parent if it has been deleted
+  useEffect(() => {
+    if (parentTodo && !todos.some((todo) => todo.id === parentTodo.id)) {
+      setParentTodo(null);
+    }
+  }, [todos, parentTodo]);
 
   // Fetch todos on component mount
   useEffect(() => {
     fetchTodos();
   }, []);
 
+  // Leaving cancels a schedule that is still being generated
+  useEffect(() => () => scheduleRequestRef.current?.abort(), []);
+
+  // Ask the user to sign in again once requests can no longer get a token
+  useEffect(() => subscribeToSessionExpired(() => setSessionExpired(true)), []);
+
   /**
-   * Fetch todos from backend
+   * Sync with the backend; the local store keeps serving todos while offline
    */
   const fetchTodos = async (): Promise<void> => {
     setLoading(true);
     setError(null);
     try {
-      const data = await getTodos();
-      setTodos(data);
+      await refreshTodos();
     } catch (err) {
-      setError("Failed to load tasks. Please try again.");
+      if (!isNetworkError(err)) {
+        setError(describeError(err, "load tasks"));
+      }
       console.error(err);
     } finally {
       setLoading(false);
@@ -68,116 +234,478 @@ const TodoAssistant: FC = () => {
 
   /**
    * Handle adding a new task
+   * Details typed inline take precedence over the form controls.
+   * The task shows up immediately; the form is restored if the server rejects it
    */
   const handleAddTask = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
     e.preventDefault();
     if (!taskInput.trim()) return;
+    if (!quickAdd.task) {
+      setError("Add a title for the task, e.g. “Pay rent every month on the 1st”.");
+      return;
+    }
 
-    setLoading(true);
+    const rawInput = taskInput;
+    const estimate = parseInt(estimateInput, 10);
+    const recurrence = quickAdd.recurrence ?? recurrenceInput;
+    const todoData: CreateTodoRequest = {
+      task: quickAdd.task,
+      priority: quickAdd.priority ?? priorityInput,
+      completed: false,
+      parentId: parentTodo?.id ?? null,
+      dueAt: quickAdd.dueAt ?? fromDateTimeLocalValue(dueInput),
+      estimatedMinutes: quickAdd.estimatedMinutes ?? (estimate > 0 ? estimate : null),
+      recurrence,
+      occurrence: recurrence ? 1 : undefined,
+      tags: quickAdd.tags.length > 0 ? quickAdd.tags : undefined,
+      // Subtasks stay in their parent's project unless another one is given
+      project: quickAdd.project ?? (projectInput.trim() || parentTodo?.project || null),
+      position: getAppendPosition(todos),
+    };
+    const formState = { priorityInput, dueInput, estimateInput, recurrenceInput, projectInput };
     setError(null);
+    setTaskInput("");
+    setPriorityInput("Medium");
+    setDueInput("");
+    setEstimateInput("");
+    setRecurrenceInput(null);
+    setProjectInput("");
     try {
-      const newTodo = await createTodo({
-        task: taskInput,
-        priority: priorityInput,
-        completed: false,
-      } as CreateTodoRequest);
-      setTodos([...todos, newTodo]);
-      setTaskInput("");
-      setPriorityInput("Medium");
+      recordCommand(createCommand(await addTodo(todoData)));
     } catch (err) {
-      setError("Failed to add task. Please try again.");
+      setTaskInput(rawInput);
+      setPriorityInput(formState.priorityInput);
+      setDueInput(formState.dueInput);
+      setEstimateInput(formState.estimateInput);
+      setRecurrenceInput(formState.recurrenceInput);
+      setProjectInput(formState.projectInput);
+      setError(describeError(err, "add the task"));
       console.error(err);
-    } finally {
-      setLoading(false);
     }
   };
 
+  /**
+   * Narrow the list to a tag clicked on a task
+   */
+  const handleSelectTag = (tag: string): void => {
+    if (!filters.tags.includes(tag)) {
+      updateFilters({ tags: [...filters.tags, tag] });
+    }
+  };
+
+  /**
+   * Move a task to a new place among its siblings in the manual order
+   * @param todo - The moved task
+   * @param siblings - Its siblings as shown, in manual order
+   * @param toIndex - Where it was dropped
+   */
+  const handleReorder = async (todo: Todo, siblings: Todo[], toIndex: number): Promise<void> => {
+    const updates = getReorderUpdates(siblings, todo.id, toIndex);
+    const moved = await Promise.all(
+      updates.map(({ todo: sibling, position }) => moveTodo(sibling, position))
+    );
+    const commands = updates
+      .filter((_, index) => moved[index])
+      .map(({ todo: sibling, position }) => moveCommand(sibling, position));
+    if (commands.length > 0) {
+      recordCommand(combineCommands(`Moved "${todo.task}"`, commands));
+    }
+  };
+
+  /**
+   * Start adding subtasks below an existing task
+   */
+  const handleAddSubtask = (todo: Todo): void => {
+    setParentTodo(todo);
+    taskInputRef.current?.focus();
+  };
+
   /**
    * Handle marking task as complete/incomplete
+   * Completing a recurring task hands its rule over to a new instance for the
+   * next occurrence. Completing the last open subtask also completes its
+   * parent (and so on up). completedAt feeds the planned vs. done review.
    */
-  const handleToggleTodo = async (
-    id: string,
-    currentStatus: boolean
-  ): Promise<void> => {
-    setLoading(true);
-    setError(null);
+  const handleToggleTodo = async (todo: Todo): Promise<void> => {
+    const completed = !todo.completed;
+    const completedAt = completed ? new Date().toISOString() : null;
+    const nextOccurrence = completed ? getNextRecurrence(todo) : null;
+    const update = nextOccurrence
+      ? { completed, completedAt, recurrence: null }
+      : { completed, completedAt };
+    if (!(await updateTodo(todo, update))) return;
+
+    const label = `${completed ? "Completed" : "Reopened"} "${todo.task}"`;
+    const commands = [updateCommand(todo, update, label)];
+    if (nextOccurrence) {
+      try {
+        commands.push(createCommand(await addTodo(nextOccurrence)));
+      } catch (err) {
+        setError(describeError(err, "schedule the next occurrence of this task"));
+        console.error(err);
+      }
+    }
+
+    let current = todos.map((t) => (t.id === todo.id ? { ...t, completed } : t));
+    let parent = completed ? getParentToAutoComplete(current, todo.id) : undefined;
+    while (parent && (await updateTodo(parent, { completed: true, completedAt }))) {
+      const parentId = parent.id;
+      commands.push(updateCommand(parent, { completed: true, completedAt }));
+      current = current.map((t) =>
+        t.id === parentId ? { ...t, completed: true, completedAt } : t
+      );
+      parent = getParentToAutoComplete(current, parentId);
+    }
+    recordCommand(combineCommands(label, commands));
+  };
+
+  /**
+   * Handle deleting a task together with its subtasks
+   */
+  const handleDeleteTodo = async (todo: Todo): Promise<void> => {
+    const subtaskCount = getDescendantIds(todos, todo.id).length;
+    if (
+      subtaskCount > 0 &&
+      !window.confirm(
+        `Delete "${todo.task}" and its ${subtaskCount} ${
+          subtaskCount === 1 ? "subtask" : "subtasks"
+        }?`
+      )
+    ) {
+      return;
+    }
+    if (await removeTodo(todo)) {
+      recordCommand(deleteCommand(todos, todo.id));
+    }
+  };
+
+  /**
+   * Add a change to the undo history, offering to undo it at once if it was destructive
+   */
+  const recordCommand = (command: UndoCommand): void => {
+    history.record(command);
+    setToast(command.destructive ? command.label : null);
+  };
+
+  const dismissToast = useCallback((): void => setToast(null), []);
+
+  /**
+   * Undo or redo the latest change
+   */
+  const handleHistory = async (direction: "undo" | "redo"): Promise<void> => {
+    setToast(null);
     try {
-      const updatedTodo = await updateTodo(id, {
-        completed: !currentStatus,
-      });
-      setTodos(todos.map((todo) => (todo.id === id ? updatedTodo : todo)));
+      await (direction === "undo" ? history.undo() : history.redo());
     } catch (err) {
-      setError("Failed to update task. Please try again.");
+      setError(describeError(err, `${direction} that change`));
       console.error(err);
-    } finally {
-      setLoading(false);
     }
   };
+  const handleHistoryRef = useRef(handleHistory);
+  handleHistoryRef.current = handleHistory;
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo, except while typing,
+  // where the field's own text undo applies
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || (key !== "z" && key !== "y")) return;
+      const target = e.target as HTMLElement | null;
+      const typing =
+        !!target &&
+        (target.isContentEditable ||
+          target.tagName === "TEXTAREA" ||
+          target.tagName === "SELECT" ||
+          (target instanceof HTMLInputElement &&
+            !["checkbox", "radio", "button"].includes(target.type)));
+      if (typing) return;
+
+      e.preventDefault();
+      handleHistoryRef.current(key === "y" || e.shiftKey ? "redo" : "undo");
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
 
   /**
-   * Handle deleting a task
+   * Move or resize a schedule block, recording the edit for undo
    */
-  const handleDeleteTodo = async (id: string): Promise<void> => {
-    setLoading(true);
+  const recordScheduleChange = (change: ScheduleChange | null, label: string): void => {
+    if (!change) return;
+    const { restore } = scheduleEditor;
+    recordCommand({
+      label,
+      scope: scheduleScope,
+      undo: () => restore(change.before),
+      redo: () => restore(change.after),
+    });
+  };
+
+  /**
+   * Apply one batch to the selected tasks; only the ones that failed stay selected
+   * @param operations - Changes to send together
+   * @returns One result per operation
+   */
+  const runBatch = async (operations: TodoBatchOperation[]): Promise<TodoBatchResult[]> => {
+    if (operations.length === 0) return [];
+    setBatchBusy(true);
     setError(null);
-    try {
-      await deleteTodo(id);
-      setTodos(todos.filter((todo) => todo.id !== id));
-    } catch (err) {
-      setError("Failed to delete task. Please try again.");
-      console.error(err);
-    } finally {
-      setLoading(false);
+    const results = await applyBatch(operations);
+    setBatchBusy(false);
+
+    const failedIds = results.filter((result) => !result.ok).map((result) => result.id);
+    if (failedIds.length > 0) {
+      setError(`Couldn't update ${failedIds.length} of ${results.length} tasks.`);
+    }
+    selection.setSelection(failedIds.filter((id) => selection.selectedIds.has(id)));
+    return results;
+  };
+
+  /**
+   * Complete or reopen the selected tasks
+   * As with a single task, completed recurring tasks hand over to their next
+   * occurrence and parents whose subtasks are now all done are completed too.
+   */
+  const handleBatchComplete = async (completed: boolean): Promise<void> => {
+    const completedAt = completed ? new Date().toISOString() : null;
+    const targets = selectedTodos.filter((todo) => todo.completed !== completed);
+    const nextOccurrences = new Map<string, CreateTodoRequest>();
+    const operations: TodoBatchOperation[] = targets.map((todo) => {
+      const next = completed ? getNextRecurrence(todo) : null;
+      if (next) nextOccurrences.set(todo.id, next);
+      return {
+        type: "update",
+        id: todo.id,
+        changes: next ? { completed, completedAt, recurrence: null } : { completed, completedAt },
+      };
+    });
+
+    if (completed) {
+      const changedIds = new Set(operations.map((operation) => operation.id));
+      let current = todos.map((t) => (changedIds.has(t.id) ? { ...t, completed } : t));
+      targets.forEach((todo) => {
+        let parent = getParentToAutoComplete(current, todo.id);
+        while (parent && !changedIds.has(parent.id)) {
+          const parentId = parent.id;
+          changedIds.add(parentId);
+          operations.push({ type: "update", id: parentId, changes: { completed, completedAt } });
+          current = current.map((t) => (t.id === parentId ? { ...t, completed } : t));
+          parent = getParentToAutoComplete(current, parentId);
+        }
+      });
+    }
+
+    const results = await runBatch(operations);
+    const applied = operations.filter((_, index) => results[index]?.ok);
+    if (applied.length === 0) return;
+
+    const label = `${completed ? "Completed" : "Reopened"} ${countTasks(applied.length)}`;
+    const commands = [batchCommand(todos, applied, label)];
+    for (const { id } of applied) {
+      const next = nextOccurrences.get(id);
+      if (!next) continue;
+      try {
+        commands.push(createCommand(await addTodo(next)));
+      } catch (err) {
+        setError(describeError(err, "schedule the next occurrence of a task"));
+        console.error(err);
+      }
     }
+    recordCommand(combineCommands(label, commands));
+  };
+
+  /**
+   * Change the priority of the selected tasks
+   */
+  const handleBatchPriority = async (priority: Todo["priority"]): Promise<void> => {
+    const operations: TodoBatchOperation[] = selectedTodos
+      .filter((todo) => todo.priority !== priority)
+      .map((todo) => ({ type: "update", id: todo.id, changes: { priority } }));
+    const results = await runBatch(operations);
+    const applied = operations.filter((_, index) => results[index]?.ok);
+    if (applied.length > 0) {
+      recordCommand(
+        batchCommand(todos, applied, `Set ${countTasks(applied.length)} to ${priority} priority`)
+      );
+    }
+  };
+
+  /**
+   * Delete the selected tasks together with their subtasks
+   */
+  const handleBatchDelete = async (): Promise<void> => {
+    const nestedIds = new Set(selectedTodos.flatMap((todo) => getDescendantIds(todos, todo.id)));
+    // Subtasks go with their selected parent, so they need no operation of their own
+    const roots = selectedTodos.filter((todo) => !nestedIds.has(todo.id));
+    const extraCount = Array.from(nestedIds).filter((id) => !selection.selectedIds.has(id)).length;
+    const message =
+      `Delete ${selectedTodos.length} selected ${selectedTodos.length === 1 ? "task" : "tasks"}` +
+      (extraCount > 0 ? ` and ${extraCount} ${extraCount === 1 ? "subtask" : "subtasks"}?` : "?");
+    if (!window.confirm(message)) return;
+
+    const operations: TodoBatchOperation[] = roots.map((todo) => ({ type: "delete", id: todo.id }));
+    const results = await runBatch(operations);
+    const applied = operations.filter((_, index) => results[index]?.ok);
+    if (applied.length > 0) {
+      recordCommand(batchCommand(todos, applied, `Deleted ${countTasks(applied.length)}`));
+    }
+  };
+
+  /**
+   * Switch the schedule panel to another day
+   * A schedule still being generated belongs to the old day and is cancelled.
+   */
+  const handleScheduleDateChange = (date: string): void => {
+    scheduleRequestRef.current?.abort();
+    setScheduleNotice(null);
+    setScheduleDate(date);
+    setShowSchedule(true);
   };
 
   /**
-   * Handle generating AI schedule
+   * Download the selected day's schedule and open tasks as an .ics file
+   */
+  const handleExportSchedule = (): void => {
+    const ics = buildICalendar({ date: scheduleDate, items: schedule, todos });
+    const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `dayforge-${scheduleDate}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the file
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  /**
+   * Handle generating AI schedule for the selected day
    */
   const handleGenerateSchedule = async (): Promise<void> => {
     if (todos.length === 0) {
       setError("Please add some tasks before generating a schedule.");
       return;
     }
+    if (
+      scheduleEditor.edited &&
+      !window.confirm("Replace your edited schedule for this day with a new one?")
+    ) {
+      setShowSchedule(true);
+      return;
+    }
 
-    setLoading(true);
+    // Days off can still be planned on request, using the profile's usual hours
+    const date = fromDateKey(scheduleDate) ?? new Date();
+    let planHabits = habits;
+    if (activeHabits.dayOff) {
+      if (!window.confirm("This is a day off in your habits. Plan it anyway?")) {
+        return;
+      }
+      planHabits = resolveHabitsForDate(habitsState.settings, date, { ignoreDayOff: true }).habits;
+    }
+
+    // Show the local schedule straight away; the AI result replaces it when it arrives.
+    // Generating again cancels a request still in flight.
+    scheduleRequestRef.current?.abort();
+    const request = new AbortController();
+    scheduleRequestRef.current = request;
     setError(null);
+    // Plan around the day's meetings, waiting for them if they are still loading
+    const events = await calendar.waitForEvents();
+    const localSchedule = buildLocalSchedule(todos, planHabits, events);
+    // Edits to the schedule being replaced can no longer be undone
+    history.forget(scheduleScope);
+    scheduleEditor.replaceSchedule(localSchedule, isOnline ? "preview" : "local");
+    setScheduleNotice(
+      isOnline ? null : "You're offline, so this schedule was planned on your device."
+    );
+    setShowSchedule(true);
+    if (!isOnline) return;
+
     try {
-      const generatedSchedule = await generateSchedule(todos, habits);
-      setSchedule(generatedSchedule);
-      setShowSchedule(true);
+      const generatedSchedule = await generateSchedule(
+        todos,
+        planHabits,
+        date,
+        activeHabits.profile.name,
+        toBusyIntervals(events),
+        { signal: request.signal }
+      );
+      if (request.signal.aborted) return;
+      scheduleEditor.replaceSchedule(mergeEventsIntoSchedule(generatedSchedule, events), "ai");
     } catch (err) {
-      setError("Failed to generate schedule. Please try again.");
+      if (err instanceof CancelledError || request.signal.aborted) return;
+      scheduleEditor.replaceSchedule(localSchedule, "local");
+      setScheduleNotice(describeScheduleFallback(err));
+      if (localSchedule.length === 0) {
+        setError(describeError(err, "generate a schedule"));
+      }
       console.error(err);
-    } finally {
-      setLoading(false);
     }
   };
 
   /**
-   * Handle habit input changes
+   * Sign in again after the session expired, then sync what was queued meanwhile
    */
-  const handleHabitChange = (
-    field: keyof Habits,
-    value: string | number
-  ): void => {
-    setHabits((prev) => ({
-      ...prev,
-      [field]: value,
-    }));
+  const handleRenewSession = async (): Promise<void> => {
+    try {
+      await renewSession(apiRequest);
+      setSessionExpired(false);
+      await fetchTodos();
+    } catch (err) {
+      setError("Sign-in failed. Please try again.");
+      console.error(err);
+    }
   };
 
   /**
-   * Handle logout
+   * Make another account the active one
+   * Local data belongs to the previous account, so it is cleared and the page reloaded;
+   * that is refused while changes are still waiting to sync.
    */
-  const handleLogout = async (): Promise<void> => {
-    await instance.logoutPopup({
-      postLogoutRedirectUri: "/",
-      mainWindowRedirectUri: "/",
-    });
+  const activateAccount = async (account: AuthAccount): Promise<void> => {
+    await clearLocalData();
+    setActiveAccount(account);
+    window.location.reload();
+  };
+
+  const canLeaveAccount = async (): Promise<boolean> => {
+    if (await hasUnsyncedChanges()) {
+      setError("Some changes haven't synced yet. Let them sync before switching accounts.");
+      return false;
+    }
+    return true;
   };
 
-  const currentUser: AccountInfo | undefined = accounts[0];
+  const handleSwitchAccount = async (account: AuthAccount): Promise<void> => {
+    if (!(await canLeaveAccount())) return;
+    await activateAccount(account);
+  };
+
+  const handleAddAccount = async (): Promise<void> => {
+    if (!(await canLeaveAccount())) return;
+    try {
+      await activateAccount(await addAccount(loginRequest));
+    } catch (err) {
+      // Also reached when the user closes the account picker
+      console.error(err);
+    }
+  };
+
+  /**
+   * Handle logout, removing the account's data from this device
+   */
+  const handleLogout = async (): Promise<void> => {
+    if (
+      (await hasUnsyncedChanges()) &&
+      !window.confirm("Some changes haven't synced yet and will be lost. Log out anyway?")
+    ) {
+      return;
+    }
+    if (!activeAccount) return;
+    await clearLocalData();
+    await signOut(activeAccount);
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
@@ -189,28 +717,44 @@ const TodoAssistant: FC = () => {
             <h1 className="text-2xl font-bold text-gray-900">DayForge</h1>
           </div>
 
-          {currentUser && (
-            <div className="flex items-center gap-4">
-              <div className="text-right">
-                <p className="text-sm font-medium text-gray-900">
-                  {currentUser.name}
-                </p>
-                <p className="text-xs text-gray-500">{currentUser.username}</p>
-              </div>
-              <button
-                onClick={handleLogout}
-                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
-                aria-label="Logout"
-              >
-                Logout
-              </button>
-            </div>
+          {activeAccount && (
+            <AccountMenu
+              activeAccount={activeAccount}
+              accounts={accounts}
+              onSwitch={handleSwitchAccount}
+              onAddAccount={handleAddAccount}
+              onLogout={handleLogout}
+            />
           )}
         </div>
       </header>
 
       {/* Main Content */}
       <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Session Expired Notice */}
+        {sessionExpired && (
+          <div className="mb-4 p-4 flex flex-wrap items-center justify-between gap-3 bg-blue-50 border border-blue-200 rounded-lg text-blue-800 text-sm">
+            <span>
+              Your session has expired. Changes are kept on this device until you sign in again.
+            </span>
+            <button
+              onClick={handleRenewSession}
+              className="px-3 py-1 font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition"
+            >
+              Sign in again
+            </button>
+          </div>
+        )}
+
+        {/* Offline Notice */}
+        {(!isOnline || pendingIds.length > 0) && (
+          <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+            {isOnline
+              ? `Syncing ${pendingIds.length} offline ${pendingIds.length === 1 ? "change" : "changes"}...`
+              : "You're offline. Changes are saved on this device and will sync when you reconnect."}
+          </div>
+        )}
+
         {/* Error Alert */}
         {error && (
           <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
@@ -223,16 +767,47 @@ const TodoAssistant: FC = () => {
           <div className="lg:col-span-2 space-y-6">
             {/* Task Input Form */}
             <div className="bg-white rounded-lg shadow-md p-6">
-              <h2 className="text-xl font-bold text-gray-900 mb-4">
-                📝 Add a Task
-              </h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900">
+                  📝 Add a Task
+                </h2>
+                <button
+                  type="button"
+                  onClick={() => setShowImport(true)}
+                  className="flex items-center gap-1 px-2 py-1 text-sm text-blue-700 rounded hover:bg-blue-50"
+                  aria-label="Import tasks from a file"
+                >
+                  <ArrowUpTrayIcon className="w-4 h-4" aria-hidden="true" />
+                  Import
+                </button>
+              </div>
               <form onSubmit={handleAddTask} className="space-y-4">
+                {parentTodo && (
+                  <div className="flex items-center gap-2 text-sm text-blue-800">
+                    <span className="px-2 py-1 bg-blue-50 border border-blue-200 rounded-lg">
+                      Subtask of: <span className="font-semibold">{parentTodo.task}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setParentTodo(null)}
+                      className="p-1 text-gray-500 hover:text-gray-800 rounded"
+                      aria-label="Stop adding subtasks"
+                    >
+                      <XMarkIcon className="w-4 h-4" aria-hidden="true" />
+                    </button>
+                  </div>
+                )}
                 <div className="flex gap-2">
                   <input
+                    ref={taskInputRef}
                     type="text"
                     value={taskInput}
                     onChange={(e) => setTaskInput(e.target.value)}
-                    placeholder="What do you need to accomplish today?"
+                    placeholder={
+                      parentTodo
+                        ? "Add a step to this task"
+                        : "What do you need to accomplish today?"
+                    }
                     className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     disabled={loading}
                     aria-label="Task input"
@@ -257,109 +832,82 @@ const TodoAssistant: FC = () => {
                     Add
                   </button>
                 </div>
+                {quickAdd.tokens.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 text-xs" aria-live="polite">
+                    <span className="text-gray-500">
+                      {quickAdd.task ? `Adding “${quickAdd.task}”` : "Add a title for this task"}
+                    </span>
+                    {quickAdd.tokens.map((token, index) => (
+                      <span
+                        key={index}
+                        className={`px-2 py-1 rounded font-medium ${QUICK_ADD_CHIP_CLASSES[token.kind]}`}
+                        title={token.text}
+                      >
+                        {token.label}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Due
+                    <input
+                      type="datetime-local"
+                      value={dueInput}
+                      onChange={(e) => setDueInput(e.target.value)}
+                      className="px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      disabled={loading}
+                      aria-label="Due date"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Estimate
+                    <input
+                      type="number"
+                      min={1}
+                      step={5}
+                      value={estimateInput}
+                      onChange={(e) => setEstimateInput(e.target.value)}
+                      placeholder="min"
+                      className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      disabled={loading}
+                      aria-label="Estimated minutes"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Project
+                    <input
+                      type="text"
+                      list="project-options"
+                      value={projectInput}
+                      onChange={(e) => setProjectInput(e.target.value)}
+                      placeholder={parentTodo?.project ?? "None"}
+                      className="w-36 px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      disabled={loading}
+                      aria-label="Project"
+                    />
+                    <datalist id="project-options">
+                      {tagsAndProjects.projects.map((project) => (
+                        <option key={project} value={project} />
+                      ))}
+                    </datalist>
+                  </label>
+                </div>
+                <RecurrencePicker
+                  value={recurrenceInput}
+                  onChange={setRecurrenceInput}
+                  referenceDate={
+                    dueInput && !Number.isNaN(new Date(dueInput).getTime())
+                      ? new Date(dueInput)
+                      : new Date()
+                  }
+                  disabled={loading}
+                />
               </form>
             </div>
 
             {/* Habit Questionnaire - Collapsible */}
-            <Disclosure defaultOpen={false}>
-              {({ open }) => (
-                <div className="bg-white rounded-lg shadow-md overflow-hidden">
-                  <Disclosure.Button className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-50">
-                    <h2 className="text-xl font-bold text-gray-900">
-                      🎯 Your Habits
-                    </h2>
-                    <ChevronUpIcon
-                      className={`w-5 h-5 text-gray-600 transition ${
-                        open ? "rotate-180" : ""
-                      }`}
-                      aria-hidden="true"
-                    />
-                  </Disclosure.Button>
-
-                  <Disclosure.Panel className="px-6 py-4 border-t border-gray-200 space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Work Start Time
-                        </label>
-                        <input
-                          type="time"
-                          value={habits.workStartTime}
-                          onChange={(e) =>
-                            handleHabitChange("workStartTime", e.target.value)
-                          }
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          aria-label="Work start time"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Work End Time
-                        </label>
-                        <input
-                          type="time"
-                          value={habits.workEndTime}
-                          onChange={(e) =>
-                            handleHabitChange("workEndTime", e.target.value)
-                          }
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          aria-label="Work end time"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Break Duration (minutes)
-                        </label>
-                        <input
-                          type="number"
-                          value={habits.breakDuration}
-                          onChange={(e) =>
-                            handleHabitChange(
-                              "breakDuration",
-                              parseInt(e.target.value)
-                            )
-                          }
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          aria-label="Break duration"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Break Frequency (minutes)
-                        </label>
-                        <input
-                          type="number"
-                          value={habits.breakFrequency}
-                          onChange={(e) =>
-                            handleHabitChange(
-                              "breakFrequency",
-                              parseInt(e.target.value)
-                            )
-                          }
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          aria-label="Break frequency"
-                        />
-                      </div>
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Focus Area (e.g., Development, Design, Admin)
-                      </label>
-                      <input
-                        type="text"
-                        value={habits.focusArea}
-                        onChange={(e) =>
-                          handleHabitChange("focusArea", e.target.value)
-                        }
-                        placeholder="What's your main focus today?"
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        aria-label="Focus area"
-                      />
-                    </div>
-                  </Disclosure.Panel>
-                </div>
-              )}
-            </Disclosure>
+            <HabitsEditor {...habitsState} />
 
             {/* Task List */}
             <div className="bg-white rounded-lg shadow-md p-6">
@@ -376,68 +924,49 @@ const TodoAssistant: FC = () => {
                   <p>No tasks yet. Add one to get started!</p>
                 </div>
               ) : (
-                <div className="space-y-2">
-                  {todos.map((todo) => (
-                    <div
-                      key={todo.id}
-                      className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition group"
-                    >
-                      {/* Checkbox */}
-                      <button
-                        onClick={() =>
-                          handleToggleTodo(todo.id, todo.completed)
-                        }
-                        disabled={loading}
-                        className={`flex-shrink-0 w-6 h-6 rounded-full border-2 flex items-center justify-center transition ${
-                          todo.completed
-                            ? "bg-green-500 border-green-500"
-                            : "border-gray-300 hover:border-green-500"
-                        }`}
-                        aria-label={`Toggle task: ${todo.task}`}
-                        aria-pressed={todo.completed}
-                      >
-                        {todo.completed && (
-                          <CheckIcon className="w-4 h-4 text-white" aria-hidden="true" />
-                        )}
-                      </button>
-
-                      {/* Task Content */}
-                      <div className="flex-1 min-w-0">
-                        <p
-                          className={`text-gray-900 transition ${
-                            todo.completed
-                              ? "line-through text-gray-500"
-                              : ""
-                          }`}
-                        >
-                          {todo.task}
-                        </p>
-                        <span
-                          className={`inline-block mt-1 px-2 py-1 text-xs font-semibold rounded ${
-                            todo.priority === "High"
-                              ? "bg-red-100 text-red-800"
-                              : todo.priority === "Medium"
-                              ? "bg-yellow-100 text-yellow-800"
-                              : "bg-green-100 text-green-800"
-                          }`}
-                        >
-                          {todo.priority}
-                        </span>
-                      </div>
-
-                      {/* Delete Button */}
-                      <button
-                        onClick={() => handleDeleteTodo(todo.id)}
-                        disabled={loading}
-                        className="flex-shrink-0 opacity-0 group-hover:opacity-100 p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
-                        title="Delete task"
-                        aria-label={`Delete task: ${todo.task}`}
-                      >
-                        <TrashIcon className="w-5 h-5" aria-hidden="true" />
-                      </button>
+                <>
+                  <TodoFilterBar
+                    filters={filters}
+                    tags={tagsAndProjects.tags}
+                    projects={tagsAndProjects.projects}
+                    matchCount={visibleTree.matchCount}
+                    totalCount={todos.length}
+                    onChange={updateFilters}
+                    onClear={clearFilters}
+                  />
+                  {visibleTree.nodes.length === 0 ? (
+                    <div className="text-center text-gray-500 py-8">
+                      <p>No tasks match these filters.</p>
                     </div>
-                  ))}
-                </div>
+                  ) : (
+                    <>
+                      <TodoBulkActions
+                        selectedCount={selection.selectedIds.size}
+                        selectableCount={matchingIds.length}
+                        busy={batchBusy}
+                        onSelectAll={() => selection.setSelection(matchingIds)}
+                        onClear={selection.clear}
+                        onComplete={handleBatchComplete}
+                        onSetPriority={handleBatchPriority}
+                        onDelete={handleBatchDelete}
+                      />
+                      <TodoTree
+                        nodes={visibleTree.nodes}
+                        statuses={statuses}
+                        pendingIds={pendingIds}
+                        onToggle={handleToggleTodo}
+                        onDelete={handleDeleteTodo}
+                        onAddSubtask={handleAddSubtask}
+                        onDismissError={dismissError}
+                        onSelectTag={handleSelectTag}
+                        onSelectProject={(project) => updateFilters({ project })}
+                        onReorder={filters.sort === "manual" ? handleReorder : undefined}
+                        selectedIds={selection.selectedIds}
+                        onSelect={(todo, range) => selection.toggle(todo.id, range)}
+                      />
+                    </>
+                  )}
+                </>
               )}
 
               {/* Generate Schedule Button */}
@@ -451,40 +980,140 @@ const TodoAssistant: FC = () => {
                   🤖 Generate AI Schedule
                 </button>
               )}
+              {!showSchedule && (
+                <button
+                  onClick={() => setShowSchedule(true)}
+                  className="w-full mt-2 px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                  aria-label="Show schedule"
+                >
+                  📊 Show Schedule
+                </button>
+              )}
             </div>
           </div>
 
           {/* Right Column - Schedule Display */}
-          {showSchedule && schedule.length > 0 && (
+          {showSchedule && (
             <div className="lg:col-span-1">
               <div className="bg-white rounded-lg shadow-md p-6 sticky top-20">
                 <h2 className="text-xl font-bold text-gray-900 mb-4">
                   📊 Your Daily Schedule
                 </h2>
 
-                <div className="space-y-3 max-h-96 overflow-y-auto">
-                  {schedule.map((item, index) => (
-                    <div
-                      key={index}
-                      className="p-3 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-100 animate-fadeIn"
+                <DateNavigator
+                  date={scheduleDate}
+                  today={today}
+                  onChange={handleScheduleDateChange}
+                />
+                <p className="mb-3 text-xs text-gray-500">
+                  🎯 {activeHabits.profile.name}
+                  {activeHabits.dayOff ? " · Day off" : ""}
+                  {!activeHabits.dayOff && habits.workPeriods
+                    ? ` · ${habits.workPeriods.map((period) => `${period.start}–${period.end}`).join(", ")}`
+                    : ""}
+                  {calendar.status === "ready" &&
+                    ` · 📅 ${meetingCount} ${meetingCount === 1 ? "meeting" : "meetings"} from Outlook`}
+                  {calendar.status === "loading" && " · Checking your calendar..."}
+                  {calendar.status === "unavailable" && " · Calendar unavailable"}
+                  {calendar.status === "needsConsent" && (
+                    <>
+                      {" · "}
+                      <button
+                        type="button"
+                        onClick={calendar.connect}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Connect calendar
+                      </button>
+                    </>
+                  )}
+                </p>
+
+                {scheduleSource === "preview" && (
+                  <p className="mb-3 text-xs text-indigo-700 bg-indigo-50 rounded px-2 py-1" aria-live="polite">
+                    ⏳ Quick preview — the AI is refining your schedule...
+                  </p>
+                )}
+                {scheduleSource === "local" && scheduleNotice && !scheduleEditor.edited && (
+                  <p className="mb-3 text-xs text-amber-800 bg-amber-50 rounded px-2 py-1" aria-live="polite">
+                    {scheduleNotice}
+                  </p>
+                )}
+                {schedule.length === 0 && (
+                  <p className="py-6 text-center text-sm text-gray-500">
+                    No schedule for this day yet. Generate one to plan it.
+                  </p>
+                )}
+                {schedule.length === 0 && meetingCount > 0 && (
+                  <ScheduleTimeline
+                    key={`${scheduleDate}-events`}
+                    items={toEventItems(calendar.events)}
+                    workStartTime={habits.workStartTime}
+                    workEndTime={habits.workEndTime}
+                    workPeriods={habits.workPeriods}
+                    showNowLine={scheduleDate === today}
+                  />
+                )}
+                {schedule.length > 0 && scheduleSource !== "preview" && (
+                  <div className="flex items-center justify-between gap-2 mb-3 text-xs">
+                    <span className={scheduleEditor.edited ? "text-blue-800" : "text-gray-500"}>
+                      {scheduleEditor.edited
+                        ? "✏️ Your edited schedule for this day"
+                        : "Drag blocks to move them or their bottom edge to resize."}
+                    </span>
+                    <button
+                      onClick={() => handleHistory("undo")}
+                      disabled={history.nextUndo?.scope !== scheduleScope}
+                      className="flex items-center gap-1 px-2 py-1 text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                      aria-label="Undo schedule change"
                     >
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="font-bold text-blue-900">
-                          {item.time}
-                        </span>
-                        <span className="text-xs text-blue-700">
-                          {item.duration}
-                        </span>
-                      </div>
-                      <p className="text-sm text-gray-800 mb-2">{item.task}</p>
-                      {item.breakDuration && (
-                        <div className="text-xs text-gray-600 bg-white rounded px-2 py-1">
-                          ☕ Break: {item.breakDuration}
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
+                      <ArrowUturnLeftIcon className="w-3 h-3" aria-hidden="true" />
+                      Undo
+                    </button>
+                  </div>
+                )}
+
+                {schedule.length > 0 && (
+                  <ScheduleTimeline
+                    key={scheduleDate}
+                    items={schedule}
+                    workStartTime={habits.workStartTime}
+                    workEndTime={habits.workEndTime}
+                    workPeriods={habits.workPeriods}
+                    showNowLine={scheduleDate === today}
+                    onMoveItem={
+                      scheduleSource !== "preview"
+                        ? (index, start) =>
+                            recordScheduleChange(
+                              scheduleEditor.moveItem(index, start),
+                              `Moved "${schedule[index]?.task}" in the schedule`
+                            )
+                        : undefined
+                    }
+                    onResizeItem={
+                      scheduleSource !== "preview"
+                        ? (index, minutes) =>
+                            recordScheduleChange(
+                              scheduleEditor.resizeItem(index, minutes),
+                              `Resized "${schedule[index]?.task}" in the schedule`
+                            )
+                        : undefined
+                    }
+                  />
+                )}
+
+                {planReview && scheduleSource !== "preview" && <PlanVsActual review={planReview} />}
+
+                {schedule.length > 0 && scheduleSource !== "preview" && (
+                  <button
+                    onClick={handleExportSchedule}
+                    className="w-full mt-4 flex items-center justify-center gap-2 px-4 py-2 text-sm text-blue-700 border border-blue-300 rounded-lg hover:bg-blue-50 transition"
+                    aria-label="Download schedule and open tasks as an iCalendar file"
+                  >
+                    <ArrowDownTrayIcon className="w-4 h-4" aria-hidden="true" />
+                    Export to Calendar (.ics)
+                  </button>
+                )}
 
                 <button
                   onClick={() => setShowSchedule(false)}
@@ -499,6 +1128,20 @@ const TodoAssistant: FC = () => {
         </div>
       </main>
 
+      <ImportDialog
+        open={showImport}
+        existingTodos={todos}
+        onClose={() => setShowImport(false)}
+      />
+
+      {toast && (
+        <UndoToast
+          message={toast}
+          onUndo={() => handleHistory("undo")}
+          onDismiss={dismissToast}
+        />
+      )}
+
       {/* Loading Overlay */}
       {loading && (
         <div className="fixed inset-0 bg-black bg-opacity-10 flex items-center justify-center z-50">
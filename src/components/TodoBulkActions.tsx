@@ -0,0 +1,120 @@
+/**
+ * TodoBulkActions Component
+ *
+ * Toolbar for acting on several tasks at once:
+ * - A select-all checkbox covering every task that matches the filters
+ * - Once tasks are selected: complete, reopen, change priority or delete them
+ *   in a single batch
+ */
+
+import React, { FC, useEffect, useRef } from "react";
+import { CheckIcon, ArrowUturnLeftIcon, TrashIcon } from "@heroicons/react/20/solid";
+import type { Todo } from "../types";
+
+interface TodoBulkActionsProps {
+  selectedCount: number;
+  selectableCount: number;
+  busy: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onComplete: (completed: boolean) => void;
+  onSetPriority: (priority: Todo["priority"]) => void;
+  onDelete: () => void;
+}
+
+const actionClassName =
+  "flex items-center gap-1 px-2 py-1 text-sm font-medium rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed";
+
+const TodoBulkActions: FC<TodoBulkActionsProps> = ({
+  selectedCount,
+  selectableCount,
+  busy,
+  onSelectAll,
+  onClear,
+  onComplete,
+  onSetPriority,
+  onDelete,
+}) => {
+  const checkboxRef = useRef<HTMLInputElement>(null);
+  const allSelected = selectableCount > 0 && selectedCount >= selectableCount;
+
+  // "Some selected" has no HTML attribute, only a DOM property
+  useEffect(() => {
+    if (checkboxRef.current) {
+      checkboxRef.current.indeterminate = selectedCount > 0 && !allSelected;
+    }
+  }, [selectedCount, allSelected]);
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-2 mb-2 px-3 py-2 rounded-lg ${
+        selectedCount > 0 ? "bg-blue-50 border border-blue-200" : ""
+      }`}
+    >
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          ref={checkboxRef}
+          type="checkbox"
+          checked={allSelected}
+          onChange={() => (selectedCount > 0 ? onClear() : onSelectAll())}
+          disabled={busy || selectableCount === 0}
+          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          aria-label={selectedCount > 0 ? "Clear selection" : "Select all matching tasks"}
+        />
+        {selectedCount > 0 ? `${selectedCount} selected` : "Select all"}
+      </label>
+
+      {selectedCount > 0 && (
+        <div className="flex flex-wrap items-center gap-1 ml-auto" aria-busy={busy}>
+          {!allSelected && (
+            <button
+              onClick={onSelectAll}
+              disabled={busy}
+              className={`${actionClassName} text-blue-700 hover:bg-blue-100`}
+            >
+              Select all {selectableCount}
+            </button>
+          )}
+          <button
+            onClick={() => onComplete(true)}
+            disabled={busy}
+            className={`${actionClassName} text-green-700 hover:bg-green-100`}
+          >
+            <CheckIcon className="w-4 h-4" aria-hidden="true" />
+            Complete
+          </button>
+          <button
+            onClick={() => onComplete(false)}
+            disabled={busy}
+            className={`${actionClassName} text-gray-700 hover:bg-gray-200`}
+          >
+            <ArrowUturnLeftIcon className="w-4 h-4" aria-hidden="true" />
+            Reopen
+          </button>
+          <select
+            value=""
+            onChange={(e) => e.target.value && onSetPriority(e.target.value as Todo["priority"])}
+            disabled={busy}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Set priority of selected tasks"
+          >
+            <option value="">Set priority</option>
+            <option value="High">High</option>
+            <option value="Medium">Medium</option>
+            <option value="Low">Low</option>
+          </select>
+          <button
+            onClick={onDelete}
+            disabled={busy}
+            className={`${actionClassName} text-red-700 hover:bg-red-100`}
+          >
+            <TrashIcon className="w-4 h-4" aria-hidden="true" />
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TodoBulkActions;
@@ -0,0 +1,172 @@
+/**
+ * TodoFilterBar Component
+ *
+ * Controls for narrowing and ordering the task list:
+ * - Full-text search over task text
+ * - Completion, priority and project selects, and toggleable tag chips
+ * - Sort order (manual, created, priority, due date)
+ * - A count of matching tasks and a button to clear the filters
+ */
+
+import React, { FC } from "react";
+import { MagnifyingGlassIcon, XMarkIcon } from "@heroicons/react/20/solid";
+import { hasActiveFilters } from "../utils/todoFilters";
+import type { Todo, TodoFilters, TodoSort } from "../types";
+
+interface TodoFilterBarProps {
+  filters: TodoFilters;
+  tags: string[];
+  projects: string[];
+  matchCount: number;
+  totalCount: number;
+  onChange: (update: Partial<TodoFilters>) => void;
+  onClear: () => void;
+}
+
+const SORT_LABELS: Record<TodoSort, string> = {
+  manual: "My order",
+  created: "Oldest first",
+  priority: "Priority",
+  due: "Due date",
+};
+
+const selectClassName =
+  "px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const TodoFilterBar: FC<TodoFilterBarProps> = ({
+  filters,
+  tags,
+  projects,
+  matchCount,
+  totalCount,
+  onChange,
+  onClear,
+}) => {
+  const active = hasActiveFilters(filters);
+
+  const handleToggleTag = (tag: string): void => {
+    onChange({
+      tags: filters.tags.includes(tag)
+        ? filters.tags.filter((selected) => selected !== tag)
+        : [...filters.tags, tag],
+    });
+  };
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="relative">
+        <MagnifyingGlassIcon
+          className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400"
+          aria-hidden="true"
+        />
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => onChange({ query: e.target.value })}
+          placeholder="Search tasks"
+          className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Search tasks"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filters.status}
+          onChange={(e) => onChange({ status: e.target.value as TodoFilters["status"] })}
+          className={selectClassName}
+          aria-label="Filter by completion"
+        >
+          <option value="all">All tasks</option>
+          <option value="open">Open</option>
+          <option value="done">Done</option>
+        </select>
+        <select
+          value={filters.priority ?? ""}
+          onChange={(e) =>
+            onChange({ priority: (e.target.value || null) as Todo["priority"] | null })
+          }
+          className={selectClassName}
+          aria-label="Filter by priority"
+        >
+          <option value="">Any priority</option>
+          <option value="High">High</option>
+          <option value="Medium">Medium</option>
+          <option value="Low">Low</option>
+        </select>
+        {(projects.length > 0 || filters.project) && (
+          <select
+            value={filters.project ?? ""}
+            onChange={(e) => onChange({ project: e.target.value || null })}
+            className={selectClassName}
+            aria-label="Filter by project"
+          >
+            <option value="">All projects</option>
+            {/* Keep a project from the URL selectable even if no task uses it any more */}
+            {filters.project && !projects.includes(filters.project) && (
+              <option value={filters.project}>{filters.project}</option>
+            )}
+            {projects.map((project) => (
+              <option key={project} value={project}>
+                {project}
+              </option>
+            ))}
+          </select>
+        )}
+        <label className="ml-auto flex items-center gap-1 text-sm text-gray-600">
+          Sort
+          <select
+            value={filters.sort}
+            onChange={(e) => onChange({ sort: e.target.value as TodoSort })}
+            className={selectClassName}
+            aria-label="Sort tasks"
+          >
+            {(Object.keys(SORT_LABELS) as TodoSort[]).map((sort) => (
+              <option key={sort} value={sort}>
+                {SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Filter by tag">
+          {tags.map((tag) => {
+            const selected = filters.tags.includes(tag);
+            return (
+              <button
+                key={tag}
+                onClick={() => handleToggleTag(tag)}
+                className={`px-2 py-0.5 text-xs font-medium rounded-full border transition ${
+                  selected
+                    ? "bg-sky-600 border-sky-600 text-white"
+                    : "bg-white border-sky-200 text-sky-800 hover:bg-sky-50"
+                }`}
+                aria-pressed={selected}
+              >
+                #{tag}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {active && (
+        <div className="flex items-center justify-between text-xs text-gray-600" aria-live="polite">
+          <span>
+            Showing {matchCount} of {totalCount} {totalCount === 1 ? "task" : "tasks"}
+          </span>
+          <button
+            onClick={onClear}
+            className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-100"
+          >
+            <XMarkIcon className="w-3 h-3" aria-hidden="true" />
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TodoFilterBar;
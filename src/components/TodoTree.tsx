@@ -0,0 +1,420 @@
+/**
+ * TodoTree Component
+ *
+ * Renders the task list as a collapsible tree:
+ * - Parent tasks show how many of their subtasks are done
+ * - Due date (overdue / due today), estimate, recurrence, project and tag badges;
+ *   clicking a tag or project filters the list by it
+ * - In a filtered list, parents shown only for context are dimmed
+ * - Subtasks are indented below their parent and can be collapsed
+ * - When the list is in manual order, tasks can be dragged (or moved with the
+ *   arrow keys on their handle) to a new place among their siblings
+ * - Each task carries its own sync and error indicators
+ * - Tasks can be selected for batch actions (shift-click selects a range)
+ */
+
+import React, { FC, useRef, useState } from "react";
+import {
+  TrashIcon,
+  CheckIcon,
+  ChevronRightIcon,
+  PlusIcon,
+  Bars2Icon,
+} from "@heroicons/react/20/solid";
+import type { Todo, TodoMutationStatus } from "../types";
+import type { TodoNode } from "../utils/todoTree";
+import { getDueStatus, formatDueDate, formatMinutes } from "../utils/dates";
+import { tryParseRRule, describeRRule } from "../utils/recurrence";
+
+interface TodoTreeProps {
+  nodes: TodoNode[];
+  statuses: Record<string, TodoMutationStatus>;
+  pendingIds: string[];
+  onToggle: (todo: Todo) => void;
+  onDelete: (todo: Todo) => void;
+  onAddSubtask: (todo: Todo) => void;
+  onDismissError: (id: string) => void;
+  onSelectTag?: (tag: string) => void;
+  onSelectProject?: (project: string) => void;
+  onReorder?: (todo: Todo, siblings: Todo[], toIndex: number) => void;
+  selectedIds?: Set<string>;
+  onSelect?: (todo: Todo, range: boolean) => void;
+}
+
+interface DropTarget {
+  id: string;
+  after: boolean;
+}
+
+interface TodoTreeItemProps extends Omit<TodoTreeProps, "nodes"> {
+  node: TodoNode;
+  depth: number;
+  siblings: Todo[];
+  collapsed: Set<string>;
+  onToggleCollapsed: (id: string) => void;
+  draggingId: string | null;
+  dropTarget: DropTarget | null;
+  onDragChange: (draggingId: string | null, dropTarget: DropTarget | null) => void;
+}
+
+const TodoTreeItem: FC<TodoTreeItemProps> = ({
+  node,
+  depth,
+  siblings,
+  collapsed,
+  onToggleCollapsed,
+  draggingId,
+  dropTarget,
+  onDragChange,
+  ...props
+}) => {
+  const {
+    statuses,
+    pendingIds,
+    onToggle,
+    onDelete,
+    onAddSubtask,
+    onDismissError,
+    onSelectTag,
+    onSelectProject,
+    onReorder,
+    selectedIds,
+    onSelect,
+  } = props;
+  const rowRef = useRef<HTMLDivElement>(null);
+  const { todo, children } = node;
+  const status = statuses[todo.id];
+  const isPending = status?.state === "pending";
+  const isCollapsed = collapsed.has(todo.id);
+  const isSelected = selectedIds?.has(todo.id) ?? false;
+  const { done: doneCount, total: childCount } = node.rollup ?? {
+    done: children.filter((child) => child.todo.completed).length,
+    total: children.length,
+  };
+  const dueStatus = todo.completed ? null : getDueStatus(todo.dueAt);
+  const recurrence = tryParseRRule(todo.recurrence);
+  const index = siblings.findIndex((sibling) => sibling.id === todo.id);
+  // Only siblings can be dropped onto each other
+  const canDropHere =
+    draggingId !== null &&
+    draggingId !== todo.id &&
+    siblings.some((sibling) => sibling.id === draggingId);
+  const showDropLine = (after: boolean): boolean =>
+    canDropHere && dropTarget?.id === todo.id && dropTarget.after === after;
+  const dropLine = (
+    <div
+      className="h-0.5 my-1 bg-blue-500 rounded"
+      style={{ marginLeft: `${depth * 1.5}rem` }}
+      aria-hidden="true"
+    />
+  );
+
+  const handleDragStart = (e: React.DragEvent<HTMLButtonElement>): void => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", todo.id);
+    if (rowRef.current) {
+      e.dataTransfer.setDragImage(rowRef.current, 16, 16);
+    }
+    onDragChange(todo.id, null);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>): void => {
+    if (!canDropHere) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    const rect = e.currentTarget.getBoundingClientRect();
+    const after = e.clientY > rect.top + rect.height / 2;
+    if (dropTarget?.id !== todo.id || dropTarget.after !== after) {
+      onDragChange(draggingId, { id: todo.id, after });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>): void => {
+    if (!canDropHere) return;
+    e.preventDefault();
+    const fromIndex = siblings.findIndex((sibling) => sibling.id === draggingId);
+    const after = dropTarget?.id === todo.id ? dropTarget.after : false;
+    // The target index counts siblings without the dragged todo
+    let toIndex = index + (after ? 1 : 0);
+    if (fromIndex < toIndex) toIndex -= 1;
+    onReorder?.(siblings[fromIndex], siblings, toIndex);
+    onDragChange(null, null);
+  };
+
+  const handleHandleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>): void => {
+    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+    e.preventDefault();
+    const toIndex = index + (e.key === "ArrowUp" ? -1 : 1);
+    if (toIndex >= 0 && toIndex < siblings.length) {
+      onReorder?.(todo, siblings, toIndex);
+    }
+  };
+
+  return (
+    <li>
+      {showDropLine(false) && dropLine}
+      <div
+        ref={rowRef}
+        onDragOver={onReorder ? handleDragOver : undefined}
+        onDrop={onReorder ? handleDrop : undefined}
+        className={`flex items-center gap-3 p-4 rounded-lg transition group ${
+          status?.state === "failed"
+            ? "bg-red-50 border border-red-200"
+            : isSelected
+            ? "bg-blue-50 ring-1 ring-blue-300"
+            : "bg-gray-50 hover:bg-gray-100"
+        } ${isPending || node.context || draggingId === todo.id ? "opacity-70" : ""}`}
+        style={{ marginLeft: `${depth * 1.5}rem` }}
+        aria-busy={isPending}
+      >
+        {/* Selection */}
+        {onSelect && (
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={(e) => onSelect(todo, (e.nativeEvent as MouseEvent).shiftKey === true)}
+            className="flex-shrink-0 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            aria-label={`Select task: ${todo.task}`}
+          />
+        )}
+
+        {/* Drag Handle */}
+        {onReorder && (
+          <button
+            draggable={!isPending}
+            onDragStart={handleDragStart}
+            onDragEnd={() => onDragChange(null, null)}
+            onKeyDown={handleHandleKeyDown}
+            disabled={isPending}
+            className="flex-shrink-0 -ml-2 p-1 text-gray-400 hover:text-gray-700 rounded cursor-grab active:cursor-grabbing"
+            title="Drag to reorder"
+            aria-label={`Reorder task: ${todo.task}. Use the up and down arrow keys to move it.`}
+          >
+            <Bars2Icon className="w-4 h-4" aria-hidden="true" />
+          </button>
+        )}
+
+        {/* Expand/Collapse */}
+        {children.length > 0 ? (
+          <button
+            onClick={() => onToggleCollapsed(todo.id)}
+            className="flex-shrink-0 -ml-2 p-1 text-gray-500 hover:text-gray-800 rounded"
+            aria-expanded={!isCollapsed}
+            aria-label={`${isCollapsed ? "Expand" : "Collapse"} subtasks of: ${todo.task}`}
+          >
+            <ChevronRightIcon
+              className={`w-4 h-4 transition ${isCollapsed ? "" : "rotate-90"}`}
+              aria-hidden="true"
+            />
+          </button>
+        ) : (
+          <span className="flex-shrink-0 w-4 -ml-2 mr-2" aria-hidden="true" />
+        )}
+
+        {/* Checkbox */}
+        <button
+          onClick={() => onToggle(todo)}
+          disabled={isPending}
+          className={`flex-shrink-0 w-6 h-6 rounded-full border-2 flex items-center justify-center transition ${
+            todo.completed
+              ? "bg-green-500 border-green-500"
+              : "border-gray-300 hover:border-green-500"
+          }`}
+          aria-label={`Toggle task: ${todo.task}`}
+          aria-pressed={todo.completed}
+        >
+          {todo.completed && (
+            <CheckIcon className="w-4 h-4 text-white" aria-hidden="true" />
+          )}
+        </button>
+
+        {/* Task Content */}
+        <div className="flex-1 min-w-0">
+          <p
+            className={`text-gray-900 transition ${
+              todo.completed ? "line-through text-gray-500" : ""
+            }`}
+          >
+            {todo.task}
+          </p>
+          <span
+            className={`inline-block mt-1 px-2 py-1 text-xs font-semibold rounded ${
+              todo.priority === "High"
+                ? "bg-red-100 text-red-800"
+                : todo.priority === "Medium"
+                ? "bg-yellow-100 text-yellow-800"
+                : "bg-green-100 text-green-800"
+            }`}
+          >
+            {todo.priority}
+          </span>
+          {todo.dueAt && (
+            <span
+              className={`inline-block mt-1 ml-2 px-2 py-1 text-xs font-medium rounded ${
+                dueStatus === "overdue"
+                  ? "bg-red-600 text-white"
+                  : dueStatus === "today"
+                  ? "bg-orange-100 text-orange-800"
+                  : "bg-gray-100 text-gray-700"
+              }`}
+              title={new Date(todo.dueAt).toLocaleString()}
+            >
+              {dueStatus === "overdue"
+                ? "Overdue"
+                : dueStatus === "today"
+                ? "Due today"
+                : "Due"}{" "}
+              · {formatDueDate(todo.dueAt)}
+            </span>
+          )}
+          {todo.estimatedMinutes ? (
+            <span
+              className="inline-block mt-1 ml-2 px-2 py-1 text-xs font-medium rounded bg-purple-100 text-purple-800"
+              aria-label={`Estimated ${formatMinutes(todo.estimatedMinutes)}`}
+            >
+              ⏱ {formatMinutes(todo.estimatedMinutes)}
+            </span>
+          ) : null}
+          {recurrence && (
+            <span
+              className="inline-block mt-1 ml-2 px-2 py-1 text-xs font-medium rounded bg-teal-100 text-teal-800"
+              title={todo.recurrence ?? undefined}
+            >
+              🔁 {describeRRule(recurrence)}
+            </span>
+          )}
+          {todo.project && (
+            <button
+              onClick={() => onSelectProject?.(todo.project as string)}
+              className="inline-block mt-1 ml-2 px-2 py-1 text-xs font-medium rounded bg-indigo-100 text-indigo-800 hover:bg-indigo-200"
+              aria-label={`Show tasks in project ${todo.project}`}
+            >
+              📁 {todo.project}
+            </button>
+          )}
+          {(todo.tags ?? []).map((tag) => (
+            <button
+              key={tag}
+              onClick={() => onSelectTag?.(tag)}
+              className="inline-block mt-1 ml-2 px-2 py-1 text-xs font-medium rounded bg-sky-100 text-sky-800 hover:bg-sky-200"
+              aria-label={`Show tasks tagged ${tag}`}
+            >
+              #{tag}
+            </button>
+          ))}
+          {childCount > 0 && (
+            <span
+              className="inline-block mt-1 ml-2 px-2 py-1 text-xs font-medium rounded bg-blue-100 text-blue-800"
+              aria-label={`${doneCount} of ${childCount} subtasks done`}
+            >
+              {doneCount}/{childCount}
+            </span>
+          )}
+          {pendingIds.includes(todo.id) && (
+            <span className="inline-block mt-1 ml-2 px-2 py-1 text-xs font-medium rounded bg-gray-200 text-gray-600">
+              Not synced
+            </span>
+          )}
+          {status?.state === "failed" && (
+            <p className="mt-1 text-xs text-red-700" role="alert">
+              {status.error}{" "}
+              <button
+                onClick={() => onDismissError(todo.id)}
+                className="underline hover:text-red-900"
+                aria-label={`Dismiss error for task: ${todo.task}`}
+              >
+                Dismiss
+              </button>
+            </p>
+          )}
+        </div>
+
+        {/* Add Subtask Button */}
+        <button
+          onClick={() => onAddSubtask(todo)}
+          disabled={isPending}
+          className="flex-shrink-0 opacity-0 group-hover:opacity-100 p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+          title="Add subtask"
+          aria-label={`Add subtask to: ${todo.task}`}
+        >
+          <PlusIcon className="w-5 h-5" aria-hidden="true" />
+        </button>
+
+        {/* Delete Button */}
+        <button
+          onClick={() => onDelete(todo)}
+          disabled={isPending}
+          className="flex-shrink-0 opacity-0 group-hover:opacity-100 p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+          title="Delete task"
+          aria-label={`Delete task: ${todo.task}`}
+        >
+          <TrashIcon className="w-5 h-5" aria-hidden="true" />
+        </button>
+      </div>
+      {showDropLine(true) && dropLine}
+
+      {children.length > 0 && !isCollapsed && (
+        <ul className="space-y-2 mt-2">
+          {children.map((child) => (
+            <TodoTreeItem
+              key={child.todo.id}
+              node={child}
+              depth={depth + 1}
+              siblings={children.map((sibling) => sibling.todo)}
+              collapsed={collapsed}
+              onToggleCollapsed={onToggleCollapsed}
+              draggingId={draggingId}
+              dropTarget={dropTarget}
+              onDragChange={onDragChange}
+              {...props}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+const TodoTree: FC<TodoTreeProps> = ({ nodes, ...props }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [drag, setDrag] = useState<{ id: string | null; target: DropTarget | null }>({
+    id: null,
+    target: null,
+  });
+
+  const handleToggleCollapsed = (id: string): void => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleDragChange = (id: string | null, target: DropTarget | null): void =>
+    setDrag({ id, target });
+
+  return (
+    <ul className="space-y-2">
+      {nodes.map((node) => (
+        <TodoTreeItem
+          key={node.todo.id}
+          node={node}
+          depth={0}
+          siblings={nodes.map((sibling) => sibling.todo)}
+          collapsed={collapsed}
+          onToggleCollapsed={handleToggleCollapsed}
+          draggingId={drag.id}
+          dropTarget={drag.target}
+          onDragChange={handleDragChange}
+          {...props}
+        />
+      ))}
+    </ul>
+  );
+};
+
+export default TodoTree;
@@ -0,0 +1,52 @@
+/**
+ * UndoToast Component
+ *
+ * Short-lived notice shown after a destructive change (such as a deletion),
+ * with a button to undo it. It dismisses itself after a few seconds.
+ */
+
+import React, { FC, useEffect } from "react";
+import { ArrowUturnLeftIcon, XMarkIcon } from "@heroicons/react/20/solid";
+
+const TOAST_DURATION_MS = 8000;
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const UndoToast: FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  // Restart the timer whenever a new message replaces the current one
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-3 bg-gray-900 text-white text-sm rounded-lg shadow-lg"
+      role="status"
+      aria-live="polite"
+    >
+      <span className="max-w-xs truncate">{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1 px-2 py-1 font-semibold text-blue-300 hover:text-blue-200 rounded"
+        title="Undo (Ctrl+Z)"
+      >
+        <ArrowUturnLeftIcon className="w-4 h-4" aria-hidden="true" />
+        Undo
+      </button>
+      <button
+        onClick={onDismiss}
+        className="p-1 text-gray-400 hover:text-white rounded"
+        aria-label="Dismiss"
+      >
+        <XMarkIcon className="w-4 h-4" aria-hidden="true" />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
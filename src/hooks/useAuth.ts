@@ -0,0 +1,48 @@
+/**
+ * useAuth Hook
+ *
+ * Exposes the auth service's accounts to React:
+ * - The signed-in accounts and the active one, re-read whenever they change
+ * - Which identity provider the app signs in with
+ */
+
+import { useState, useEffect } from "react";
+import {
+  getAccounts,
+  getActiveAccount,
+  getAuthProviderInfo,
+  subscribeToAccounts,
+} from "../services/auth";
+import type { AuthAccount, AuthProviderKind } from "../types";
+
+export interface AuthState {
+  accounts: AuthAccount[];
+  activeAccount: AuthAccount | null;
+  isAuthenticated: boolean;
+  providerKind: AuthProviderKind;
+  providerName: string;
+}
+
+const readAuthState = (): AuthState => {
+  const { kind, displayName } = getAuthProviderInfo();
+  const activeAccount = getActiveAccount();
+  return {
+    accounts: getAccounts(),
+    activeAccount,
+    isAuthenticated: activeAccount !== null,
+    providerKind: kind,
+    providerName: displayName,
+  };
+};
+
+export const useAuth = (): AuthState => {
+  const [state, setState] = useState<AuthState>(readAuthState);
+
+  useEffect(() => {
+    // Catch up with changes made between the first render and subscribing
+    setState(readAuthState());
+    return subscribeToAccounts(() => setState(readAuthState()));
+  }, []);
+
+  return state;
+};
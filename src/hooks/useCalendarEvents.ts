@@ -0,0 +1,98 @@
+/**
+ * useCalendarEvents Hook
+ *
+ * The signed-in user's Outlook meetings for the selected day:
+ * - Fetched from Microsoft Graph whenever the day changes
+ * - Marked unavailable (and left empty) when offline or when Graph fails, so
+ *   scheduling carries on without them
+ * - Fetched silently only; without consent the status asks the user to connect
+ *   the calendar, which opens the sign-in window from their click
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { connectCalendar, getCalendarEvents } from "../services/graphClient";
+import { InteractionRequiredError } from "../services/auth";
+import { fromDateKey } from "../utils/dates";
+import type { CalendarEvent, CalendarStatus } from "../types";
+
+export interface CalendarEventsState {
+  events: CalendarEvent[];
+  status: CalendarStatus;
+  refresh: () => Promise<CalendarEvent[]>;
+  waitForEvents: () => Promise<CalendarEvent[]>;
+  connect: () => Promise<void>;
+}
+
+/**
+ * @param date - Day key (YYYY-MM-DD)
+ */
+export const useCalendarEvents = (date: string): CalendarEventsState => {
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [status, setStatus] = useState<CalendarStatus>("idle");
+  // Ignores responses for a day that is no longer selected
+  const requestRef = useRef<number>(0);
+  const latestFetchRef = useRef<Promise<CalendarEvent[]> | null>(null);
+
+  /**
+   * Fetch the day's events again
+   * @returns The events, or an empty list if the calendar is unavailable
+   */
+  const refresh = useCallback((): Promise<CalendarEvent[]> => {
+    const requestId = ++requestRef.current;
+    const fetchEvents = async (): Promise<CalendarEvent[]> => {
+      const day = fromDateKey(date);
+      if (!day || !navigator.onLine) {
+        setEvents([]);
+        setStatus("unavailable");
+        return [];
+      }
+
+      setStatus("loading");
+      try {
+        const fetched = await getCalendarEvents(day);
+        if (requestId === requestRef.current) {
+          setEvents(fetched);
+          setStatus("ready");
+        }
+        return fetched;
+      } catch (err) {
+        if (requestId === requestRef.current) {
+          setEvents([]);
+          setStatus(err instanceof InteractionRequiredError ? "needsConsent" : "unavailable");
+        }
+        return [];
+      }
+    };
+    latestFetchRef.current = fetchEvents();
+    return latestFetchRef.current;
+  }, [date]);
+
+  /**
+   * The events of the latest fetch, waiting for it rather than fetching again
+   * @returns The events, or an empty list if the calendar is unavailable
+   */
+  const waitForEvents = useCallback(
+    (): Promise<CalendarEvent[]> => latestFetchRef.current ?? Promise.resolve([]),
+    []
+  );
+
+  /**
+   * Ask the user for calendar access, then fetch the day's events
+   */
+  const connect = useCallback(async (): Promise<void> => {
+    try {
+      await connectCalendar();
+    } catch (err) {
+      console.error("Error connecting the calendar:", err);
+      setStatus("unavailable");
+      return;
+    }
+    await refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { events, status, refresh, waitForEvents, connect };
+};
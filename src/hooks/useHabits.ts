@@ -0,0 +1,282 @@
+/**
+ * useHabits Hook
+ *
+ * The user's habit profiles and weekday overrides, for the questionnaire and the scheduler:
+ * - Starts from the local cache (or defaults), then loads the saved settings
+ * - Validates every edit; only valid habits are used for scheduling
+ * - Autosaves valid edits to the backend after a short pause in typing
+ * - Settings saved while offline are sent once the connection returns
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { getHabits, saveHabits } from "../services/api";
+import { loadCachedHabits, cacheHabits } from "../services/habitsStore";
+import { isNetworkError } from "../services/todoSync";
+import {
+  createDefaultSettings,
+  createProfileId,
+  toHabitsDraft,
+  validateHabitsDraft,
+  validateWorkPeriods,
+} from "../utils/habits";
+import type {
+  Habits,
+  HabitsDraft,
+  HabitsErrors,
+  HabitsSaveState,
+  HabitsSettings,
+  HabitProfile,
+  WeekdayHabits,
+} from "../types";
+
+const AUTOSAVE_DELAY_MS = 800;
+
+export interface HabitsState {
+  settings: HabitsSettings;
+  selectedProfileId: string;
+  draft: HabitsDraft;
+  errors: HabitsErrors;
+  weekdayErrors: Array<string | null>;
+  saveState: HabitsSaveState;
+  selectProfile: (id: string) => void;
+  updateHabit: (field: keyof Habits, value: string) => void;
+  addProfile: (name: string) => void;
+  renameProfile: (id: string, name: string) => void;
+  removeProfile: (id: string) => void;
+  setDefaultProfile: (id: string) => void;
+  updateWeekday: (day: number, update: WeekdayHabits) => void;
+}
+
+const findProfile = (settings: HabitsSettings, id: string): HabitProfile =>
+  settings.profiles.find((profile) => profile.id === id) ?? settings.profiles[0];
+
+export const useHabits = (): HabitsState => {
+  const [settings, setSettings] = useState<HabitsSettings>(
+    () => loadCachedHabits()?.settings ?? createDefaultSettings()
+  );
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(
+    settings.defaultProfileId
+  );
+  const [draft, setDraft] = useState<HabitsDraft>(() =>
+    toHabitsDraft(findProfile(settings, settings.defaultProfileId).habits)
+  );
+  const [saveState, setSaveState] = useState<HabitsSaveState>("idle");
+  const saveTimerRef = useRef<number | null>(null);
+  // Set by local edits so they get saved, and so a slow initial load cannot overwrite them
+  const dirtyRef = useRef<boolean>(false);
+  const touchedRef = useRef<boolean>(false);
+
+  const errors = useMemo(() => validateHabitsDraft(draft).errors, [draft]);
+  const weekdayErrors = useMemo(
+    () =>
+      settings.weekdays.map((weekday) =>
+        weekday.workPeriods ? validateWorkPeriods(weekday.workPeriods) : null
+      ),
+    [settings.weekdays]
+  );
+
+  /**
+   * Send settings to the backend, keeping the cache's sync flag current
+   */
+  const pushHabits = useCallback(async (next: HabitsSettings): Promise<void> => {
+    if (!navigator.onLine) {
+      setSaveState("offline");
+      return;
+    }
+    setSaveState("saving");
+    try {
+      await saveHabits(next);
+      // Leave the cache marked unsynced if it was edited again meanwhile
+      const cached = loadCachedHabits();
+      if (!cached || JSON.stringify(cached.settings) === JSON.stringify(next)) {
+        cacheHabits(next, true);
+      }
+      setSaveState("saved");
+    } catch (err) {
+      setSaveState(isNetworkError(err) ? "offline" : "error");
+      console.error(err);
+    }
+  }, []);
+
+  // Load the saved settings, or send ours if they were changed offline
+  useEffect(() => {
+    const sync = async (): Promise<void> => {
+      const cached = loadCachedHabits();
+      if (cached && !cached.synced) {
+        await pushHabits(cached.settings);
+        return;
+      }
+      if (!navigator.onLine) return;
+      try {
+        const remote = await getHabits();
+        if (remote && !touchedRef.current) {
+          cacheHabits(remote, true);
+          setSettings(remote);
+          setSelectedProfileId(remote.defaultProfileId);
+          setDraft(toHabitsDraft(findProfile(remote, remote.defaultProfileId).habits));
+        }
+      } catch (err) {
+        if (!isNetworkError(err)) {
+          console.error(err);
+        }
+      }
+    };
+
+    window.addEventListener("online", sync);
+    sync();
+    return () => window.removeEventListener("online", sync);
+  }, [pushHabits]);
+
+  // Cache and autosave edited settings once every weekday is valid
+  useEffect(() => {
+    if (!dirtyRef.current || weekdayErrors.some(Boolean)) return;
+    dirtyRef.current = false;
+    cacheHabits(settings, false);
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = window.setTimeout(() => {
+      saveTimerRef.current = null;
+      pushHabits(settings);
+    }, AUTOSAVE_DELAY_MS);
+  }, [settings, weekdayErrors, pushHabits]);
+
+  // Drop a pending autosave on unmount; the cache keeps it for the next sync
+  useEffect(
+    () => () => {
+      if (saveTimerRef.current !== null) {
+        window.clearTimeout(saveTimerRef.current);
+      }
+    },
+    []
+  );
+
+  const changeSettings = useCallback(
+    (update: (prev: HabitsSettings) => HabitsSettings): void => {
+      touchedRef.current = true;
+      dirtyRef.current = true;
+      setSettings(update);
+    },
+    []
+  );
+
+  /**
+   * Edit another profile in the questionnaire (unsaved invalid values are dropped)
+   */
+  const selectProfile = useCallback(
+    (id: string): void => {
+      setSelectedProfileId(id);
+      setDraft(toHabitsDraft(findProfile(settings, id).habits));
+    },
+    [settings]
+  );
+
+  /**
+   * Update one questionnaire field of the selected profile
+   * The profile itself only changes once the whole form is valid.
+   */
+  const updateHabit = useCallback(
+    (field: keyof Habits, value: string): void => {
+      touchedRef.current = true;
+      const next = { ...draft, [field]: value };
+      setDraft(next);
+
+      const { habits: valid } = validateHabitsDraft(next);
+      if (valid) {
+        changeSettings((prev) => ({
+          ...prev,
+          profiles: prev.profiles.map((profile) =>
+            profile.id === selectedProfileId ? { ...profile, habits: valid } : profile
+          ),
+        }));
+      }
+    },
+    [draft, selectedProfileId, changeSettings]
+  );
+
+  /**
+   * Add a profile starting from the selected one's habits, and select it
+   */
+  const addProfile = useCallback(
+    (name: string): void => {
+      const profile: HabitProfile = {
+        id: createProfileId(),
+        name: name.trim() || "New profile",
+        habits: findProfile(settings, selectedProfileId).habits,
+      };
+      changeSettings((prev) => ({ ...prev, profiles: [...prev.profiles, profile] }));
+      setSelectedProfileId(profile.id);
+      setDraft(toHabitsDraft(profile.habits));
+    },
+    [settings, selectedProfileId, changeSettings]
+  );
+
+  const renameProfile = useCallback(
+    (id: string, name: string): void => {
+      if (!name.trim()) return;
+      changeSettings((prev) => ({
+        ...prev,
+        profiles: prev.profiles.map((profile) =>
+          profile.id === id ? { ...profile, name: name.trim() } : profile
+        ),
+      }));
+    },
+    [changeSettings]
+  );
+
+  /**
+   * Delete a profile other than the default; weekdays using it fall back to the default
+   */
+  const removeProfile = useCallback(
+    (id: string): void => {
+      if (id === settings.defaultProfileId) return;
+      changeSettings((prev) => ({
+        ...prev,
+        profiles: prev.profiles.filter((profile) => profile.id !== id),
+        weekdays: prev.weekdays.map((weekday) =>
+          weekday.profileId === id ? { ...weekday, profileId: null } : weekday
+        ),
+      }));
+      if (selectedProfileId === id) {
+        setSelectedProfileId(settings.defaultProfileId);
+        setDraft(toHabitsDraft(findProfile(settings, settings.defaultProfileId).habits));
+      }
+    },
+    [settings, selectedProfileId, changeSettings]
+  );
+
+  const setDefaultProfile = useCallback(
+    (id: string): void => changeSettings((prev) => ({ ...prev, defaultProfileId: id })),
+    [changeSettings]
+  );
+
+  /**
+   * Change the override for one weekday (0 = Sunday)
+   */
+  const updateWeekday = useCallback(
+    (day: number, update: WeekdayHabits): void =>
+      changeSettings((prev) => ({
+        ...prev,
+        weekdays: prev.weekdays.map((weekday, index) =>
+          index === day ? { ...weekday, ...update } : weekday
+        ),
+      })),
+    [changeSettings]
+  );
+
+  return {
+    settings,
+    selectedProfileId,
+    draft,
+    errors,
+    weekdayErrors,
+    saveState,
+    selectProfile,
+    updateHabit,
+    addProfile,
+    renameProfile,
+    removeProfile,
+    setDefaultProfile,
+    updateWeekday,
+  };
+};
@@ -0,0 +1,208 @@
+/**
+ * useScheduleEditor Hook
+ *
+ * Holds the schedule for the selected day and the user's edits to it:
+ * - Loads the day's saved schedule (local copy first, then the backend's)
+ * - Moving and resizing blocks, with later blocks and breaks reflowed; each edit
+ *   reports the versions before and after it, for the undo history
+ * - Restoring an earlier version, also of a day that is not being shown
+ * - Every change is saved as that day's schedule, locally and to the backend
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { loadStoredSchedule } from "../services/scheduleStore";
+import {
+  loadDaySchedule,
+  persistDaySchedule,
+  flushScheduleSync,
+} from "../services/scheduleSync";
+import { moveScheduleItem, resizeScheduleItem } from "../utils/scheduleEdit";
+import type {
+  Habits,
+  SavedSchedule,
+  ScheduleItem,
+  ScheduleSnapshot,
+  ScheduleSource,
+} from "../types";
+
+interface EditorState {
+  date: string;
+  items: ScheduleItem[];
+  source: ScheduleSource;
+  edited: boolean;
+  updatedAt: string | null;
+  // Changed on this device since the day was opened
+  touched: boolean;
+}
+
+export interface ScheduleChange {
+  before: ScheduleSnapshot;
+  after: ScheduleSnapshot;
+}
+
+export interface ScheduleEditor {
+  items: ScheduleItem[];
+  source: ScheduleSource;
+  edited: boolean;
+  updatedAt: string | null;
+  replaceSchedule: (items: ScheduleItem[], source: ScheduleSource) => void;
+  moveItem: (index: number, start: number) => ScheduleChange | null;
+  resizeItem: (index: number, durationMinutes: number) => ScheduleChange | null;
+  restore: (snapshot: ScheduleSnapshot) => void;
+}
+
+const stateFromSaved = (date: string, saved: SavedSchedule | null): EditorState => ({
+  date,
+  items: saved?.items ?? [],
+  source: saved?.source ?? "ai",
+  edited: saved?.edited ?? false,
+  updatedAt: saved?.updatedAt ?? null,
+  touched: false,
+});
+
+const toSnapshot = (state: EditorState): ScheduleSnapshot => ({
+  date: state.date,
+  items: state.items,
+  source: state.source,
+  edited: state.edited,
+});
+
+/**
+ * @param date - Day key (YYYY-MM-DD) of the schedule being shown
+ * @param habits - Break preferences used when reflowing after an edit
+ */
+export const useScheduleEditor = (date: string, habits: Habits): ScheduleEditor => {
+  const [state, setState] = useState<EditorState>(() =>
+    stateFromSaved(date, loadStoredSchedule(date))
+  );
+  // Set by local changes so that loading a saved schedule does not save it again
+  const dirtyRef = useRef<boolean>(false);
+  // The latest state, so edits can report what they changed straight away
+  const stateRef = useRef<EditorState>(state);
+  stateRef.current = state;
+
+  const commit = useCallback((next: EditorState): void => {
+    dirtyRef.current = true;
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  // Switch days: show the local copy straight away, then the backend's if newer
+  useEffect(() => {
+    let cancelled = false;
+    dirtyRef.current = false;
+    setState(stateFromSaved(date, loadStoredSchedule(date)));
+
+    loadDaySchedule(date).then((saved) => {
+      if (cancelled || !saved) return;
+      setState((prev) =>
+        prev.date === date && !prev.touched && !dirtyRef.current
+          ? stateFromSaved(date, saved)
+          : prev
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [date]);
+
+  // Save every change except the in-flight preview
+  useEffect(() => {
+    if (!dirtyRef.current || state.source === "preview" || !state.updatedAt) return;
+    dirtyRef.current = false;
+    persistDaySchedule({
+      date: state.date,
+      items: state.items,
+      source: state.source,
+      edited: state.edited,
+      updatedAt: state.updatedAt,
+    });
+  }, [state]);
+
+  // Retry days that could not be saved to the backend
+  useEffect(() => {
+    const sync = (): void => {
+      flushScheduleSync().catch((err) => console.error("Error syncing schedules:", err));
+    };
+    window.addEventListener("online", sync);
+    sync();
+    return () => window.removeEventListener("online", sync);
+  }, []);
+
+  /**
+   * Show a freshly generated schedule, dropping earlier edits
+   */
+  const replaceSchedule = useCallback(
+    (items: ScheduleItem[], source: ScheduleSource): void =>
+      commit({
+        ...stateFromSaved(stateRef.current.date, null),
+        items,
+        source,
+        updatedAt: new Date().toISOString(),
+        touched: true,
+      }),
+    [commit]
+  );
+
+  /**
+   * Apply an edit
+   * @returns The versions before and after, or null if nothing changed
+   */
+  const applyEdit = useCallback(
+    (edit: (items: ScheduleItem[]) => ScheduleItem[]): ScheduleChange | null => {
+      const prev = stateRef.current;
+      const items = edit(prev.items);
+      if (items === prev.items) return null;
+
+      const next: EditorState = {
+        ...prev,
+        items,
+        edited: true,
+        updatedAt: new Date().toISOString(),
+        touched: true,
+      };
+      commit(next);
+      return { before: toSnapshot(prev), after: toSnapshot(next) };
+    },
+    [commit]
+  );
+
+  const moveItem = useCallback(
+    (index: number, start: number): ScheduleChange | null =>
+      applyEdit((items) => moveScheduleItem(items, index, start, habits)),
+    [applyEdit, habits]
+  );
+
+  const resizeItem = useCallback(
+    (index: number, durationMinutes: number): ScheduleChange | null =>
+      applyEdit((items) => resizeScheduleItem(items, index, durationMinutes, habits)),
+    [applyEdit, habits]
+  );
+
+  /**
+   * Put back an earlier version of a day's schedule. Another day than the one
+   * shown is saved without being displayed.
+   */
+  const restore = useCallback(
+    (snapshot: ScheduleSnapshot): void => {
+      const updatedAt = new Date().toISOString();
+      if (snapshot.date !== stateRef.current.date) {
+        persistDaySchedule({ ...snapshot, updatedAt });
+        return;
+      }
+      commit({ ...stateRef.current, ...snapshot, updatedAt, touched: true });
+    },
+    [commit]
+  );
+
+  return {
+    items: state.items,
+    source: state.source,
+    edited: state.edited,
+    updatedAt: state.updatedAt,
+    replaceSchedule,
+    moveItem,
+    resizeItem,
+    restore,
+  };
+};
@@ -0,0 +1,52 @@
+/**
+ * useTodoFilters Hook
+ *
+ * Task list filters kept in the page URL, so a filtered view survives a reload
+ * and can be bookmarked or shared:
+ * - Read from the query string on load and on back/forward navigation
+ * - Written back with history.replaceState, without adding history entries
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { DEFAULT_FILTERS, filtersFromSearch, filtersToSearch } from "../utils/todoFilters";
+import type { TodoFilters } from "../types";
+
+export interface TodoFiltersState {
+  filters: TodoFilters;
+  updateFilters: (update: Partial<TodoFilters>) => void;
+  clearFilters: () => void;
+}
+
+export const useTodoFilters = (): TodoFiltersState => {
+  const [filters, setFilters] = useState<TodoFilters>(() =>
+    filtersFromSearch(window.location.search)
+  );
+
+  // Follow the URL when the user navigates back or forward
+  useEffect(() => {
+    const handlePopState = (): void => setFilters(filtersFromSearch(window.location.search));
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  useEffect(() => {
+    const search = filtersToSearch(filters, window.location.search);
+    if (search !== window.location.search) {
+      const { pathname, hash } = window.location;
+      window.history.replaceState(window.history.state, "", `${pathname}${search}${hash}`);
+    }
+  }, [filters]);
+
+  const updateFilters = useCallback(
+    (update: Partial<TodoFilters>): void => setFilters((prev) => ({ ...prev, ...update })),
+    []
+  );
+
+  // Keeps the sort order, which is a view preference rather than a filter
+  const clearFilters = useCallback(
+    (): void => setFilters((prev) => ({ ...DEFAULT_FILTERS, sort: prev.sort })),
+    []
+  );
+
+  return { filters, updateFilters, clearFilters };
+};
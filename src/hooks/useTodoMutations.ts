@@ -0,0 +1,155 @@
+/**
+ * useTodoMutations Hook
+ *
+ * Optimistic todo mutations for the task list:
+ * - Changes show up immediately (the sync service applies them locally first)
+ * - Each todo tracks whether a change is still in flight or has failed
+ * - A rejected change is rolled back and leaves an error on that todo only
+ * - Batches of changes report success or failure per todo
+ */
+
+import { useState, useCallback } from "react";
+import {
+  syncCreateTodo,
+  syncUpdateTodo,
+  syncReorderTodo,
+  syncDeleteTodo,
+  syncBatchTodos,
+} from "../services/todoSync";
+import { describeError } from "../utils/errors";
+import type {
+  Todo,
+  CreateTodoRequest,
+  UpdateTodoRequest,
+  TodoMutationStatus,
+  TodoBatchOperation,
+  TodoBatchResult,
+} from "../types";
+
+export interface TodoMutations {
+  statuses: Record<string, TodoMutationStatus>;
+  addTodo: (todoData: CreateTodoRequest) => Promise<Todo>;
+  updateTodo: (todo: Todo, updateData: UpdateTodoRequest) => Promise<boolean>;
+  moveTodo: (todo: Todo, position: number) => Promise<boolean>;
+  removeTodo: (todo: Todo) => Promise<boolean>;
+  applyBatch: (operations: TodoBatchOperation[]) => Promise<TodoBatchResult[]>;
+  dismissError: (id: string) => void;
+}
+
+export const useTodoMutations = (): TodoMutations => {
+  const [statuses, setStatuses] = useState<Record<string, TodoMutationStatus>>({});
+
+  const setStatus = useCallback(
+    (id: string, status: TodoMutationStatus | null): void => {
+      setStatuses((prev) => {
+        const next = { ...prev };
+        if (status) {
+          next[id] = status;
+        } else {
+          delete next[id];
+        }
+        return next;
+      });
+    },
+    []
+  );
+
+  /**
+   * Run a mutation for one todo, recording its pending/failed state
+   * @returns Whether the mutation was accepted (or queued offline)
+   */
+  const track = useCallback(
+    async (
+      id: string,
+      mutation: () => Promise<unknown>,
+      action: string
+    ): Promise<boolean> => {
+      setStatus(id, { state: "pending" });
+      try {
+        await mutation();
+        setStatus(id, null);
+        return true;
+      } catch (err) {
+        console.error(err);
+        setStatus(id, { state: "failed", error: describeError(err, action) });
+        return false;
+      }
+    },
+    [setStatus]
+  );
+
+  /**
+   * Create a todo. Creation failures are rethrown since the rolled-back todo
+   * is no longer in the list to carry an error indicator.
+   */
+  const addTodo = useCallback(
+    (todoData: CreateTodoRequest): Promise<Todo> => syncCreateTodo(todoData),
+    []
+  );
+
+  const updateTodo = useCallback(
+    (todo: Todo, updateData: UpdateTodoRequest): Promise<boolean> =>
+      track(todo.id, () => syncUpdateTodo(todo, updateData), "save this change"),
+    [track]
+  );
+
+  const moveTodo = useCallback(
+    (todo: Todo, position: number): Promise<boolean> =>
+      track(todo.id, () => syncReorderTodo(todo, position), "move this task"),
+    [track]
+  );
+
+  const removeTodo = useCallback(
+    (todo: Todo): Promise<boolean> =>
+      track(todo.id, () => syncDeleteTodo(todo.id), "delete this task"),
+    [track]
+  );
+
+  /**
+   * Apply changes to several todos in one go; each todo gets its own
+   * pending and failed state
+   */
+  const applyBatch = useCallback(
+    async (operations: TodoBatchOperation[]): Promise<TodoBatchResult[]> => {
+      setStatuses((prev) => {
+        const next = { ...prev };
+        operations.forEach(({ id }) => {
+          next[id] = { state: "pending" };
+        });
+        return next;
+      });
+
+      let results: TodoBatchResult[];
+      try {
+        results = await syncBatchTodos(operations);
+      } catch (err) {
+        console.error(err);
+        results = operations.map(({ id }) => ({ id, ok: false, error: String(err), cause: err }));
+      }
+
+      setStatuses((prev) => {
+        const next = { ...prev };
+        results.forEach((result, index) => {
+          if (result.ok) {
+            delete next[result.id];
+          } else {
+            next[result.id] = {
+              state: "failed",
+              error: describeError(
+                result.cause,
+                operations[index].type === "delete" ? "delete this task" : "save this change"
+              ),
+            };
+          }
+        });
+        return next;
+      });
+      return results;
+    },
+    []
+  );
+
+  const dismissError = useCallback((id: string): void => setStatus(id, null), [setStatus]);
+
+  return { statuses, addTodo, updateTodo, moveTodo, removeTodo, applyBatch, dismissError };
+};
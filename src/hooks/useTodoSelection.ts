@@ -0,0 +1,69 @@
+/**
+ * useTodoSelection Hook
+ *
+ * Multi-select for the task list:
+ * - Click toggles a single task; shift-click selects the range from the last
+ *   clicked task, in the order the list shows them
+ * - Tasks that disappear from the list (deleted or filtered out) are deselected,
+ *   so batch actions only ever touch what is on screen
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+
+export interface TodoSelection {
+  selectedIds: Set<string>;
+  toggle: (id: string, range?: boolean) => void;
+  setSelection: (ids: string[]) => void;
+  clear: () => void;
+}
+
+/**
+ * @param visibleIds - IDs of the tasks currently listed, in display order
+ */
+export const useTodoSelection = (visibleIds: string[]): TodoSelection => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const visible = new Set(visibleIds);
+      const kept = Array.from(prev).filter((id) => visible.has(id));
+      return kept.length === prev.size ? prev : new Set(kept);
+    });
+  }, [visibleIds]);
+
+  const toggle = useCallback(
+    (id: string, range = false): void => {
+      const anchor = anchorRef.current;
+      const from = anchor ? visibleIds.indexOf(anchor) : -1;
+      const to = visibleIds.indexOf(id);
+      anchorRef.current = id;
+
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        if (range && from !== -1 && to !== -1) {
+          visibleIds
+            .slice(Math.min(from, to), Math.max(from, to) + 1)
+            .forEach((rangeId) => next.add(rangeId));
+        } else if (next.has(id)) {
+          next.delete(id);
+        } else {
+          next.add(id);
+        }
+        return next;
+      });
+    },
+    [visibleIds]
+  );
+
+  const setSelection = useCallback((ids: string[]): void => {
+    setSelectedIds(new Set(ids));
+  }, []);
+
+  const clear = useCallback((): void => {
+    anchorRef.current = null;
+    setSelectedIds(new Set());
+  }, []);
+
+  return { selectedIds, toggle, setSelection, clear };
+};
@@ -0,0 +1,61 @@
+/**
+ * useTodoStore Hook
+ *
+ * Exposes the locally stored todos to React and keeps them current:
+ * - Re-reads the store whenever the sync service reports a change
+ * - Runs background replay of the offline outbox while mounted
+ * - Tracks browser connectivity for offline indicators
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  loadLocalTodos,
+  getPendingTodoIds,
+  subscribeToTodoChanges,
+  startBackgroundSync,
+} from "../services/todoSync";
+import type { Todo } from "../types";
+
+export interface TodoStoreState {
+  todos: Todo[];
+  pendingIds: string[];
+  isOnline: boolean;
+}
+
+export const useTodoStore = (): TodoStoreState => {
+  const [todos, setTodos] = useState<Todo[]>([]);
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+
+  const reload = useCallback(async (): Promise<void> => {
+    try {
+      const [localTodos, pending] = await Promise.all([
+        loadLocalTodos(),
+        getPendingTodoIds(),
+      ]);
+      setTodos(localTodos);
+      setPendingIds(pending);
+    } catch (err) {
+      console.error("Error reading local todos:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    const unsubscribe = subscribeToTodoChanges(reload);
+    const stopSync = startBackgroundSync();
+
+    const handleConnectivity = (): void => setIsOnline(navigator.onLine);
+    window.addEventListener("online", handleConnectivity);
+    window.addEventListener("offline", handleConnectivity);
+
+    return () => {
+      unsubscribe();
+      stopSync();
+      window.removeEventListener("online", handleConnectivity);
+      window.removeEventListener("offline", handleConnectivity);
+    };
+  }, [reload]);
+
+  return { todos, pendingIds, isOnline };
+};
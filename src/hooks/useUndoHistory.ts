@@ -0,0 +1,98 @@
+/**
+ * useUndoHistory Hook
+ *
+ * A command-based undo/redo stack:
+ * - Each change is recorded as a command that knows how to undo and redo itself
+ * - Recording a new change clears the redo stack
+ * - Undo and redo run one at a time, so quick repeated presses apply in order
+ */
+
+import { useState, useCallback, useRef } from "react";
+import type { UndoCommand } from "../types";
+
+const MAX_HISTORY = 50;
+
+interface HistoryState {
+  past: UndoCommand[];
+  future: UndoCommand[];
+}
+
+export interface UndoHistory {
+  nextUndo: UndoCommand | null;
+  nextRedo: UndoCommand | null;
+  record: (command: UndoCommand) => void;
+  undo: () => Promise<UndoCommand | null>;
+  redo: () => Promise<UndoCommand | null>;
+  forget: (scope: string) => void;
+}
+
+export const useUndoHistory = (): UndoHistory => {
+  const [state, setState] = useState<HistoryState>({ past: [], future: [] });
+  // Mirrors state so undo/redo can pick their command synchronously
+  const stateRef = useRef<HistoryState>(state);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const update = useCallback((next: HistoryState): void => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  const record = useCallback(
+    (command: UndoCommand): void =>
+      update({ past: [...stateRef.current.past, command].slice(-MAX_HISTORY), future: [] }),
+    [update]
+  );
+
+  /**
+   * Move the top command of one stack onto the other and run it
+   * A command that fails is moved all the same, so it cannot block the rest of the history.
+   * @returns The command that ran, or null if there was none
+   */
+  const step = useCallback(
+    (direction: "undo" | "redo"): Promise<UndoCommand | null> => {
+      const run = queueRef.current.then(async () => {
+        const { past, future } = stateRef.current;
+        const command = direction === "undo" ? past[past.length - 1] : future[future.length - 1];
+        if (!command) return null;
+
+        update(
+          direction === "undo"
+            ? { past: past.slice(0, -1), future: [...future, command] }
+            : { past: [...past, command], future: future.slice(0, -1) }
+        );
+        await command[direction]();
+        return command;
+      });
+      // Keep the queue going after a failed command
+      queueRef.current = run.catch(() => undefined);
+      return run;
+    },
+    [update]
+  );
+
+  const undo = useCallback((): Promise<UndoCommand | null> => step("undo"), [step]);
+  const redo = useCallback((): Promise<UndoCommand | null> => step("redo"), [step]);
+
+  /**
+   * Drop every command of a scope, e.g. edits to a schedule that was regenerated
+   */
+  const forget = useCallback(
+    (scope: string): void => {
+      const { past, future } = stateRef.current;
+      update({
+        past: past.filter((command) => command.scope !== scope),
+        future: future.filter((command) => command.scope !== scope),
+      });
+    },
+    [update]
+  );
+
+  return {
+    nextUndo: state.past[state.past.length - 1] ?? null,
+    nextRedo: state.future[state.future.length - 1] ?? null,
+    record,
+    undo,
+    redo,
+    forget,
+  };
+};
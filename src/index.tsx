@@ -2,30 +2,64 @@
  * Application Entry Point
  *
  * Initializes the React application with:
- * - MSAL authentication provider
+ * - The configured identity provider (MSAL, OIDC or mock) and token handling
+ * - Backend API and Microsoft Graph clients, with the API optionally answered
+ *   in-process by the mock API (REACT_APP_MOCK_API=true)
  * - Tailwind CSS styling
- * - Root component mounting
+ * - Root component mounting, once any sign-in redirect has been completed
  */
 
 import React from "react";
 import ReactDOM from "react-dom/client";
-import { MsalProvider } from "@azure/msal-react";
-import { PublicClientApplication } from "@azure/msal-browser";
 import "./index.css";
 import App from "./App";
-import { msalConfig } from "./authConfig";
-import { initializeApi } from "./services/api";
+import { authProviderKind, msalConfig, oidcConfig } from "./authConfig";
+import { initializeAuth } from "./services/auth";
+import { createMsalAuthProvider } from "./services/msalAuthProvider";
+import { createOidcAuthProvider } from "./services/oidcAuthProvider";
+import { createMockAuthProvider } from "./services/mockAuthProvider";
+import { initializeApi, setApiAdapter } from "./services/api";
+import { createMockApi, createSampleTodos, MockApi } from "./services/mockApi";
+import { initializeGraph } from "./services/graphClient";
+import type { AuthProvider } from "./types";
 
 /**
- * Initialize MSAL - Microsoft Authentication Library
- * This creates the authentication context for the entire application
+ * Create the identity provider selected by REACT_APP_AUTH_PROVIDER
  */
-const msalInstance = new PublicClientApplication(msalConfig);
+const createAuthProvider = (): AuthProvider => {
+  switch (authProviderKind) {
+    case "oidc":
+      return createOidcAuthProvider(oidcConfig);
+    case "mock":
+      return createMockAuthProvider();
+    default:
+      return createMsalAuthProvider(msalConfig);
+  }
+};
 
 /**
- * Initialize API service with MSAL for token-based authentication
+ * Initialize API service with token-based authentication
  */
-initializeApi(msalInstance);
+initializeApi();
+
+/**
+ * Answer API calls in-process during development, seeded with sample todos;
+ * window.mockApi exposes it for adding latency and faults from the console
+ */
+if (process.env.REACT_APP_MOCK_API === "true") {
+  const mockApi = createMockApi({
+    todos: createSampleTodos(),
+    latencyMs: Number(process.env.REACT_APP_MOCK_API_LATENCY ?? 300) || 0,
+  });
+  setApiAdapter(mockApi.adapter);
+  (window as Window & { mockApi?: MockApi }).mockApi = mockApi;
+  console.info("Using the mock API; see window.mockApi");
+}
+
+/**
+ * Initialize the Graph client used to read the user's calendar
+ */
+initializeGraph();
 
 const rootElement = document.getElementById("root");
 if (!rootElement) {
@@ -34,10 +68,15 @@ if (!rootElement) {
 
 const root = ReactDOM.createRoot(rootElement);
 
-root.render(
-  <React.StrictMode>
-    <MsalProvider instance={msalInstance}>
-      <App />
-    </MsalProvider>
-  </React.StrictMode>
-);
+/**
+ * Initialize sign-in first: a provider may be completing a redirect
+ */
+initializeAuth(createAuthProvider())
+  .catch((error) => console.error("Error initializing sign-in:", error))
+  .finally(() => {
+    root.render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>
+    );
+  });
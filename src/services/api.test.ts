@@ -0,0 +1,390 @@
+/**
+ * API Contract Tests
+ *
+ * Runs the API service against the mock API, checking what is sent to /todos,
+ * /todos/batch, /schedule, /schedules and /habits, and how responses and failures
+ * come back.
+ */
+
+import { loginRequest } from "../authConfig";
+import { initializeAuth, signIn } from "./auth";
+import { createMockAuthProvider } from "./mockAuthProvider";
+import { createMockApi } from "./mockApi";
+import {
+  initializeApi,
+  setApiAdapter,
+  getTodos,
+  createTodo,
+  updateTodo,
+  reorderTodo,
+  deleteTodo,
+  batchTodos,
+  generateSchedule,
+  getSchedule,
+  saveSchedule,
+  getHabits,
+} from "./api";
+import {
+  CancelledError,
+  NotFoundError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from "../utils/errors";
+import { ScheduleValidationError } from "../utils/scheduleModel";
+import { DEFAULT_HABITS, createDefaultSettings } from "../utils/habits";
+import type { HabitsSettings, Todo } from "../types";
+
+const TODOS: Todo[] = [
+  { id: "todo-1", task: "Write report", priority: "High", completed: false, position: 1000 },
+  { id: "todo-2", task: "Find sources", priority: "Low", completed: false, parentId: "todo-1" },
+  { id: "todo-3", task: "Water plants", priority: "Medium", completed: true },
+];
+
+const mockApi = createMockApi();
+
+beforeAll(async () => {
+  await initializeAuth(createMockAuthProvider());
+  await signIn(loginRequest);
+  initializeApi();
+  setApiAdapter(mockApi.adapter);
+});
+
+beforeEach(() => {
+  mockApi.reset({ todos: TODOS });
+  mockApi.setLatency(0);
+  // Failed requests and repaired responses are logged; the failures here are expected
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+  jest.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  // Some tests answer with another mock API
+  setApiAdapter(mockApi.adapter);
+});
+
+describe("/todos", () => {
+  it("lists the user's todos, sending a bearer token", async () => {
+    await expect(getTodos()).resolves.toEqual(TODOS);
+    expect(mockApi.getRequests()).toEqual([
+      { method: "get", path: "/todos", params: {}, body: undefined },
+    ]);
+  });
+
+  it("creates a todo with the optional fields filled in", async () => {
+    const created = await createTodo({ task: "Call Sam", priority: "Medium" });
+
+    expect(created).toMatchObject({ task: "Call Sam", priority: "Medium", completed: false });
+    expect(created.id).toBe("todo-4");
+    expect(mockApi.getRequests()[0]).toMatchObject({
+      method: "post",
+      path: "/todos",
+      body: {
+        task: "Call Sam",
+        priority: "Medium",
+        completed: false,
+        parentId: null,
+        dueAt: null,
+        tags: [],
+        project: null,
+      },
+    });
+    expect(mockApi.getTodos()).toHaveLength(4);
+  });
+
+  it("reports the backend's validation errors", async () => {
+    const error = await createTodo({ task: " ", priority: "High" }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues).toEqual(["task: The task is required."]);
+  });
+
+  it("updates a todo and moves it within the manual order", async () => {
+    await expect(updateTodo("todo-1", { completed: true })).resolves.toMatchObject({
+      id: "todo-1",
+      completed: true,
+    });
+    await expect(reorderTodo("todo-3", 500)).resolves.toMatchObject({ position: 500 });
+
+    expect(mockApi.getRequests().map(({ method, path, body }) => [method, path, body])).toEqual([
+      ["put", "/todos/todo-1", { completed: true }],
+      ["patch", "/todos/todo-3/position", { position: 500 }],
+    ]);
+  });
+
+  it("fails with NotFoundError for a todo that doesn't exist", async () => {
+    await expect(updateTodo("missing", { completed: true })).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  it("deletes a todo together with its subtasks when cascading", async () => {
+    await deleteTodo("todo-1", { cascade: true });
+
+    expect(mockApi.getRequests()[0]).toMatchObject({
+      method: "delete",
+      path: "/todos/todo-1",
+      params: { cascade: true },
+    });
+    expect(mockApi.getTodos().map((todo) => todo.id)).toEqual(["todo-3"]);
+  });
+
+  it("repairs malformed todos in lenient mode and leaves out unusable ones", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    mockApi.reset({
+      todos: [
+        { id: "todo-1", task: "Write report", priority: "high", completed: "false" },
+        { task: "No id", priority: "Low", completed: false },
+      ] as unknown as Todo[],
+    });
+
+    await expect(getTodos()).resolves.toEqual([
+      { id: "todo-1", task: "Write report", priority: "High", completed: false },
+    ]);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("/todos/batch", () => {
+  it("returns one result per operation, in order", async () => {
+    const results = await batchTodos([
+      { type: "update", id: "todo-3", changes: { completed: false } },
+      { type: "delete", id: "missing" },
+      { type: "delete", id: "todo-1" },
+    ]);
+
+    expect(results.map(({ id, ok }) => [id, ok])).toEqual([
+      ["todo-3", true],
+      ["missing", false],
+      ["todo-1", true],
+    ]);
+    expect(results[0].todo).toMatchObject({ id: "todo-3", completed: false });
+    expect(mockApi.getRequests()).toHaveLength(1);
+    expect(mockApi.getTodos().map((todo) => todo.id)).toEqual(["todo-3"]);
+  });
+
+  it("falls back to one request per operation without a batch endpoint", async () => {
+    mockApi.addFault({ method: "post", path: "/todos/batch", status: 404 });
+
+    const results = await batchTodos([
+      { type: "update", id: "todo-3", changes: { priority: "Low" } },
+      { type: "delete", id: "todo-1" },
+    ]);
+
+    expect(results.every((result) => result.ok)).toBe(true);
+    expect(mockApi.getRequests().map(({ method, path }) => `${method} ${path}`)).toEqual([
+      "post /todos/batch",
+      "put /todos/todo-3",
+      "delete /todos/todo-1",
+    ]);
+  });
+});
+
+describe("failures", () => {
+  it("retries a request answered with 401 once, with a fresh token", async () => {
+    mockApi.addFault({ status: 401 });
+
+    await expect(getTodos()).resolves.toHaveLength(3);
+    expect(mockApi.getRequests()).toHaveLength(2);
+  });
+
+  it("retries idempotent requests after a 503", async () => {
+    mockApi.addFault({ method: "get", path: "/todos", status: 503 });
+
+    await expect(getTodos()).resolves.toHaveLength(3);
+    expect(mockApi.getRequests()).toHaveLength(2);
+  });
+
+  it("doesn't retry a create after a 500", async () => {
+    mockApi.addFault({ method: "post", path: "/todos", status: 500, times: 2 });
+
+    await expect(createTodo({ task: "Call Sam", priority: "Low" })).rejects.toBeInstanceOf(
+      ServerError
+    );
+    expect(mockApi.getRequests()).toHaveLength(1);
+    expect(mockApi.getTodos()).toHaveLength(3);
+  });
+
+  it("gives up on a request that takes longer than its timeout", async () => {
+    mockApi.setLatency(200);
+
+    await expect(getTodos({ timeoutMs: 50, retry: false })).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+  });
+
+  it("creates a todo only once when a timed-out create is sent again with its key", async () => {
+    mockApi.setLatency(100);
+    const todoData = { task: "Call Sam", priority: "Low" } as const;
+
+    await expect(
+      createTodo(todoData, { timeoutMs: 50, idempotencyKey: "temp-1" })
+    ).rejects.toBeInstanceOf(TimeoutError);
+    // The server still handles it after the client gave up
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(mockApi.getTodos()).toHaveLength(4);
+
+    await expect(createTodo(todoData, { idempotencyKey: "temp-1" })).resolves.toMatchObject({
+      id: "todo-4",
+    });
+    expect(mockApi.getRequests()[1]).toMatchObject({ idempotencyKey: "temp-1" });
+    expect(mockApi.getTodos()).toHaveLength(4);
+  });
+
+  it("cancels a request through its AbortSignal", async () => {
+    mockApi.setLatency(200);
+    const controller = new AbortController();
+
+    const request = getTodos({ signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(CancelledError);
+  });
+});
+
+describe("/schedule", () => {
+  it("sends the todos, habits and meetings and returns a validated schedule", async () => {
+    const schedule = await generateSchedule(
+      TODOS,
+      DEFAULT_HABITS,
+      new Date(2026, 9, 19),
+      "Default",
+      [{ start: "09:00", end: "09:30", subject: "Standup" }]
+    );
+
+    expect(mockApi.getRequests()[0]).toMatchObject({
+      method: "post",
+      path: "/schedule",
+      body: {
+        habits: DEFAULT_HABITS,
+        profile: "Default",
+        busy: [{ start: "09:00", end: "09:30", subject: "Standup" }],
+        date: "2026-10-19",
+      },
+    });
+    // Planned after the meeting, leaving out the completed todo
+    expect(schedule[0]).toMatchObject({ start: 570, kind: "task", todoId: "todo-2" });
+    expect(schedule.map((item) => item.todoId)).not.toContain("todo-3");
+  });
+
+  it("rejects a malformed AI response", async () => {
+    const badApi = createMockApi({ planSchedule: () => ({ plan: "nothing" }) });
+    setApiAdapter(badApi.adapter);
+
+    await expect(generateSchedule(TODOS, DEFAULT_HABITS)).rejects.toBeInstanceOf(
+      ScheduleValidationError
+    );
+  });
+
+  it("reads a wrapped schedule", async () => {
+    mockApi.addFault({
+      method: "post",
+      path: "/schedule",
+      status: 200,
+      body: {
+        schedule: [
+          { time: "09:00", task: "Write report", duration: "1h", todoId: "todo-1" },
+          { time: "10:00", task: "Water plants", duration: "30", breakDuration: 15 },
+        ],
+      },
+    });
+
+    const schedule = await generateSchedule(TODOS, DEFAULT_HABITS);
+
+    expect(schedule.map(({ start, end, task }) => [start, end, task])).toEqual([
+      [540, 600, "Write report"],
+      [600, 630, "Water plants"],
+      [630, 645, "Break"],
+    ]);
+  });
+
+  it.each([
+    ["has no task", { time: "10:00", duration: 30 }],
+    ["has a malformed time", { time: "ten", task: "Water plants", duration: 30 }],
+  ])("rejects the whole schedule when an item %s", async (_, item) => {
+    mockApi.addFault({
+      method: "post",
+      path: "/schedule",
+      status: 200,
+      body: [{ time: "09:00", task: "Write report", duration: "1h" }, item],
+    });
+
+    await expect(generateSchedule(TODOS, DEFAULT_HABITS)).rejects.toBeInstanceOf(
+      ScheduleValidationError
+    );
+  });
+});
+
+describe("/habits", () => {
+  const SETTINGS: HabitsSettings = {
+    ...createDefaultSettings(),
+    weekdays: [{ dayOff: true }, {}, {}, {}, {}, {}, { dayOff: true }],
+  };
+
+  it("returns null until the user has saved settings", async () => {
+    await expect(getHabits()).resolves.toBeNull();
+  });
+
+  it("reads the saved settings", async () => {
+    mockApi.reset({ habits: SETTINGS });
+
+    const settings = await getHabits();
+
+    expect(settings).toMatchObject({
+      defaultProfileId: "default",
+      profiles: [{ habits: DEFAULT_HABITS }],
+    });
+    expect(settings?.weekdays.map(({ dayOff }) => dayOff)).toEqual([
+      true,
+      false,
+      false,
+      false,
+      false,
+      false,
+      true,
+    ]);
+  });
+
+  it("upgrades settings saved before profiles existed", async () => {
+    const legacy = { ...DEFAULT_HABITS, breakDuration: "10" };
+    mockApi.reset({ habits: legacy as unknown as HabitsSettings });
+
+    await expect(getHabits()).resolves.toEqual(
+      createDefaultSettings({ ...DEFAULT_HABITS, breakDuration: 10 })
+    );
+  });
+
+  it("leaves settings the schema can't read to be sanitized", async () => {
+    mockApi.reset({
+      habits: { ...SETTINGS, defaultProfileId: undefined } as unknown as HabitsSettings,
+    });
+
+    await expect(getHabits()).resolves.toMatchObject({ defaultProfileId: "default" });
+    expect(console.warn).toHaveBeenCalledWith(
+      "Unexpected habit settings from the server, normalizing it instead:",
+      expect.any(ValidationError)
+    );
+  });
+});
+
+describe("/schedules/{date}", () => {
+  it("saves a day's schedule and reads it back", async () => {
+    await expect(getSchedule("2026-10-19")).resolves.toBeNull();
+
+    await saveSchedule({
+      date: "2026-10-19",
+      items: [{ start: 540, end: 600, durationMinutes: 60, task: "Write report", kind: "task" }],
+      source: "ai",
+      edited: true,
+      updatedAt: "2026-10-19T08:00:00.000Z",
+    });
+
+    await expect(getSchedule("2026-10-19")).resolves.toMatchObject({
+      date: "2026-10-19",
+      source: "ai",
+      edited: true,
+      items: [{ start: 540, task: "Write report" }],
+    });
+  });
+});
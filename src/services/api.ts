@@ -3,26 +3,68 @@
  *
  * This module provides centralized API communication with the backend.
  * It handles:
- * - Automatic JWT token acquisition and attachment to requests
- * - Error handling and response processing
+ * - Automatic JWT token acquisition and attachment to requests (see ./auth)
+ * - Timeouts, cancellation and retries of idempotent calls, with failures
+ *   reported as typed errors (see ./http and utils/errors)
+ * - Checking every response against its schema (see types/schemas): in strict
+ *   mode a malformed response is rejected, in lenient mode (the default) it is
+ *   repaired where possible and the problems are logged
  * - All CRUD operations for todos and schedule generation
+ * - Saving and loading the schedule kept for each day
+ * - Saving and loading the user's habit profiles
  */
 
-import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
-import { PublicClientApplication } from "@azure/msal-browser";
+import axios, { AxiosAdapter, AxiosInstance } from "axios";
 import { apiRequest } from "../authConfig";
+import { attachAuth } from "./auth";
+import { sendRequest, RequestOptions } from "./http";
+import { validate, Schema, ValidationMode } from "../types/schema";
+import {
+  todoSchema,
+  todoListSchema,
+  todoBatchResponseSchema,
+  savedScheduleSchema,
+  rawScheduleSchema,
+  wrappedRawScheduleSchema,
+  habitsSchema,
+  habitsSettingsSchema,
+} from "../types/schemas";
 import type {
   Todo,
   CreateTodoRequest,
   UpdateTodoRequest,
   ScheduleItem,
   Habits,
+  GenerateScheduleRequest,
+  SavedSchedule,
+  HabitsSettings,
+  BusyInterval,
+  TodoBatchOperation,
+  TodoBatchResult,
 } from "../types";
+import { toDateKey } from "../utils/dates";
+import { normalizeSchedule, ScheduleValidationError } from "../utils/scheduleModel";
+import { sanitizeHabitsSettings } from "../utils/habits";
+import { sortByPosition } from "../utils/todoOrder";
+import {
+  ApiError,
+  NetworkError,
+  NotFoundError,
+  SessionExpiredError,
+  ValidationError,
+} from "../utils/errors";
 
 // Get backend URL from environment variable or use default
 const API_BASE_URL =
   process.env.REACT_APP_API_URL || "https://todoapi.azurewebsites.net";
 
+// How responses that don't match their schema are handled
+const VALIDATION_MODE: ValidationMode =
+  process.env.REACT_APP_API_VALIDATION === "strict" ? "strict" : "lenient";
+
+// The AI takes a while to plan a day; it gets longer than other calls
+const SCHEDULE_TIMEOUT_MS = 60000;
+
 /**
  * Create an Axios instance with base configuration
  */
@@ -34,142 +76,359 @@ const apiClient: AxiosInstance = axios.create({
 });
 
 /**
- * Initialize API service with MSAL instance for token acquisition
- * @param msalInstance - MSAL instance for authentication
- */
-let msalInstance: PublicClientApplication | null = null;
-
-export const initializeApi = (msalInstanceParam: PublicClientApplication): void => {
-  msalInstance = msalInstanceParam;
-
-  // Add request interceptor to attach JWT token to all API calls
-  apiClient.interceptors.request.use(
-    async (config: InternalAxiosRequestConfig) => {
-      try {
-        // Acquire token silently from MSAL
-        if (!msalInstance) {
-          throw new Error("MSAL instance not initialized");
-        }
-
-        const accounts = msalInstance.getAllAccounts();
-        if (accounts.length === 0) {
-          throw new Error("No user account found");
-        }
-
-        const response = await msalInstance.acquireTokenSilent({
-          ...apiRequest,
-          account: accounts[0],
-        });
-
-        // Attach token to Authorization header
-        config.headers.Authorization = `Bearer ${response.accessToken}`;
-      } catch (error) {
-        console.error("Error acquiring token:", error);
-        // Return config even if token acquisition fails
-        // The backend will handle unauthorized requests
-      }
-      return config;
-    },
-    (error) => {
-      return Promise.reject(error);
-    }
-  );
-
-  // Add response interceptor for error handling
-  apiClient.interceptors.response.use(
-    (response) => response,
-    (error) => {
-      console.error("API Error:", error.response?.data || error.message);
-      return Promise.reject(error);
-    }
-  );
+ * Check a response against its schema
+ * @param schema - Schema of the expected payload
+ * @param data - Response body
+ * @param label - What the payload is, used in the reported issues (e.g. "todos")
+ * @returns The payload, repaired in lenient mode
+ * @throws ValidationError if the payload can't be used, or in strict mode has any issue
+ */
+const parseResponse = <T>(schema: Schema<T>, data: unknown, label: string): T => {
+  const result = validate(schema, data, label);
+  if (!result.ok || (VALIDATION_MODE === "strict" && result.issues.length > 0)) {
+    throw new ValidationError(`Unexpected ${label} from the server`, result.issues);
+  }
+  if (result.issues.length > 0) {
+    console.warn(`Repaired ${label} from the server:`, result.issues);
+  }
+  return result.value;
 };
 
 /**
- * Fetch all todos for the current user
- * @returns Array of todo items
+ * Check a response against its schema like parseResponse, except that in lenient
+ * mode a payload the schema can't repair is passed on as it is, for the caller's
+ * normalizer to repair or reject by its own rules
+ * @returns The parsed payload, or in lenient mode possibly the unchecked one
+ * @throws ValidationError in strict mode, if the payload has any issue
  */
-export const getTodos = async (): Promise<Todo[]> => {
+const parseResponseOrPass = <T>(schema: Schema<T>, data: unknown, label: string): unknown => {
   try {
-    const response = await apiClient.get<Todo[]>("/todos");
-    return response.data || [];
+    return parseResponse(schema, data, label);
   } catch (error) {
-    console.error("Error fetching todos:", error);
-    throw error;
+    if (VALIDATION_MODE === "strict") throw error;
+    console.warn(`Unexpected ${label} from the server, normalizing it instead:`, error);
+    return data;
   }
 };
 
 /**
- * Create a new todo item
- * @param todoData - Todo data { task: string, priority: string, completed: boolean }
+ * Initialize API service: attach tokens for the active account to all API calls
+ * (call initializeAuth first)
+ */
+export const initializeApi = (): void => {
+  attachAuth(apiClient, apiRequest);
+};
+
+/**
+ * Answer API calls with another adapter instead of the backend, e.g. the mock API
+ * @param adapter - Axios adapter that handles every request of the API client
+ */
+export const setApiAdapter = (adapter: AxiosAdapter): void => {
+  apiClient.defaults.adapter = adapter;
+};
+
+/**
+ * Fetch all todos for the current user
+ * @param options - Signal, timeout and retry policy
+ * @returns Array of todo items
+ */
+export const getTodos = async (options: RequestOptions = {}): Promise<Todo[]> => {
+  const todos = await sendRequest<unknown>(apiClient, { method: "get", url: "/todos" }, options);
+  return parseResponse(todoListSchema, todos ?? [], "todos");
+};
+
+/**
+ * Create a new todo item (never retried, so a slow response cannot create it twice)
+ * @param todoData - Todo data { task, priority, completed, parentId?, dueAt?, estimatedMinutes?,
+ *                   recurrence?, tags?, project?, position? }
+ * @param options - Signal, timeout and idempotency key: the server creates one todo per
+ *                  key and answers a repeat with that todo, so a request that got no
+ *                  answer (e.g. timed out) can be sent again with the same key
  * @returns Created todo item with ID
  */
-export const createTodo = async (todoData: CreateTodoRequest): Promise<Todo> => {
-  try {
-    const response = await apiClient.post<Todo>("/todos", {
-      task: todoData.task,
-      priority: todoData.priority,
-      completed: todoData.completed || false,
-    });
-    return response.data;
-  } catch (error) {
-    console.error("Error creating todo:", error);
-    throw error;
-  }
+export const createTodo = async (
+  todoData: CreateTodoRequest,
+  options: RequestOptions & { idempotencyKey?: string } = {}
+): Promise<Todo> => {
+  const { idempotencyKey, ...requestOptions } = options;
+  const todo = await sendRequest<unknown>(
+    apiClient,
+    {
+      method: "post",
+      url: "/todos",
+      headers: idempotencyKey ? { "Idempotency-Key": idempotencyKey } : undefined,
+      data: {
+        task: todoData.task,
+        priority: todoData.priority,
+        completed: todoData.completed || false,
+        completedAt: todoData.completedAt ?? undefined,
+        parentId: todoData.parentId ?? null,
+        dueAt: todoData.dueAt ?? null,
+        estimatedMinutes: todoData.estimatedMinutes ?? null,
+        recurrence: todoData.recurrence ?? null,
+        occurrence: todoData.occurrence,
+        tags: todoData.tags ?? [],
+        project: todoData.project ?? null,
+        position: todoData.position ?? null,
+      },
+    },
+    requestOptions
+  );
+  return parseResponse(todoSchema, todo, "todo");
 };
 
 /**
  * Update an existing todo item (primarily for marking complete/incomplete)
  * @param id - Todo ID
  * @param updateData - Partial todo data to update
+ * @param options - Signal, timeout and retry policy
  * @returns Updated todo item
  */
 export const updateTodo = async (
   id: string,
-  updateData: UpdateTodoRequest
+  updateData: UpdateTodoRequest,
+  options: RequestOptions = {}
 ): Promise<Todo> => {
+  const todo = await sendRequest<unknown>(
+    apiClient,
+    { method: "put", url: `/todos/${id}`, data: updateData },
+    options
+  );
+  return parseResponse(todoSchema, todo, "todo");
+};
+
+/**
+ * Move a todo within the manual order. Only the moved todo is sent; its
+ * siblings keep their positions.
+ * @param id - Todo ID
+ * @param position - New fractional position among its siblings
+ * @param options - Signal, timeout and retry policy
+ * @returns Updated todo item
+ */
+export const reorderTodo = async (
+  id: string,
+  position: number,
+  options: RequestOptions = {}
+): Promise<Todo> => {
+  const todo = await sendRequest<unknown>(
+    apiClient,
+    { method: "patch", url: `/todos/${id}/position`, data: { position } },
+    // Setting an absolute position is safe to repeat
+    { ...options, idempotent: true }
+  );
+  return parseResponse(todoSchema, todo, "todo");
+};
+
+/**
+ * Delete a todo item
+ * @param id - Todo ID
+ * @param options - { cascade: also delete all subtasks below the todo }, plus signal,
+ *                  timeout and retry policy
+ */
+export const deleteTodo = async (
+  id: string,
+  options: { cascade?: boolean } & RequestOptions = {}
+): Promise<void> => {
+  const { cascade, ...requestOptions } = options;
+  await sendRequest<void>(
+    apiClient,
+    { method: "delete", url: `/todos/${id}`, params: cascade ? { cascade: true } : undefined },
+    requestOptions
+  );
+};
+
+// Statuses meaning the backend has no batch endpoint (yet)
+const BATCH_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+/**
+ * Send one operation of a batch on its own, reporting instead of throwing
+ */
+const runBatchOperation = async (
+  operation: TodoBatchOperation,
+  options: RequestOptions
+): Promise<TodoBatchResult> => {
   try {
-    const response = await apiClient.put<Todo>(`/todos/${id}`, updateData);
-    return response.data;
+    if (operation.type === "delete") {
+      await deleteTodo(operation.id, { ...options, cascade: true });
+      return { id: operation.id, ok: true };
+    }
+    const todo = await updateTodo(operation.id, operation.changes, options);
+    return { id: operation.id, ok: true, todo };
   } catch (error) {
-    console.error("Error updating todo:", error);
-    throw error;
+    return {
+      id: operation.id,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+      offline: error instanceof NetworkError || error instanceof SessionExpiredError,
+      cause: error,
+    };
   }
 };
 
 /**
- * Delete a todo item
- * @param id - Todo ID
+ * Apply several todo changes in one request
+ * Falls back to sending the operations individually (in parallel) when the
+ * backend has no batch endpoint. Either way every operation gets its own result,
+ * so a partly failed batch can be reported item by item.
+ * @param operations - Updates and (cascading) deletes
+ * @param options - Signal and timeout
+ * @returns One result per operation, in the same order
+ * @throws When the batch request itself cannot reach the backend
  */
-export const deleteTodo = async (id: string): Promise<void> => {
+export const batchTodos = async (
+  operations: TodoBatchOperation[],
+  options: RequestOptions = {}
+): Promise<TodoBatchResult[]> => {
+  if (operations.length === 0) return [];
+
   try {
-    await apiClient.delete(`/todos/${id}`);
+    const data = await sendRequest<unknown>(
+      apiClient,
+      { method: "post", url: "/todos/batch", data: { operations } },
+      options
+    );
+    const { results = [] } = parseResponse(todoBatchResponseSchema, data ?? {}, "batch results");
+    return operations.map(
+      (operation, index) =>
+        results.find((result) => result.id === operation.id) ??
+        results[index] ?? { id: operation.id, ok: false, error: "No result returned" }
+    );
   } catch (error) {
-    console.error("Error deleting todo:", error);
+    const status = error instanceof ApiError ? error.status : undefined;
+    if (status !== undefined && BATCH_UNSUPPORTED_STATUSES.includes(status)) {
+      return Promise.all(operations.map((operation) => runBatchOperation(operation, options)));
+    }
     throw error;
   }
 };
 
 /**
  * Generate AI-powered daily schedule
- * @param todos - Array of todo items
- * @param habits - User habits object (work hours, break preferences, etc.)
- * @returns Generated schedule [ { time, task, duration, breakDuration } ]
+ * @param todos - Array of todo items (including dueAt and estimatedMinutes); they are sent
+ *                in manual order, which breaks ties within a priority
+ * @param habits - Habits active on the day (work hours or periods, break preferences, etc.)
+ * @param date - Day to schedule (defaults to today)
+ * @param profile - Name of the habit profile the habits come from
+ * @param busy - Calendar meetings to keep free (HH:MM, local time)
+ * @param options - Signal to cancel a generation that is no longer wanted, timeout
+ *                  (one minute by default) and retry policy
+ * @returns Validated schedule [ { start, end, durationMinutes, task, kind, todoId? } ]
+ * @throws ScheduleValidationError if the AI response is malformed, or any of its
+ *         items is: in either validation mode, the schedule is used whole or not at all
  */
 export const generateSchedule = async (
   todos: Todo[],
-  habits: Habits
+  habits: Habits,
+  date: Date = new Date(),
+  profile?: string,
+  busy: BusyInterval[] = [],
+  options: RequestOptions = {}
 ): Promise<ScheduleItem[]> => {
+  const request: GenerateScheduleRequest = {
+    todos: sortByPosition(todos),
+    habits,
+    profile,
+    busy,
+    date: toDateKey(date),
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+  // Generating changes nothing on the server, so it is safe to retry (once: it is slow)
+  const data = await sendRequest<unknown>(
+    apiClient,
+    { method: "post", url: "/schedule", data: request },
+    { timeoutMs: SCHEDULE_TIMEOUT_MS, retry: { retries: 1 }, ...options, idempotent: true }
+  );
+  const response = data ?? [];
+  try {
+    const schema: Schema<unknown> = Array.isArray(response)
+      ? rawScheduleSchema
+      : wrappedRawScheduleSchema;
+    return normalizeSchedule(parseResponseOrPass(schema, response, "schedule"), todos);
+  } catch (error) {
+    // However it was found, a malformed schedule is reported the same way
+    if (error instanceof ValidationError && !(error instanceof ScheduleValidationError)) {
+      throw new ScheduleValidationError(error.issues);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Fetch the schedule saved for a day
+ * @param date - Day key (YYYY-MM-DD)
+ * @param options - Signal, timeout and retry policy
+ * @returns The saved schedule, or null if none has been saved for that day
+ */
+export const getSchedule = async (
+  date: string,
+  options: RequestOptions = {}
+): Promise<SavedSchedule | null> => {
   try {
-    const response = await apiClient.post<ScheduleItem[]>("/schedule", {
-      todos,
-      habits,
-    });
-    return response.data || [];
+    const saved = await sendRequest<unknown>(
+      apiClient,
+      { method: "get", url: `/schedules/${date}` },
+      options
+    );
+    if (!saved || typeof saved !== "object") return null;
+    // The day in the URL is the one that counts
+    return parseResponse(savedScheduleSchema, { ...saved, date }, "saved schedule");
   } catch (error) {
-    console.error("Error generating schedule:", error);
+    if (error instanceof NotFoundError) {
+      return null;
+    }
     throw error;
   }
 };
 
+/**
+ * Save the schedule for a day, replacing any earlier version
+ * @param saved - Schedule with its day key, source and edited flag
+ * @param options - Signal, timeout and retry policy
+ * @returns The schedule as stored by the backend
+ */
+export const saveSchedule = async (
+  saved: SavedSchedule,
+  options: RequestOptions = {}
+): Promise<SavedSchedule> => {
+  const stored = await sendRequest<unknown>(
+    apiClient,
+    { method: "put", url: `/schedules/${saved.date}`, data: saved },
+    options
+  );
+  return stored ? parseResponse(savedScheduleSchema, stored, "saved schedule") : saved;
+};
+
+/**
+ * Fetch the current user's saved habit settings
+ * Settings saved before profiles existed (a single Habits object) are upgraded.
+ * @param options - Signal, timeout and retry policy
+ * @returns The settings, or null if the user has not saved any yet
+ */
+export const getHabits = async (options: RequestOptions = {}): Promise<HabitsSettings | null> => {
+  try {
+    const data = await sendRequest<unknown>(apiClient, { method: "get", url: "/habits" }, options);
+    if (!data || typeof data !== "object") return null;
+    // Settings saved before profiles existed are a single Habits object
+    const schema: Schema<unknown> = "profiles" in data ? habitsSettingsSchema : habitsSchema;
+    return sanitizeHabitsSettings(parseResponseOrPass(schema, data, "habit settings"));
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Save the current user's habit settings (profiles and weekday overrides)
+ * @param settings - Validated settings
+ * @param options - Signal, timeout and retry policy
+ */
+export const saveHabits = async (
+  settings: HabitsSettings,
+  options: RequestOptions = {}
+): Promise<void> => {
+  await sendRequest<void>(apiClient, { method: "put", url: "/habits", data: settings }, options);
+};
+
 export default apiClient;
@@ -0,0 +1,346 @@
+/**
+ * Auth Service
+ *
+ * Sign-in and access tokens for the backend API and Microsoft Graph, on top of
+ * the configured identity provider (Azure Entra ID via MSAL, a generic OIDC
+ * provider, or the mock provider used in development):
+ * - Tokens are acquired silently for the active account; when the provider needs
+ *   the user (expired session, missing consent) it is asked to sign them in
+ *   interactively, unless the caller asked for silent tokens only
+ * - Concurrent requests for the same token share a single acquisition, and only
+ *   one interactive sign-in runs at a time
+ * - Axios clients get the token attached, and a request answered with 401 is
+ *   retried once with a freshly acquired token
+ * - Several accounts can be signed in; one of them is active
+ *
+ * When no token can be obtained the session counts as expired: requests fail
+ * with SessionExpiredError, listeners are told so the UI can ask the user to
+ * sign in again, and no further sign-in windows are opened until they do.
+ */
+
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import type {
+  ApiRequest,
+  AuthAccount,
+  AuthProvider,
+  AuthProviderKind,
+  LoginRequest,
+} from "../types";
+import { AuthError, NetworkError, SessionExpiredError } from "../utils/errors";
+
+/**
+ * Raised by a provider when a token cannot be issued without the user taking part
+ */
+export class InteractionRequiredError extends Error {
+  constructor(message = "Sign-in requires user interaction") {
+    super(message);
+    this.name = "InteractionRequiredError";
+  }
+}
+
+interface AuthRetryConfig extends InternalAxiosRequestConfig {
+  authRetried?: boolean;
+}
+
+type AuthListener = () => void;
+
+let provider: AuthProvider | null = null;
+let sessionExpired = false;
+const pendingTokens = new Map<string, Promise<string>>();
+const sessionListeners = new Set<AuthListener>();
+const accountListeners = new Set<AuthListener>();
+let interactionQueue: Promise<unknown> = Promise.resolve();
+
+const getProvider = (): AuthProvider => {
+  if (!provider) {
+    throw new Error("Auth provider not initialized");
+  }
+  return provider;
+};
+
+const notifyAccountChange = (): void => {
+  accountListeners.forEach((listener) => listener());
+};
+
+/**
+ * Initialize the auth service with the configured identity provider
+ * Completes a sign-in the provider redirected back from, so call it before rendering.
+ * @param authProvider - Provider used for sign-in and tokens
+ */
+export const initializeAuth = async (authProvider: AuthProvider): Promise<void> => {
+  provider = authProvider;
+  await authProvider.initialize();
+  notifyAccountChange();
+};
+
+/**
+ * Which provider the app signs in with, e.g. for the sign-in button
+ */
+export const getAuthProviderInfo = (): { kind: AuthProviderKind; displayName: string } => {
+  const { kind, displayName } = getProvider();
+  return { kind, displayName };
+};
+
+/**
+ * All signed-in accounts
+ */
+export const getAccounts = (): AuthAccount[] => getProvider().getAccounts();
+
+/**
+ * The account requests are made for: the one the user picked, or else the
+ * first signed-in account
+ */
+export const getActiveAccount = (): AuthAccount | null => {
+  const authProvider = getProvider();
+  const active = authProvider.getActiveAccount();
+  if (active) return active;
+
+  const [first] = authProvider.getAccounts();
+  if (first) {
+    authProvider.setActiveAccount(first);
+  }
+  return first ?? null;
+};
+
+/**
+ * Make another signed-in account the active one
+ */
+export const setActiveAccount = (account: AuthAccount): void => {
+  getProvider().setActiveAccount(account);
+  notifyAccountChange();
+};
+
+/**
+ * Subscribe to accounts signing in or out and to the active account changing
+ * @returns Unsubscribe function
+ */
+export const subscribeToAccounts = (listener: AuthListener): (() => void) => {
+  accountListeners.add(listener);
+  return () => {
+    accountListeners.delete(listener);
+  };
+};
+
+/**
+ * Sign in from the login page
+ * @param request - Login scopes
+ */
+export const signIn = async (request: LoginRequest): Promise<void> => {
+  setActiveAccount(await getProvider().login(request));
+  sessionExpired = false;
+};
+
+/**
+ * Sign in with an additional account, letting the user pick which one
+ * @param request - Login scopes
+ * @returns The account that was signed in
+ */
+export const addAccount = async (request: LoginRequest): Promise<AuthAccount> => {
+  const account = await getProvider().login(request, { selectAccount: true });
+  notifyAccountChange();
+  return account;
+};
+
+/**
+ * Sign an account out
+ */
+export const signOut = async (account: AuthAccount): Promise<void> => {
+  await getProvider().logout(account);
+  notifyAccountChange();
+};
+
+/**
+ * Subscribe to the session expiring
+ * @param listener - Called whenever a request fails for lack of a token
+ * @returns Unsubscribe function
+ */
+export const subscribeToSessionExpired = (listener: AuthListener): (() => void) => {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+};
+
+/**
+ * Whether the user has to sign in again before requests can succeed
+ */
+export const isSessionExpired = (): boolean => sessionExpired;
+
+const expireSession = (): void => {
+  sessionExpired = true;
+  sessionListeners.forEach((listener) => listener());
+};
+
+/**
+ * Run interactive acquisitions one after another; a sign-in that was already
+ * completed for an earlier caller usually lets the next one succeed silently
+ */
+const acquireTokenWithInteraction = (
+  request: ApiRequest,
+  account: AuthAccount
+): Promise<string> => {
+  const authProvider = getProvider();
+  const run = interactionQueue.then(async () => {
+    try {
+      return await authProvider.acquireTokenSilent(request, account, false);
+    } catch (error) {
+      if (!(error instanceof InteractionRequiredError)) throw error;
+    }
+    return authProvider.acquireTokenInteractive(request, account);
+  });
+  interactionQueue = run.catch(() => undefined);
+  return run;
+};
+
+const requestToken = async (
+  request: ApiRequest,
+  forceRefresh: boolean,
+  interactive: boolean
+): Promise<string> => {
+  const account = getActiveAccount();
+  if (!account) {
+    throw new SessionExpiredError("No signed-in account");
+  }
+
+  try {
+    return await getProvider().acquireTokenSilent(request, account, forceRefresh);
+  } catch (error) {
+    if (!(error instanceof InteractionRequiredError) || !interactive) throw error;
+  }
+
+  // Once expired, wait for the user to sign in again rather than opening
+  // a window for every background request
+  if (sessionExpired) {
+    throw new SessionExpiredError();
+  }
+  try {
+    return await acquireTokenWithInteraction(request, account);
+  } catch (error) {
+    console.error("Interactive sign-in failed:", error);
+    throw new SessionExpiredError();
+  }
+};
+
+/**
+ * Get an access token for the active account
+ * Concurrent calls for the same scopes share one acquisition.
+ * @param request - Scopes the token is for
+ * @param options - { forceRefresh: skip the token cache, e.g. after a 401;
+ *                  interactive: false to never open a sign-in window }
+ * @throws SessionExpiredError if the user has to sign in again
+ * @throws InteractionRequiredError if interactive is false and the user has to take part
+ */
+export const getAccessToken = (
+  request: ApiRequest,
+  options: { forceRefresh?: boolean; interactive?: boolean } = {}
+): Promise<string> => {
+  const { forceRefresh = false, interactive = true } = options;
+  const account = getActiveAccount();
+  const key = [
+    account?.id ?? "",
+    request.scopes.join(" "),
+    forceRefresh ? "refresh" : "",
+    interactive ? "" : "silent",
+  ].join("|");
+
+  let pending = pendingTokens.get(key);
+  if (!pending) {
+    pending = requestToken(request, forceRefresh, interactive).finally(() =>
+      pendingTokens.delete(key)
+    );
+    pendingTokens.set(key, pending);
+  }
+  return pending;
+};
+
+/**
+ * Sign in again after the session expired, e.g. from a "Sign in" button
+ * (a popup opened from a click is not blocked)
+ * @param request - Scopes to get a token for
+ */
+export const renewSession = async (request: ApiRequest): Promise<void> => {
+  const account = getActiveAccount();
+  if (account) {
+    await getProvider().acquireTokenInteractive(request, account);
+  } else {
+    setActiveAccount(await addAccount(request));
+  }
+  sessionExpired = false;
+};
+
+/**
+ * Ask the user to grant scopes the active account has not consented to yet,
+ * e.g. from a "Connect calendar" button (a popup opened from a click is not blocked)
+ * @param request - Scopes to consent to
+ */
+export const grantConsent = async (request: ApiRequest): Promise<void> => {
+  const account = getActiveAccount();
+  if (!account) {
+    throw new SessionExpiredError("No signed-in account");
+  }
+  await acquireTokenWithInteraction(request, account);
+};
+
+/**
+ * Authenticate the requests of an Axios client
+ * Each request carries a bearer token; one answered with 401 is sent once more
+ * with a token fresh from the identity provider. A request no token can be had for
+ * fails without being sent: with NetworkError when offline, AuthError otherwise.
+ * @param client - Axios instance to authenticate
+ * @param request - Scopes to request tokens for
+ * @param options - { reportExpiry: tell session listeners when this client cannot
+ *                  get a token (off for optional services such as the calendar);
+ *                  interactive: false to fail requests with InteractionRequiredError
+ *                  instead of opening a sign-in window (for background requests) }
+ */
+export const attachAuth = (
+  client: AxiosInstance,
+  request: ApiRequest,
+  options: { reportExpiry?: boolean; interactive?: boolean } = {}
+): void => {
+  const { reportExpiry = true, interactive = true } = options;
+  const fail = (error: SessionExpiredError): never => {
+    if (reportExpiry) {
+      expireSession();
+    }
+    throw error;
+  };
+
+  client.interceptors.request.use(async (config: AuthRetryConfig) => {
+    try {
+      const token = await getAccessToken(request, {
+        forceRefresh: config.authRetried,
+        interactive,
+      });
+      config.headers.Authorization = `Bearer ${token}`;
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        fail(error);
+      }
+      if (error instanceof InteractionRequiredError) {
+        throw error;
+      }
+      // Never send the request without a token
+      console.error("Error acquiring token:", error);
+      throw navigator.onLine
+        ? new AuthError("Couldn't get a sign-in token")
+        : new NetworkError();
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => response,
+    async (error) => {
+      const config = axios.isAxiosError(error) ? (error.config as AuthRetryConfig) : undefined;
+      if (!config || !axios.isAxiosError(error) || error.response?.status !== 401) {
+        throw error;
+      }
+      if (config.authRetried) {
+        return fail(new SessionExpiredError());
+      }
+      config.authRetried = true;
+      return client.request(config);
+    }
+  );
+};
@@ -0,0 +1,140 @@
+/**
+ * Graph Client Tests
+ *
+ * Calendar fetches run in the background, so they must never open a sign-in
+ * window: without consent they fail and the user connects the calendar instead.
+ */
+
+import { AxiosError, AxiosAdapter } from "axios";
+import { loginRequest } from "../authConfig";
+import { InteractionRequiredError, initializeAuth, isSessionExpired, signIn } from "./auth";
+import { createMockAuthProvider } from "./mockAuthProvider";
+import { AuthError, NetworkError, TimeoutError } from "../utils/errors";
+import graphClient, { connectCalendar, getCalendarEvents, initializeGraph } from "./graphClient";
+import type { AuthProvider } from "../types";
+
+let calendarConsent = false;
+let interactiveSignIns = 0;
+let authorizations: string[] = [];
+// Makes every token request fail, e.g. as if the identity provider were down
+let tokenFailure: Error | null = null;
+
+/**
+ * The mock provider, but Calendars.Read needs consent given in a sign-in window
+ */
+const createConsentingProvider = (): AuthProvider => {
+  const provider = createMockAuthProvider();
+  return {
+    ...provider,
+    acquireTokenSilent: (request, account, forceRefresh) => {
+      if (tokenFailure) {
+        return Promise.reject(tokenFailure);
+      }
+      if (request.scopes.includes("Calendars.Read") && !calendarConsent) {
+        return Promise.reject(new InteractionRequiredError("Consent required"));
+      }
+      return provider.acquireTokenSilent(request, account, forceRefresh);
+    },
+    acquireTokenInteractive: (request, account) => {
+      interactiveSignIns += 1;
+      calendarConsent = true;
+      return provider.acquireTokenInteractive(request, account);
+    },
+  };
+};
+
+const calendarAdapter: AxiosAdapter = async (config) => {
+  authorizations.push(String(config.headers?.Authorization ?? ""));
+  return {
+    data: {
+      value: [
+        {
+          id: "standup",
+          subject: "Standup",
+          start: { dateTime: "2026-10-19T09:30:00.0000000", timeZone: "Europe/Amsterdam" },
+          end: { dateTime: "2026-10-19T10:00:00.0000000", timeZone: "Europe/Amsterdam" },
+          showAs: "busy",
+        },
+      ],
+    },
+    status: 200,
+    statusText: "OK",
+    headers: {},
+    config,
+    request: {},
+  };
+};
+
+beforeAll(async () => {
+  await initializeAuth(createConsentingProvider());
+  await signIn(loginRequest);
+  initializeGraph();
+  graphClient.defaults.adapter = calendarAdapter;
+});
+
+beforeEach(() => {
+  calendarConsent = false;
+  interactiveSignIns = 0;
+  authorizations = [];
+  tokenFailure = null;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("getCalendarEvents", () => {
+  it("fails without opening a sign-in window when calendar access is missing", async () => {
+    await expect(getCalendarEvents(new Date(2026, 9, 19))).rejects.toBeInstanceOf(
+      InteractionRequiredError
+    );
+
+    expect(interactiveSignIns).toBe(0);
+    expect(authorizations).toEqual([]);
+    expect(isSessionExpired()).toBe(false);
+  });
+
+  it("fetches the day's events once the user has connected the calendar", async () => {
+    await connectCalendar();
+
+    await expect(getCalendarEvents(new Date(2026, 9, 19))).resolves.toEqual([
+      { id: "standup", subject: "Standup", start: 570, end: 600, showAs: "busy", isAllDay: false },
+    ]);
+    expect(interactiveSignIns).toBe(1);
+    expect(authorizations).toEqual([expect.stringMatching(/^Bearer /)]);
+  });
+
+  it.each([
+    [true, AuthError],
+    [false, NetworkError],
+  ])("never sends a request without a token (online: %s)", async (onLine, errorType) => {
+    await connectCalendar();
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.spyOn(navigator, "onLine", "get").mockReturnValue(onLine);
+    tokenFailure = new Error("Token endpoint unreachable");
+
+    await expect(getCalendarEvents(new Date(2026, 9, 19))).rejects.toBeInstanceOf(errorType);
+    expect(authorizations).toEqual([]);
+    expect(isSessionExpired()).toBe(false);
+  });
+
+  it("gives up on a request that hangs instead of holding up the schedule", async () => {
+    await connectCalendar();
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    let timeout: number | undefined;
+    // Fails the way axios does once the request's timeout has passed
+    graphClient.defaults.adapter = async (config) => {
+      timeout = config.timeout;
+      throw new AxiosError("timeout exceeded", "ECONNABORTED", config);
+    };
+
+    try {
+      await expect(getCalendarEvents(new Date(2026, 9, 19))).rejects.toBeInstanceOf(
+        TimeoutError
+      );
+    } finally {
+      graphClient.defaults.adapter = calendarAdapter;
+    }
+    expect(timeout).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Microsoft Graph Client
+ *
+ * Reads the signed-in user's Outlook calendar so schedules can be planned
+ * around their meetings. It handles:
+ * - Acquiring a Calendars.Read token for the active account through the auth
+ *   service, silently only: calendar fetches run in the background, so when
+ *   consent is still needed they fail with InteractionRequiredError and the
+ *   user connects the calendar with connectCalendar
+ * - Fetching a day's events from /me/calendarView, following paging links, with
+ *   a timeout so a hung request can't hold up schedule generation (see ./http)
+ * - Converting events to local minutes since midnight, clipped to that day
+ *
+ * Set REACT_APP_GRAPH_URL to point at a local mock server during development
+ * (see scripts/mock-graph-server.js).
+ */
+
+import axios, { AxiosInstance } from "axios";
+import { graphRequest } from "../authConfig";
+import { attachAuth, grantConsent } from "./auth";
+import { sendRequest } from "./http";
+import type { CalendarEvent, CalendarShowAs } from "../types";
+
+const GRAPH_BASE_URL = process.env.REACT_APP_GRAPH_URL || "https://graph.microsoft.com/v1.0";
+
+// Guards against runaway paging on very busy calendars
+const MAX_PAGES = 5;
+// Schedules wait for the calendar, which is optional: give up on it rather soon
+const CALENDAR_TIMEOUT_MS = 10000;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * An event as returned by /me/calendarView
+ */
+interface GraphEvent {
+  id: string;
+  subject?: string | null;
+  start: { dateTime: string; timeZone: string };
+  end: { dateTime: string; timeZone: string };
+  showAs?: string;
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+}
+
+interface GraphEventPage {
+  value: GraphEvent[];
+  "@odata.nextLink"?: string;
+}
+
+const SHOW_AS_VALUES: CalendarShowAs[] = [
+  "free",
+  "tentative",
+  "busy",
+  "oof",
+  "workingElsewhere",
+  "unknown",
+];
+
+const graphClient: AxiosInstance = axios.create({
+  baseURL: GRAPH_BASE_URL,
+});
+
+/**
+ * Initialize the Graph client: attach Calendars.Read tokens for the active account
+ * The calendar is optional, so failing to get a token does not expire the session;
+ * the fetch fails and the calendar is skipped.
+ */
+export const initializeGraph = (): void => {
+  attachAuth(graphClient, graphRequest, { reportExpiry: false, interactive: false });
+};
+
+/**
+ * Let the user grant calendar access; call from a click so the popup is not blocked
+ */
+export const connectCalendar = (): Promise<void> => grantConsent(graphRequest);
+
+/**
+ * Parse a Graph dateTime (local wall-clock time, no offset) into a Date
+ */
+const parseGraphDateTime = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  return new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+    Number(match[4]),
+    Number(match[5])
+  );
+};
+
+/**
+ * Convert a Graph event to a CalendarEvent clipped to the given day
+ * @returns The event, or null if it is cancelled, malformed or outside the day
+ */
+const toCalendarEvent = (event: GraphEvent, dayStart: Date): CalendarEvent | null => {
+  if (event.isCancelled) return null;
+  const start = parseGraphDateTime(event.start?.dateTime ?? "");
+  const end = parseGraphDateTime(event.end?.dateTime ?? "");
+  if (!start || !end) return null;
+
+  const toMinutes = (date: Date): number =>
+    Math.round((date.getTime() - dayStart.getTime()) / 60000);
+  const startMinutes = Math.max(0, toMinutes(start));
+  const endMinutes = Math.min(MINUTES_PER_DAY, toMinutes(end));
+  if (endMinutes <= startMinutes) return null;
+
+  const showAs = SHOW_AS_VALUES.find((value) => value === event.showAs) ?? "unknown";
+  return {
+    id: event.id,
+    subject: event.subject?.trim() || "Busy",
+    start: startMinutes,
+    end: endMinutes,
+    showAs,
+    isAllDay: Boolean(event.isAllDay),
+  };
+};
+
+/**
+ * Fetch the signed-in user's calendar events for a day
+ * @param date - Any time on the day to fetch
+ * @returns Events in start order, in local time, clipped to the day
+ * @throws InteractionRequiredError if the user has not given calendar access yet,
+ *         otherwise an error from utils/errors (e.g. TimeoutError)
+ */
+export const getCalendarEvents = async (date: Date): Promise<CalendarEvent[]> => {
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayStart.getDate() + 1);
+
+  const events: CalendarEvent[] = [];
+  let url: string | undefined = "/me/calendarView";
+  let params: Record<string, string> | undefined = {
+    startDateTime: dayStart.toISOString(),
+    endDateTime: dayEnd.toISOString(),
+    $select: "id,subject,start,end,showAs,isAllDay,isCancelled",
+    $orderby: "start/dateTime",
+    $top: "50",
+  };
+
+  for (let page = 0; url && page < MAX_PAGES; page += 1) {
+    // Failures are logged by sendRequest
+    const data: GraphEventPage = await sendRequest<GraphEventPage>(
+      graphClient,
+      {
+        method: "get",
+        url,
+        params,
+        headers: {
+          Prefer: `outlook.timezone="${Intl.DateTimeFormat().resolvedOptions().timeZone}"`,
+        },
+      },
+      { timeoutMs: CALENDAR_TIMEOUT_MS, retry: false }
+    );
+    (data.value ?? []).forEach((event) => {
+      const calendarEvent = toCalendarEvent(event, dayStart);
+      if (calendarEvent) {
+        events.push(calendarEvent);
+      }
+    });
+    // nextLink already carries the query
+    url = data["@odata.nextLink"];
+    params = undefined;
+  }
+
+  return events.sort((a, b) => a.start - b.start || a.end - b.end);
+};
+
+export default graphClient;
@@ -0,0 +1,56 @@
+/**
+ * Habits Store
+ *
+ * Caches the user's habit settings in localStorage so the questionnaire is filled
+ * in straight away, even offline, and remembers whether the backend has them yet.
+ */
+
+import type { CachedHabits, HabitsSettings } from "../types";
+import { sanitizeHabitsSettings } from "../utils/habits";
+
+const HABITS_KEY = "dayforge:habits";
+
+/**
+ * Load the cached habit settings
+ * Caches written before profiles existed hold a single Habits object instead.
+ * @returns The cached settings, or null if there are none or they are invalid
+ */
+export const loadCachedHabits = (): CachedHabits | null => {
+  try {
+    const raw = window.localStorage.getItem(HABITS_KEY);
+    if (!raw) return null;
+    const cached = JSON.parse(raw) as CachedHabits & { habits?: unknown };
+    const settings = sanitizeHabitsSettings(cached?.settings ?? cached?.habits);
+    return settings
+      ? { settings, updatedAt: cached.updatedAt, synced: Boolean(cached.synced) }
+      : null;
+  } catch (error) {
+    console.error("Error loading cached habits:", error);
+    return null;
+  }
+};
+
+/**
+ * Cache habit settings on this device
+ * @param settings - Validated settings
+ * @param synced - Whether the backend already has this version
+ */
+export const cacheHabits = (settings: HabitsSettings, synced: boolean): void => {
+  const cached: CachedHabits = { settings, updatedAt: new Date().toISOString(), synced };
+  try {
+    window.localStorage.setItem(HABITS_KEY, JSON.stringify(cached));
+  } catch (error) {
+    console.error("Error caching habits:", error);
+  }
+};
+
+/**
+ * Remove the cached habit settings, e.g. when signing out
+ */
+export const clearCachedHabits = (): void => {
+  try {
+    window.localStorage.removeItem(HABITS_KEY);
+  } catch (error) {
+    console.error("Error clearing cached habits:", error);
+  }
+};
@@ -0,0 +1,217 @@
+/**
+ * HTTP Helpers
+ *
+ * Sends requests for the API service layer:
+ * - Axios failures are turned into the typed errors of utils/errors
+ * - Every request has a timeout, and can be cancelled with an AbortSignal
+ * - Idempotent requests are retried with exponential backoff (with jitter) after
+ *   network failures, timeouts, 429 and 502-504; a Retry-After header is honoured
+ * - Failures are logged once, after the last attempt
+ */
+
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import {
+  ApiError,
+  AuthError,
+  CancelledError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from "../utils/errors";
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Per-request options of the API functions
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Overrides of the default retry policy, or false to never retry
+  retry?: Partial<RetryPolicy> | false;
+}
+
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+// A longer Retry-After is reported to the caller instead of waited out
+const MAX_RETRY_AFTER_MS = 30000;
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+/**
+ * Read a Retry-After header: a number of seconds or an HTTP date
+ * @returns Milliseconds to wait, or null if there is no usable value
+ */
+export const parseRetryAfter = (value: unknown, now: number = Date.now()): number | null => {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Problems listed in an error response: ASP.NET-style { errors: { field: [...] } },
+ * { errors: [...] }, or a single message/detail/title
+ */
+const readIssues = (data: unknown): string[] => {
+  if (typeof data === "string") return data.trim() ? [data.trim()] : [];
+  if (!data || typeof data !== "object") return [];
+
+  const body = data as Record<string, unknown>;
+  if (Array.isArray(body.errors)) {
+    return body.errors
+      .map((issue) =>
+        typeof issue === "string" ? issue : (issue as { message?: unknown })?.message
+      )
+      .filter((issue): issue is string => typeof issue === "string");
+  }
+  if (body.errors && typeof body.errors === "object") {
+    return Object.entries(body.errors as Record<string, unknown>).flatMap(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages])
+        .filter((message): message is string => typeof message === "string")
+        .map((message) => (field ? `${field}: ${message}` : message))
+    );
+  }
+  const message = [body.detail, body.message, body.title].find(
+    (candidate): candidate is string => typeof candidate === "string" && !!candidate
+  );
+  return message ? [message] : [];
+};
+
+/**
+ * Turn a failed Axios request into a typed error; other errors are passed on as is
+ */
+export const toApiError = (error: unknown): Error => {
+  if (axios.isCancel(error)) {
+    return new CancelledError();
+  }
+  if (!axios.isAxiosError(error)) {
+    return error instanceof Error ? error : new ApiError(String(error));
+  }
+
+  const { response } = error;
+  if (!response) {
+    return error.code === "ECONNABORTED" || error.code === "ETIMEDOUT"
+      ? new TimeoutError()
+      : new NetworkError(error.message || undefined);
+  }
+
+  const { status } = response;
+  if (status === 400 || status === 422) {
+    const issues = readIssues(response.data);
+    return new ValidationError(issues[0] ?? `Invalid request (${status})`, issues, status);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthError(status === 401 ? "Not signed in" : "Not allowed", status);
+  }
+  if (status === 404) {
+    return new NotFoundError();
+  }
+  if (status === 429) {
+    return new RateLimitError(parseRetryAfter(response.headers?.["retry-after"]));
+  }
+  if (status >= 500) {
+    return new ServerError(status);
+  }
+  return new ApiError(`Request failed with status ${status}`, status);
+};
+
+/**
+ * How long to wait before retrying after an error, or null to give up
+ */
+const getRetryDelay = (error: Error, attempt: number, policy: RetryPolicy): number | null => {
+  if (attempt >= policy.retries) return null;
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const jittered = backoff / 2 + (Math.random() * backoff) / 2;
+  if (error instanceof RateLimitError) {
+    const delay = error.retryAfterMs ?? jittered;
+    return delay <= MAX_RETRY_AFTER_MS ? delay : null;
+  }
+  // Offline, the sync layer queues the change; retrying would only delay that
+  if (error instanceof NetworkError) {
+    return navigator.onLine ? jittered : null;
+  }
+  if (error instanceof ServerError && RETRYABLE_STATUSES.includes(error.status ?? 0)) {
+    return jittered;
+  }
+  return null;
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    let timer = 0;
+    const handleAbort = (): void => {
+      window.clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    timer = window.setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  });
+
+/**
+ * Send a request, retrying it if it is idempotent and failed transiently
+ * @param client - Axios instance to send it with
+ * @param config - Method, URL, data and params
+ * @param options - Signal, timeout and retry policy; idempotent marks a POST or PATCH
+ *                  as safe to repeat (GET, PUT and DELETE always are)
+ * @returns The response body
+ * @throws An error from utils/errors (or one raised by an interceptor, such as
+ *         SessionExpiredError)
+ */
+export const sendRequest = async <T>(
+  client: AxiosInstance,
+  config: AxiosRequestConfig,
+  options: RequestOptions & { idempotent?: boolean } = {}
+): Promise<T> => {
+  const method = (config.method ?? "get").toLowerCase();
+  const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+  const policy: RetryPolicy =
+    options.retry === false || !idempotent
+      ? { ...DEFAULT_RETRY_POLICY, retries: 0 }
+      : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      const response = await client.request<T>({
+        ...config,
+        signal: options.signal,
+        timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = toApiError(error);
+      const delay = getRetryDelay(apiError, attempt, policy);
+      if (delay === null) {
+        if (!(apiError instanceof CancelledError)) {
+          console.error(`API ${method.toUpperCase()} ${config.url} failed:`, apiError);
+        }
+        throw apiError;
+      }
+      await wait(delay, options.signal);
+    }
+  }
+};
@@ -0,0 +1,32 @@
+/**
+ * Local Data
+ *
+ * Everything this device keeps for the signed-in user: the todo snapshot and
+ * outbox, stored schedules and cached habits. None of it is tagged with an
+ * account, so it is cleared before another account takes over.
+ */
+
+import { clearLocalTodos, getPendingTodoIds } from "./todoSync";
+import { clearStoredSchedules, getUnsyncedDates } from "./scheduleStore";
+import { clearCachedHabits, loadCachedHabits } from "./habitsStore";
+
+/**
+ * Whether any change made on this device has not reached the backend yet
+ */
+export const hasUnsyncedChanges = async (): Promise<boolean> => {
+  const cachedHabits = loadCachedHabits();
+  return (
+    (await getPendingTodoIds()).length > 0 ||
+    getUnsyncedDates().length > 0 ||
+    (cachedHabits !== null && !cachedHabits.synced)
+  );
+};
+
+/**
+ * Remove all of the user's data from this device
+ */
+export const clearLocalData = async (): Promise<void> => {
+  clearStoredSchedules();
+  clearCachedHabits();
+  await clearLocalTodos();
+};
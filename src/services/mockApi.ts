@@ -0,0 +1,613 @@
+/**
+ * Mock API
+ *
+ * An in-process stand-in for the DayForge backend, plugged into the API client
+ * as an Axios adapter, so the app runs and is tested without todoapi.azurewebsites.net:
+ * - /todos CRUD (including cascading deletes, reordering and batches), the
+ *   /schedule generator, saved /schedules/{date} and /habits
+ * - Data lives in memory, seeded from fixtures (see createSampleTodos)
+ * - Requests need a bearer token, as the real backend does; tokens are not checked
+ * - Fault injection: latency, and failures with any status (401, 500, ...) or as
+ *   if the server were unreachable, for chosen methods and paths
+ * - A request that times out is still handled once its delay is up, as a real
+ *   server may do, so the client can't tell whether it took effect
+ * - POST /todos with an Idempotency-Key header creates one todo per key and
+ *   answers a repeat with that todo
+ * - Every request is recorded, so tests can check what the app sent
+ *
+ * Set REACT_APP_MOCK_API=true to use it with npm start; the running instance is
+ * then available as window.mockApi for injecting faults from the console.
+ */
+
+import { AxiosAdapter, AxiosError, AxiosResponse, CanceledError } from "axios";
+import type {
+  CalendarEvent,
+  CreateTodoRequest,
+  GenerateScheduleRequest,
+  HabitsSettings,
+  RawScheduleItem,
+  SavedSchedule,
+  Todo,
+  TodoBatchOperation,
+  TodoBatchResult,
+  UpdateTodoRequest,
+} from "../types";
+import { buildLocalSchedule } from "../utils/scheduleEngine";
+import { formatClockTime, parseTimeOfDay } from "../utils/scheduleModel";
+import { getDescendantIds } from "../utils/todoTree";
+import { POSITION_STEP } from "../utils/todoOrder";
+
+/**
+ * A request as the mock API received it
+ */
+export interface MockApiRequest {
+  method: string;
+  path: string;
+  params: Record<string, unknown>;
+  body: unknown;
+  idempotencyKey?: string;
+}
+
+/**
+ * A failure to answer matching requests with
+ */
+export interface MockApiFault {
+  // Only requests with this method and path fail; any request when left out
+  method?: string;
+  path?: string | RegExp;
+  // HTTP status to answer with, or "network" to fail as if the server were unreachable
+  status: number | "network";
+  body?: unknown;
+  headers?: Record<string, string>;
+  // How many matching requests fail (default 1)
+  times?: number;
+  // Extra delay before failing, e.g. longer than the request's timeout
+  delayMs?: number;
+}
+
+/**
+ * Data the mock API starts out with
+ */
+export interface MockApiFixtures {
+  todos?: Todo[];
+  habits?: HabitsSettings | null;
+  schedules?: SavedSchedule[];
+}
+
+export interface MockApiOptions extends MockApiFixtures {
+  // Delay before every response
+  latencyMs?: number;
+  // Answer requests without a bearer token with 401 (default true)
+  requireAuth?: boolean;
+  // Produces the /schedule response; by default the local scheduling engine
+  planSchedule?: (request: GenerateScheduleRequest) => unknown;
+}
+
+export interface MockApi {
+  adapter: AxiosAdapter;
+  // The todos as currently stored
+  getTodos: () => Todo[];
+  // Requests received since the last reset, oldest first
+  getRequests: () => MockApiRequest[];
+  setLatency: (ms: number) => void;
+  addFault: (fault: MockApiFault) => void;
+  clearFaults: () => void;
+  // Start over with other data (or none), forgetting requests and faults
+  reset: (fixtures?: MockApiFixtures) => void;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (request: MockApiRequest, match: RegExpExecArray) => MockResponse;
+}
+
+type FieldErrors = Record<string, string[]>;
+
+const PRIORITIES = ["High", "Medium", "Low"];
+
+// Fields a todo can be created or updated with
+const TODO_FIELDS = [
+  "task",
+  "priority",
+  "completed",
+  "completedAt",
+  "parentId",
+  "dueAt",
+  "estimatedMinutes",
+  "recurrence",
+  "occurrence",
+  "tags",
+  "project",
+  "position",
+] as const;
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No Content",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+const reply = (
+  status: number,
+  body?: unknown,
+  headers?: Record<string, string>
+): MockResponse => ({ status, body, headers });
+
+const notFound = (): MockResponse => reply(404, { title: "Not found" });
+
+const invalid = (errors: FieldErrors): MockResponse =>
+  reply(400, { title: "One or more validation errors occurred.", errors });
+
+/**
+ * Sample todos for trying the app out, due relative to now
+ */
+export const createSampleTodos = (now: Date = new Date()): Todo[] => {
+  const created = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
+  const endOfDay = new Date(now);
+  endOfDay.setHours(17, 0, 0, 0);
+  const tomorrow = new Date(endOfDay);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  const todos: Omit<Todo, "position" | "createdAt" | "updatedAt">[] = [
+    {
+      id: "todo-1",
+      task: "Review open pull requests",
+      priority: "High",
+      completed: false,
+      estimatedMinutes: 45,
+      tags: ["work"],
+      project: "DayForge",
+    },
+    {
+      id: "todo-2",
+      task: "Write the weekly report",
+      priority: "Medium",
+      completed: false,
+      dueAt: endOfDay.toISOString(),
+      estimatedMinutes: 60,
+      tags: ["work"],
+    },
+    {
+      id: "todo-3",
+      task: "Plan next sprint",
+      priority: "High",
+      completed: false,
+      dueAt: tomorrow.toISOString(),
+      project: "DayForge",
+    },
+    {
+      id: "todo-4",
+      task: "Collect feedback from the team",
+      priority: "Medium",
+      completed: true,
+      completedAt: created,
+      parentId: "todo-3",
+      estimatedMinutes: 30,
+      project: "DayForge",
+    },
+    {
+      id: "todo-5",
+      task: "Book a dentist appointment",
+      priority: "Low",
+      completed: false,
+      estimatedMinutes: 10,
+      tags: ["home"],
+    },
+  ];
+  return todos.map((todo, index) => ({
+    ...todo,
+    position: (index + 1) * POSITION_STEP,
+    createdAt: created,
+    updatedAt: created,
+  }));
+};
+
+/**
+ * The schedule the mock /schedule endpoint returns: the local engine's plan
+ * around the busy intervals, in the raw format the AI answers with
+ */
+const planWithLocalEngine = (request: GenerateScheduleRequest): RawScheduleItem[] => {
+  const events = (request.busy ?? []).flatMap((interval, index): CalendarEvent[] => {
+    const start = parseTimeOfDay(interval.start);
+    const end = parseTimeOfDay(interval.end);
+    if (start === null || end === null) return [];
+    const id = `busy-${index}`;
+    return [{ id, subject: interval.subject, start, end, showAs: "busy", isAllDay: false }];
+  });
+  return buildLocalSchedule(request.todos ?? [], request.habits, events)
+    .filter((item) => item.kind !== "event")
+    .map((item) => ({
+      time: formatClockTime(item.start),
+      task: item.task,
+      duration: item.durationMinutes,
+      todoId: item.todoId,
+    }));
+};
+
+/**
+ * Check the fields of a todo being created (requireTask) or updated
+ */
+const validateTodoFields = (
+  body: Record<string, unknown>,
+  requireTask: boolean
+): FieldErrors | null => {
+  const errors: FieldErrors = {};
+  if (requireTask || "task" in body) {
+    if (typeof body.task !== "string" || !body.task.trim()) {
+      errors.task = ["The task is required."];
+    }
+  }
+  if ((requireTask || "priority" in body) && !PRIORITIES.includes(body.priority as string)) {
+    errors.priority = [`The priority must be one of ${PRIORITIES.join(", ")}.`];
+  }
+  if ("tags" in body && body.tags !== null && !Array.isArray(body.tags)) {
+    errors.tags = ["The tags must be a list."];
+  }
+  return Object.keys(errors).length > 0 ? errors : null;
+};
+
+const pickTodoFields = (body: Record<string, unknown>): Partial<Todo> =>
+  Object.fromEntries(
+    TODO_FIELDS.filter((field) => body[field] !== undefined).map((field) => [field, body[field]])
+  );
+
+const toRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const matchesFault = (fault: MockApiFault, request: MockApiRequest): boolean => {
+  if (fault.method && fault.method.toLowerCase() !== request.method) return false;
+  if (fault.path === undefined) return true;
+  return typeof fault.path === "string"
+    ? fault.path === request.path
+    : fault.path.test(request.path);
+};
+
+/**
+ * Create a mock API
+ * @param options - Starting data, latency, whether tokens are required and how
+ *                  schedules are planned
+ * @returns The adapter to plug into an Axios client (see setApiAdapter), with
+ *          controls for tests and fault injection
+ */
+export const createMockApi = (options: MockApiOptions = {}): MockApi => {
+  const { requireAuth = true, planSchedule = planWithLocalEngine } = options;
+  let latencyMs = options.latencyMs ?? 0;
+  let todos: Todo[] = [];
+  let habits: HabitsSettings | null = null;
+  let schedules = new Map<string, SavedSchedule>();
+  let requests: MockApiRequest[] = [];
+  let faults: (MockApiFault & { remaining: number })[] = [];
+  // IDs of the todos created per idempotency key
+  let createdByKey = new Map<string, string>();
+  let nextId = 1;
+
+  const reset = (fixtures: MockApiFixtures = {}): void => {
+    todos = copy(fixtures.todos ?? []);
+    habits = fixtures.habits ? copy(fixtures.habits) : null;
+    schedules = new Map((fixtures.schedules ?? []).map((saved) => [saved.date, copy(saved)]));
+    requests = [];
+    faults = [];
+    createdByKey = new Map();
+    nextId = todos.length + 1;
+  };
+
+  const createId = (): string => {
+    const takenIds = new Set(todos.map((todo) => todo.id));
+    while (takenIds.has(`todo-${nextId}`)) {
+      nextId += 1;
+    }
+    return `todo-${nextId++}`;
+  };
+
+  const createTodo = (body: Record<string, unknown>, idempotencyKey?: string): MockResponse => {
+    const existing = idempotencyKey
+      ? todos.find((todo) => todo.id === createdByKey.get(idempotencyKey))
+      : undefined;
+    if (existing) return reply(201, existing);
+    const errors = validateTodoFields(body, true);
+    if (errors) return invalid(errors);
+    const data = pickTodoFields(body) as CreateTodoRequest;
+    const now = new Date().toISOString();
+    const todo: Todo = {
+      parentId: null,
+      dueAt: null,
+      estimatedMinutes: null,
+      recurrence: null,
+      tags: [],
+      project: null,
+      position: null,
+      ...data,
+      id: createId(),
+      completed: data.completed ?? false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    todos.push(todo);
+    if (idempotencyKey) createdByKey.set(idempotencyKey, todo.id);
+    return reply(201, todo);
+  };
+
+  const updateTodo = (id: string, changes: Record<string, unknown>): MockResponse => {
+    const index = todos.findIndex((todo) => todo.id === id);
+    if (index === -1) return notFound();
+    const errors = validateTodoFields(changes, false);
+    if (errors) return invalid(errors);
+    const updated: Todo = {
+      ...todos[index],
+      ...(pickTodoFields(changes) as UpdateTodoRequest),
+      updatedAt: new Date().toISOString(),
+    };
+    todos[index] = updated;
+    return reply(200, updated);
+  };
+
+  const deleteTodo = (id: string, cascade: boolean): MockResponse => {
+    if (!todos.some((todo) => todo.id === id)) return notFound();
+    const removed = new Set([id, ...(cascade ? getDescendantIds(todos, id) : [])]);
+    // Without cascade, subtasks of the deleted todo move up to the top level
+    todos = todos
+      .filter((todo) => !removed.has(todo.id))
+      .map((todo) =>
+        todo.parentId && removed.has(todo.parentId) ? { ...todo, parentId: null } : todo
+      );
+    return reply(204);
+  };
+
+  const runBatchOperation = (operation: TodoBatchOperation): TodoBatchResult => {
+    const response =
+      operation.type === "delete"
+        ? deleteTodo(operation.id, true)
+        : updateTodo(operation.id, toRecord(operation.changes));
+    if (response.status < 300) {
+      return { id: operation.id, ok: true, todo: response.body as Todo | undefined };
+    }
+    const { title } = toRecord(response.body);
+    return { id: operation.id, ok: false, error: typeof title === "string" ? title : "Failed" };
+  };
+
+  const routes: Route[] = [
+    { method: "get", pattern: /^\/todos$/, handle: () => reply(200, todos) },
+    {
+      method: "post",
+      pattern: /^\/todos$/,
+      handle: ({ body, idempotencyKey }) => createTodo(toRecord(body), idempotencyKey),
+    },
+    {
+      method: "post",
+      pattern: /^\/todos\/batch$/,
+      handle: ({ body }) => {
+        const { operations } = toRecord(body);
+        if (!Array.isArray(operations)) {
+          return invalid({ operations: ["The operations are required."] });
+        }
+        return reply(200, { results: operations.map(runBatchOperation) });
+      },
+    },
+    {
+      method: "put",
+      pattern: /^\/todos\/([^/]+)$/,
+      handle: ({ body }, [, id]) => updateTodo(decodeURIComponent(id), toRecord(body)),
+    },
+    {
+      method: "patch",
+      pattern: /^\/todos\/([^/]+)\/position$/,
+      handle: ({ body }, [, id]) => {
+        const { position } = toRecord(body);
+        if (typeof position !== "number" || !Number.isFinite(position)) {
+          return invalid({ position: ["The position must be a number."] });
+        }
+        return updateTodo(decodeURIComponent(id), { position });
+      },
+    },
+    {
+      method: "delete",
+      pattern: /^\/todos\/([^/]+)$/,
+      handle: ({ params }, [, id]) =>
+        deleteTodo(decodeURIComponent(id), String(params.cascade) === "true"),
+    },
+    {
+      method: "post",
+      pattern: /^\/schedule$/,
+      handle: ({ body }) => {
+        const request = toRecord(body) as unknown as GenerateScheduleRequest;
+        if (!request.habits) {
+          return invalid({ habits: ["The habits are required."] });
+        }
+        return reply(200, planSchedule(request));
+      },
+    },
+    {
+      method: "get",
+      pattern: /^\/schedules\/([^/]+)$/,
+      handle: (_request, [, date]) => {
+        const saved = schedules.get(date);
+        return saved ? reply(200, saved) : notFound();
+      },
+    },
+    {
+      method: "put",
+      pattern: /^\/schedules\/([^/]+)$/,
+      handle: ({ body }, [, date]) => {
+        const saved = {
+          ...(toRecord(body) as unknown as SavedSchedule),
+          date,
+          updatedAt: new Date().toISOString(),
+        };
+        if (!Array.isArray(saved.items)) {
+          return invalid({ items: ["The items are required."] });
+        }
+        schedules.set(date, saved);
+        return reply(200, saved);
+      },
+    },
+    {
+      method: "get",
+      pattern: /^\/habits$/,
+      handle: () => (habits ? reply(200, habits) : notFound()),
+    },
+    {
+      method: "put",
+      pattern: /^\/habits$/,
+      handle: ({ body }) => {
+        habits = toRecord(body) as unknown as HabitsSettings;
+        return reply(204);
+      },
+    },
+  ];
+
+  /**
+   * The first fault matching a request, counted as used
+   */
+  const takeFault = (request: MockApiRequest): MockApiFault | undefined => {
+    const fault = faults.find((candidate) => matchesFault(candidate, request));
+    if (fault) {
+      fault.remaining -= 1;
+      faults = faults.filter((candidate) => candidate.remaining > 0);
+    }
+    return fault;
+  };
+
+  /**
+   * Answer a request: the injected fault, 401 without a token, or the route's response
+   */
+  const respond = (
+    request: MockApiRequest,
+    authorized: boolean,
+    fault?: MockApiFault
+  ): MockResponse | "network" => {
+    if (fault) {
+      return fault.status === "network"
+        ? "network"
+        : reply(fault.status, fault.body ?? { title: STATUS_TEXT[fault.status] }, fault.headers);
+    }
+    if (requireAuth && !authorized) {
+      return reply(401, { title: "Unauthorized" });
+    }
+    for (const route of routes) {
+      const match = route.method === request.method ? route.pattern.exec(request.path) : null;
+      if (match) {
+        return route.handle(request, match);
+      }
+    }
+    return notFound();
+  };
+
+  const adapter: AxiosAdapter = (config) =>
+    new Promise<AxiosResponse>((resolve, reject) => {
+      const request: MockApiRequest = {
+        method: (config.method ?? "get").toLowerCase(),
+        path: (config.url ?? "").split("?")[0],
+        params: { ...config.params },
+        body:
+          typeof config.data === "string" && config.data ? JSON.parse(config.data) : config.data,
+      };
+      const idempotencyKey = config.headers?.["Idempotency-Key"];
+      if (typeof idempotencyKey === "string") {
+        request.idempotencyKey = idempotencyKey;
+      }
+      requests.push(request);
+      const authorization = String(config.headers?.Authorization ?? "");
+      const fault = takeFault(request);
+      const delay = latencyMs + (fault?.delayMs ?? 0);
+      let timer = 0;
+      let timeoutTimer = 0;
+
+      const handleAbort = (): void => {
+        window.clearTimeout(timer);
+        window.clearTimeout(timeoutTimer);
+        reject(new CanceledError(undefined, undefined, config));
+      };
+      if (config.signal?.aborted) {
+        handleAbort();
+        return;
+      }
+      config.signal?.addEventListener?.("abort", handleAbort);
+
+      const finish = (): void => {
+        window.clearTimeout(timeoutTimer);
+        config.signal?.removeEventListener?.("abort", handleAbort);
+        const result = respond(request, authorization.startsWith("Bearer "), fault);
+        if (result === "network") {
+          reject(new AxiosError("Network Error", AxiosError.ERR_NETWORK, config));
+          return;
+        }
+        const response: AxiosResponse = {
+          data: result.body === undefined ? "" : JSON.stringify(result.body),
+          status: result.status,
+          statusText: STATUS_TEXT[result.status] ?? "",
+          headers: { "content-type": "application/json", ...result.headers },
+          config,
+          request: {},
+        };
+        const validateStatus =
+          config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+        if (validateStatus(result.status)) {
+          resolve(response);
+          return;
+        }
+        reject(
+          new AxiosError(
+            `Request failed with status code ${result.status}`,
+            result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+            config,
+            {},
+            response
+          )
+        );
+      };
+
+      if (config.timeout && delay >= config.timeout) {
+        // The client gives up, but the request is still handled
+        timer = window.setTimeout(
+          () => respond(request, authorization.startsWith("Bearer "), fault),
+          delay
+        );
+        timeoutTimer = window.setTimeout(() => {
+          config.signal?.removeEventListener?.("abort", handleAbort);
+          reject(
+            new AxiosError(`timeout of ${config.timeout}ms exceeded`, "ECONNABORTED", config)
+          );
+        }, config.timeout);
+        return;
+      }
+      timer = window.setTimeout(finish, delay);
+    });
+
+  reset(options);
+
+  return {
+    adapter,
+    getTodos: () => copy(todos),
+    getRequests: () => [...requests],
+    setLatency: (ms) => {
+      latencyMs = Math.max(0, ms);
+    },
+    addFault: (fault) => {
+      faults.push({ ...fault, remaining: fault.times ?? 1 });
+    },
+    clearFaults: () => {
+      faults = [];
+    },
+    reset,
+  };
+};
@@ -0,0 +1,139 @@
+/**
+ * Mock Auth Provider
+ *
+ * Sign-in without an identity provider, for local development and tests:
+ * - Signing in creates a local test account straight away; signing in with
+ *   another account adds a numbered one
+ * - Tokens are unsigned JWTs carrying the account and the requested scopes, so
+ *   only a backend that skips token validation (or the mock API) accepts them
+ * - Accounts are kept in sessionStorage, so a reload stays signed in
+ */
+
+import { InteractionRequiredError } from "./auth";
+import { encodeUnsignedJwt } from "../utils/jwt";
+import type { AuthAccount, AuthProvider } from "../types";
+
+const STORAGE_KEY = "dayforge:mock-auth";
+const TOKEN_LIFETIME_S = 3600;
+
+interface MockAuthState {
+  accounts: AuthAccount[];
+  activeId: string | null;
+}
+
+export interface MockUser {
+  name: string;
+  username: string;
+}
+
+const DEFAULT_USER: MockUser = { name: "Dev User", username: "dev@example.com" };
+
+const loadState = (): MockAuthState => {
+  try {
+    const stored = JSON.parse(window.sessionStorage.getItem(STORAGE_KEY) ?? "null");
+    return stored && Array.isArray(stored.accounts) ? stored : { accounts: [], activeId: null };
+  } catch {
+    return { accounts: [], activeId: null };
+  }
+};
+
+const storeState = (state: MockAuthState): void => {
+  window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+/**
+ * The nth test account: the configured user first, then numbered variants of it
+ */
+const createAccount = (user: MockUser, index: number): AuthAccount => {
+  if (index === 0) {
+    return { id: "mock-user-1", ...user };
+  }
+  const [local, domain] = user.username.split("@");
+  const number = index + 1;
+  return {
+    id: `mock-user-${number}`,
+    name: `${user.name} ${number}`,
+    username: domain ? `${local}+${number}@${domain}` : `${user.username}${number}`,
+  };
+};
+
+/**
+ * An unsigned token for an account, valid for an hour
+ */
+const issueToken = (scopes: string[], account: AuthAccount): string => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  return encodeUnsignedJwt({
+    iss: "dayforge-mock",
+    sub: account.id,
+    name: account.name,
+    preferred_username: account.username,
+    scp: scopes.join(" "),
+    iat: issuedAt,
+    exp: issuedAt + TOKEN_LIFETIME_S,
+  });
+};
+
+/**
+ * Create the mock provider
+ * @param user - Name and username of the first test account
+ */
+export const createMockAuthProvider = (user: MockUser = DEFAULT_USER): AuthProvider => ({
+  kind: "mock",
+  displayName: "a test account",
+
+  initialize: async () => undefined,
+
+  getAccounts: () => loadState().accounts,
+
+  getActiveAccount: () => {
+    const { accounts, activeId } = loadState();
+    return accounts.find((account) => account.id === activeId) ?? null;
+  },
+
+  setActiveAccount: (account) => {
+    const state = loadState();
+    if (state.accounts.some((candidate) => candidate.id === account.id)) {
+      storeState({ ...state, activeId: account.id });
+    }
+  },
+
+  login: async (_request, options = {}) => {
+    const state = loadState();
+    if (!options.selectAccount && state.accounts.length > 0) {
+      return state.accounts[0];
+    }
+    // The first number not taken, so accounts keep their IDs across sign-outs
+    const takenIds = new Set(state.accounts.map((account) => account.id));
+    let index = 0;
+    while (takenIds.has(createAccount(user, index).id)) {
+      index += 1;
+    }
+    const account = createAccount(user, index);
+    storeState({ ...state, accounts: [...state.accounts, account] });
+    return account;
+  },
+
+  logout: async (account) => {
+    const state = loadState();
+    storeState({
+      accounts: state.accounts.filter((candidate) => candidate.id !== account.id),
+      activeId: state.activeId === account.id ? null : state.activeId,
+    });
+  },
+
+  acquireTokenSilent: async (request, account) => {
+    if (!loadState().accounts.some((candidate) => candidate.id === account.id)) {
+      throw new InteractionRequiredError(`${account.username} is no longer signed in`);
+    }
+    return issueToken(request.scopes, account);
+  },
+
+  // Nothing to ask the user: signing the account in again is enough
+  acquireTokenInteractive: async (request, account) => {
+    const state = loadState();
+    if (!state.accounts.some((candidate) => candidate.id === account.id)) {
+      storeState({ ...state, accounts: [...state.accounts, account] });
+    }
+    return issueToken(request.scopes, account);
+  },
+});
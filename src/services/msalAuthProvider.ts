@@ -0,0 +1,107 @@
+/**
+ * MSAL Auth Provider
+ *
+ * Azure Entra ID sign-in through the Microsoft Authentication Library:
+ * - Accounts and tokens are kept in MSAL's own cache
+ * - Interactive sign-in uses a popup, or a full-page redirect when the browser
+ *   blocks the popup; initialize() completes such a redirect
+ */
+
+import {
+  PublicClientApplication,
+  AccountInfo,
+  BrowserAuthError,
+  BrowserAuthErrorCodes,
+  InteractionRequiredAuthError,
+} from "@azure/msal-browser";
+import { InteractionRequiredError } from "./auth";
+import type { AuthAccount, AuthProvider, MSALConfig } from "../types";
+
+const toAuthAccount = (account: AccountInfo): AuthAccount => ({
+  id: account.homeAccountId,
+  name: account.name || account.username,
+  username: account.username,
+});
+
+const isPopupBlocked = (error: unknown): boolean =>
+  error instanceof BrowserAuthError &&
+  (error.errorCode === BrowserAuthErrorCodes.popupWindowError ||
+    error.errorCode === BrowserAuthErrorCodes.emptyWindowError);
+
+/**
+ * Create the MSAL-backed provider
+ * @param config - MSAL configuration (client ID, authority, cache)
+ */
+export const createMsalAuthProvider = (config: MSALConfig): AuthProvider => {
+  const msal = new PublicClientApplication(config);
+
+  const findAccount = (account: AuthAccount): AccountInfo => {
+    const found = msal.getAccountByHomeId(account.id);
+    if (!found) {
+      throw new InteractionRequiredError(`${account.username} is no longer signed in`);
+    }
+    return found;
+  };
+
+  return {
+    kind: "msal",
+    displayName: "Microsoft",
+
+    initialize: async () => {
+      await msal.initialize();
+      const result = await msal.handleRedirectPromise();
+      if (result?.account) {
+        msal.setActiveAccount(result.account);
+      }
+    },
+
+    getAccounts: () => msal.getAllAccounts().map(toAuthAccount),
+
+    getActiveAccount: () => {
+      const active = msal.getActiveAccount();
+      return active ? toAuthAccount(active) : null;
+    },
+
+    setActiveAccount: (account) => msal.setActiveAccount(findAccount(account)),
+
+    login: async (request, options = {}) => {
+      const result = await msal.loginPopup({
+        ...request,
+        prompt: options.selectAccount ? "select_account" : undefined,
+      });
+      return toAuthAccount(result.account);
+    },
+
+    logout: (account) =>
+      msal.logoutPopup({
+        account: findAccount(account),
+        postLogoutRedirectUri: "/",
+        mainWindowRedirectUri: "/",
+      }),
+
+    acquireTokenSilent: async (request, account, forceRefresh) => {
+      try {
+        return (
+          await msal.acquireTokenSilent({ ...request, account: findAccount(account), forceRefresh })
+        ).accessToken;
+      } catch (error) {
+        if (error instanceof InteractionRequiredAuthError) {
+          throw new InteractionRequiredError(error.message);
+        }
+        throw error;
+      }
+    },
+
+    acquireTokenInteractive: async (request, account) => {
+      const msalAccount = findAccount(account);
+      try {
+        return (await msal.acquireTokenPopup({ ...request, account: msalAccount })).accessToken;
+      } catch (error) {
+        if (!isPopupBlocked(error)) throw error;
+        // The page unloads, so this never settles
+        await msal.acquireTokenRedirect({ ...request, account: msalAccount });
+        return new Promise<string>(() => undefined);
+      }
+    },
+  };
+};
@@ -0,0 +1,287 @@
+/**
+ * OIDC Auth Provider
+ *
+ * Sign-in with any OpenID Connect provider (Keycloak, Auth0, Okta, ...) using
+ * the authorization code flow with PKCE:
+ * - Endpoints come from the provider's discovery document
+ * - Sign-in redirects to the provider; initialize() exchanges the code it sends
+ *   back for tokens
+ * - Access tokens are renewed with the refresh token when there is one, and
+ *   otherwise by signing in again
+ * - Sessions are kept in sessionStorage, one per signed-in account
+ *
+ * The provider issues a single access token for the configured scopes; scopes
+ * passed with individual requests only matter at sign-in.
+ */
+
+import axios from "axios";
+import { InteractionRequiredError } from "./auth";
+import { encodeBase64Url, decodeJwtPayload } from "../utils/jwt";
+import type { AuthAccount, AuthProvider, OidcConfig } from "../types";
+
+const SESSIONS_KEY = "dayforge:oidc:sessions";
+const PENDING_LOGIN_KEY = "dayforge:oidc:pending";
+
+// Renew access tokens this long before they expire
+const EXPIRY_MARGIN_MS = 60 * 1000;
+const DEFAULT_TOKEN_LIFETIME_S = 3600;
+
+interface OidcMetadata {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  id_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+interface OidcSession {
+  account: AuthAccount;
+  accessToken: string;
+  idToken?: string;
+  refreshToken?: string;
+  expiresAt: number;
+}
+
+interface StoredSessions {
+  sessions: OidcSession[];
+  activeId: string | null;
+}
+
+interface PendingLogin {
+  state: string;
+  codeVerifier: string;
+}
+
+const randomString = (): string => encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(codeVerifier));
+  return encodeBase64Url(new Uint8Array(digest));
+};
+
+const loadSessions = (): StoredSessions => {
+  try {
+    const stored = JSON.parse(window.sessionStorage.getItem(SESSIONS_KEY) ?? "null");
+    return stored && Array.isArray(stored.sessions) ? stored : { sessions: [], activeId: null };
+  } catch {
+    return { sessions: [], activeId: null };
+  }
+};
+
+const storeSessions = (stored: StoredSessions): void => {
+  window.sessionStorage.setItem(SESSIONS_KEY, JSON.stringify(stored));
+};
+
+const claimString = (value: unknown): string | undefined =>
+  typeof value === "string" && value ? value : undefined;
+
+/**
+ * Create a provider for a generic OIDC identity provider
+ * @param config - Authority, client ID, redirect URI and scopes
+ */
+export const createOidcAuthProvider = (config: OidcConfig): AuthProvider => {
+  let metadata: Promise<OidcMetadata> | null = null;
+
+  const getMetadata = (): Promise<OidcMetadata> => {
+    if (!metadata) {
+      const url = `${config.authority.replace(/\/$/, "")}/.well-known/openid-configuration`;
+      metadata = axios.get<OidcMetadata>(url).then((response) => response.data);
+      // Let a failed lookup be retried
+      metadata.catch(() => {
+        metadata = null;
+      });
+    }
+    return metadata;
+  };
+
+  const requestTokens = async (params: Record<string, string>): Promise<TokenResponse> => {
+    const { token_endpoint: tokenEndpoint } = await getMetadata();
+    const response = await axios.post<TokenResponse>(
+      tokenEndpoint,
+      new URLSearchParams({ ...params, client_id: config.clientId }),
+      { headers: { "Content-Type": "application/x-www-form-urlencoded" } }
+    );
+    return response.data;
+  };
+
+  /**
+   * Turn a token response into a session, keeping what it leaves out from the previous one
+   */
+  const toSession = (tokens: TokenResponse, previous?: OidcSession): OidcSession => {
+    const idToken = tokens.id_token ?? previous?.idToken;
+    const claims = (idToken && decodeJwtPayload(idToken)) || {};
+    const id = claimString(claims.sub) ?? previous?.account.id;
+    if (!id) {
+      throw new Error("The identity provider did not identify the user");
+    }
+    const username =
+      claimString(claims.preferred_username) ??
+      claimString(claims.email) ??
+      previous?.account.username ??
+      id;
+    const name = claimString(claims.name) ?? previous?.account.name ?? username;
+    return {
+      account: { id, name, username },
+      accessToken: tokens.access_token,
+      idToken,
+      refreshToken: tokens.refresh_token ?? previous?.refreshToken,
+      expiresAt: Date.now() + (tokens.expires_in ?? DEFAULT_TOKEN_LIFETIME_S) * 1000,
+    };
+  };
+
+  const saveSession = (session: OidcSession, makeActive: boolean): void => {
+    const stored = loadSessions();
+    storeSessions({
+      sessions: [
+        ...stored.sessions.filter((candidate) => candidate.account.id !== session.account.id),
+        session,
+      ],
+      activeId: makeActive ? session.account.id : stored.activeId,
+    });
+  };
+
+  const findSession = (account: AuthAccount): OidcSession | undefined =>
+    loadSessions().sessions.find((session) => session.account.id === account.id);
+
+  /**
+   * Send the browser to the provider's sign-in page; the promise never settles
+   */
+  const redirectToLogin = async (
+    scopes: string[],
+    options: { prompt?: string; loginHint?: string } = {}
+  ): Promise<never> => {
+    const { authorization_endpoint: authorizationEndpoint } = await getMetadata();
+    const pending: PendingLogin = { state: randomString(), codeVerifier: randomString() };
+    window.sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: config.clientId,
+      redirect_uri: config.redirectUri,
+      scope: Array.from(new Set(["openid", "profile", ...config.scopes, ...scopes])).join(" "),
+      state: pending.state,
+      code_challenge: await createCodeChallenge(pending.codeVerifier),
+      code_challenge_method: "S256",
+    });
+    if (options.prompt) params.set("prompt", options.prompt);
+    if (options.loginHint) params.set("login_hint", options.loginHint);
+
+    window.location.assign(`${authorizationEndpoint}?${params.toString()}`);
+    return new Promise<never>(() => undefined);
+  };
+
+  return {
+    kind: "oidc",
+    displayName: config.displayName,
+
+    initialize: async () => {
+      const params = new URLSearchParams(window.location.search);
+      const code = params.get("code");
+      const error = params.get("error");
+      if (!code && !error) return;
+
+      const rawPending = window.sessionStorage.getItem(PENDING_LOGIN_KEY);
+      window.sessionStorage.removeItem(PENDING_LOGIN_KEY);
+      // Keep the code out of the address bar and history
+      window.history.replaceState(null, "", window.location.pathname);
+
+      if (error) {
+        console.error("Sign-in failed:", params.get("error_description") ?? error);
+        return;
+      }
+      const pending: PendingLogin | null = rawPending ? JSON.parse(rawPending) : null;
+      if (!pending || pending.state !== params.get("state")) {
+        console.error("Ignoring a sign-in response that this app did not start");
+        return;
+      }
+
+      const tokens = await requestTokens({
+        grant_type: "authorization_code",
+        code: code as string,
+        redirect_uri: config.redirectUri,
+        code_verifier: pending.codeVerifier,
+      });
+      saveSession(toSession(tokens), true);
+    },
+
+    getAccounts: () => loadSessions().sessions.map((session) => session.account),
+
+    getActiveAccount: () => {
+      const { sessions, activeId } = loadSessions();
+      return sessions.find((session) => session.account.id === activeId)?.account ?? null;
+    },
+
+    setActiveAccount: (account) => {
+      const stored = loadSessions();
+      if (stored.sessions.some((session) => session.account.id === account.id)) {
+        storeSessions({ ...stored, activeId: account.id });
+      }
+    },
+
+    login: (request, options = {}) =>
+      redirectToLogin(request.scopes, {
+        prompt: options.selectAccount ? "select_account" : undefined,
+      }),
+
+    logout: async (account) => {
+      const session = findSession(account);
+      const stored = loadSessions();
+      storeSessions({
+        sessions: stored.sessions.filter((candidate) => candidate.account.id !== account.id),
+        activeId: stored.activeId === account.id ? null : stored.activeId,
+      });
+
+      // End the session at the provider too when it supports that
+      try {
+        const { end_session_endpoint: endSessionEndpoint } = await getMetadata();
+        if (!endSessionEndpoint) return;
+        const params = new URLSearchParams({
+          client_id: config.clientId,
+          post_logout_redirect_uri: window.location.origin,
+        });
+        if (session?.idToken) params.set("id_token_hint", session.idToken);
+        window.location.assign(`${endSessionEndpoint}?${params.toString()}`);
+      } catch (error) {
+        console.error("Error ending the provider session:", error);
+      }
+    },
+
+    acquireTokenSilent: async (_request, account, forceRefresh) => {
+      const session = findSession(account);
+      if (!session) {
+        throw new InteractionRequiredError(`${account.username} is no longer signed in`);
+      }
+      if (!forceRefresh && session.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+        return session.accessToken;
+      }
+      if (!session.refreshToken) {
+        throw new InteractionRequiredError("The access token expired");
+      }
+
+      try {
+        const tokens = await requestTokens({
+          grant_type: "refresh_token",
+          refresh_token: session.refreshToken,
+        });
+        const renewed = toSession(tokens, session);
+        saveSession(renewed, false);
+        return renewed.accessToken;
+      } catch (error) {
+        // A rejected refresh token means signing in again; anything else (e.g. no
+        // network) is passed on as is
+        if (axios.isAxiosError(error) && error.response && error.response.status < 500) {
+          throw new InteractionRequiredError("The refresh token was rejected");
+        }
+        throw error;
+      }
+    },
+
+    acquireTokenInteractive: (request, account) =>
+      redirectToLogin(request.scopes, { loginHint: account.username }),
+  };
+};
@@ -0,0 +1,83 @@
+/**
+ * Schedule Store
+ *
+ * Keeps the schedule for each day in localStorage, so a day's plan survives
+ * reloads and can be looked at again later. It also remembers which days have
+ * changes that have not reached the backend yet.
+ */
+
+import type { SavedSchedule } from "../types";
+
+const KEY_PREFIX = "dayforge:schedule:";
+const UNSYNCED_KEY = "dayforge:schedules-unsynced";
+
+const storageKey = (date: string): string => `${KEY_PREFIX}${date}`;
+
+/**
+ * Load the stored schedule for a day
+ * @param date - Day key (YYYY-MM-DD)
+ * @returns The stored schedule, or null if there is none or it is unreadable
+ */
+export const loadStoredSchedule = (date: string): SavedSchedule | null => {
+  try {
+    const raw = window.localStorage.getItem(storageKey(date));
+    if (!raw) return null;
+    const saved = JSON.parse(raw) as SavedSchedule;
+    return saved && Array.isArray(saved.items) ? saved : null;
+  } catch (error) {
+    console.error("Error loading stored schedule:", error);
+    return null;
+  }
+};
+
+/**
+ * Store a day's schedule, replacing any earlier version
+ */
+export const storeSchedule = (saved: SavedSchedule): void => {
+  try {
+    window.localStorage.setItem(storageKey(saved.date), JSON.stringify(saved));
+  } catch (error) {
+    console.error("Error storing schedule:", error);
+  }
+};
+
+/**
+ * Days whose stored schedule still has to be sent to the backend
+ */
+export const getUnsyncedDates = (): string[] => {
+  try {
+    const dates = JSON.parse(window.localStorage.getItem(UNSYNCED_KEY) ?? "[]");
+    return Array.isArray(dates) ? dates : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Record whether a day's stored schedule has reached the backend
+ */
+export const setScheduleSynced = (date: string, synced: boolean): void => {
+  const dates = getUnsyncedDates().filter((unsynced) => unsynced !== date);
+  if (!synced) {
+    dates.push(date);
+  }
+  try {
+    window.localStorage.setItem(UNSYNCED_KEY, JSON.stringify(dates));
+  } catch (error) {
+    console.error("Error storing schedule sync state:", error);
+  }
+};
+
+/**
+ * Remove every stored schedule and sync marker, e.g. when signing out
+ */
+export const clearStoredSchedules = (): void => {
+  try {
+    Object.keys(window.localStorage)
+      .filter((key) => key.startsWith(KEY_PREFIX))
+      .forEach((key) => window.localStorage.removeItem(key));
+    window.localStorage.removeItem(UNSYNCED_KEY);
+  } catch (error) {
+    console.error("Error clearing stored schedules:", error);
+  }
+};
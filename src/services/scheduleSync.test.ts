@@ -0,0 +1,76 @@
+/**
+ * Schedule Sync Tests
+ *
+ * Runs the day schedule sync against the mock API, checking which days stay
+ * queued for the backend.
+ */
+
+import { loginRequest } from "../authConfig";
+import { initializeAuth, signIn } from "./auth";
+import { createMockAuthProvider } from "./mockAuthProvider";
+import { createMockApi } from "./mockApi";
+import { getSchedule, initializeApi, setApiAdapter } from "./api";
+import { clearStoredSchedules, getUnsyncedDates } from "./scheduleStore";
+import { flushScheduleSync, persistDaySchedule } from "./scheduleSync";
+import type { SavedSchedule } from "../types";
+
+const DATE = "2026-10-19";
+
+const schedule = (updatedAt: string, task: string): SavedSchedule => ({
+  date: DATE,
+  items: [{ start: 540, end: 600, durationMinutes: 60, task, kind: "task" }],
+  source: "local",
+  edited: true,
+  updatedAt,
+});
+
+const mockApi = createMockApi();
+
+/**
+ * Save a day as if the browser were offline, leaving it queued
+ */
+const persistOffline = async (saved: SavedSchedule): Promise<void> => {
+  const onLine = jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+  await persistDaySchedule(saved);
+  onLine.mockRestore();
+};
+
+beforeAll(async () => {
+  await initializeAuth(createMockAuthProvider());
+  await signIn(loginRequest);
+  initializeApi();
+  setApiAdapter(mockApi.adapter);
+});
+
+beforeEach(() => {
+  clearStoredSchedules();
+  mockApi.reset();
+  mockApi.setLatency(0);
+});
+
+describe("flushScheduleSync", () => {
+  it("sends the queued days", async () => {
+    await persistOffline(schedule("2026-10-19T08:00:00.000Z", "Write report"));
+
+    await flushScheduleSync();
+
+    expect(getUnsyncedDates()).toEqual([]);
+    await expect(getSchedule(DATE)).resolves.toMatchObject({
+      items: [{ task: "Write report" }],
+    });
+  });
+
+  it("keeps a day queued that was saved again while it was being sent", async () => {
+    await persistOffline(schedule("2026-10-19T08:00:00.000Z", "Write report"));
+    mockApi.setLatency(50);
+
+    const flushing = flushScheduleSync();
+    await persistOffline(schedule("2026-10-19T08:05:00.000Z", "Call Sam"));
+    await flushing;
+
+    expect(getUnsyncedDates()).toEqual([DATE]);
+    await flushScheduleSync();
+    expect(getUnsyncedDates()).toEqual([]);
+    await expect(getSchedule(DATE)).resolves.toMatchObject({ items: [{ task: "Call Sam" }] });
+  });
+});
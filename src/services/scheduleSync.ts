@@ -0,0 +1,91 @@
+/**
+ * Schedule Sync Service
+ *
+ * Keeps each day's schedule in the local store and at /schedules/{date}:
+ * - Saves go to the local store first, then to the backend
+ * - Days the backend could not be reached for are retried when back online
+ * - Loading prefers whichever copy was updated last
+ */
+
+import { getSchedule, saveSchedule } from "./api";
+import {
+  loadStoredSchedule,
+  storeSchedule,
+  getUnsyncedDates,
+  setScheduleSynced,
+} from "./scheduleStore";
+import { isNetworkError } from "./todoSync";
+import type { SavedSchedule } from "../types";
+
+/**
+ * Load the schedule for a day, refreshing the local copy from the backend
+ * @param date - Day key (YYYY-MM-DD)
+ * @returns The most recent copy, or null if the day has no schedule
+ */
+export const loadDaySchedule = async (date: string): Promise<SavedSchedule | null> => {
+  const local = loadStoredSchedule(date);
+  if (!navigator.onLine || getUnsyncedDates().includes(date)) {
+    return local;
+  }
+
+  try {
+    const remote = await getSchedule(date);
+    if (remote && (!local || remote.updatedAt > local.updatedAt)) {
+      storeSchedule(remote);
+      return remote;
+    }
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      console.error("Error refreshing schedule:", error);
+    }
+  }
+  return local;
+};
+
+/**
+ * Mark a day synced once a save of it reached the backend, unless a newer local
+ * save happened while that one was in flight
+ */
+const markSynced = (saved: SavedSchedule): void => {
+  if (loadStoredSchedule(saved.date)?.updatedAt === saved.updatedAt) {
+    setScheduleSynced(saved.date, true);
+  }
+};
+
+/**
+ * Save the schedule for a day locally and send it to the backend.
+ * If the backend cannot be reached the day is retried by flushScheduleSync.
+ */
+export const persistDaySchedule = async (saved: SavedSchedule): Promise<void> => {
+  storeSchedule(saved);
+  setScheduleSynced(saved.date, false);
+  if (!navigator.onLine) return;
+
+  try {
+    await saveSchedule(saved);
+    markSynced(saved);
+  } catch (error) {
+    console.error("Error syncing schedule:", error);
+  }
+};
+
+/**
+ * Send every day whose schedule has not reached the backend yet
+ * Stops at the first network error; rejected days stay queued for the next try.
+ */
+export const flushScheduleSync = async (): Promise<void> => {
+  for (const date of getUnsyncedDates()) {
+    const saved = loadStoredSchedule(date);
+    if (!saved) {
+      setScheduleSynced(date, true);
+      continue;
+    }
+    try {
+      await saveSchedule(saved);
+      markSynced(saved);
+    } catch (error) {
+      if (isNetworkError(error)) return;
+      console.error("Error syncing schedule:", error);
+    }
+  }
+};
@@ -0,0 +1,237 @@
+/**
+ * Todo Commands
+ *
+ * Undoable versions of todo changes, for the undo/redo history. Each builder
+ * takes a change that has just been made and returns a command that reverses
+ * and reapplies it through the sync service, and so through the todo API:
+ * - Adding is undone by deleting, and deleting by creating the todo and its
+ *   subtasks again
+ * - Updates and moves are undone by writing back the previous values
+ * Recreated todos get new IDs; commands recorded earlier follow them there.
+ */
+
+import {
+  syncCreateTodo,
+  syncUpdateTodo,
+  syncReorderTodo,
+  syncDeleteTodo,
+  syncBatchTodos,
+  loadLocalTodos,
+  resolveTodoId,
+} from "./todoSync";
+import { getDescendantIds } from "../utils/todoTree";
+import { getPosition } from "../utils/todoOrder";
+import type {
+  Todo,
+  CreateTodoRequest,
+  UpdateTodoRequest,
+  TodoBatchOperation,
+  UndoCommand,
+} from "../types";
+
+// Deleted todos that were created again, by their old ID
+const recreatedIds = new Map<string, string>();
+
+/**
+ * The ID a todo has now, after any number of recreations and temporary ID remaps
+ */
+const currentId = (id: string): string => {
+  const seen = new Set<string>();
+  let current = id;
+  while (!seen.has(current)) {
+    seen.add(current);
+    const next = recreatedIds.get(current) ?? resolveTodoId(current);
+    if (next === current) break;
+    current = next;
+  }
+  return current;
+};
+
+const findTodo = async (id: string): Promise<Todo> => {
+  const todo = (await loadLocalTodos()).find((candidate) => candidate.id === currentId(id));
+  if (!todo) {
+    throw new Error("The task no longer exists");
+  }
+  return todo;
+};
+
+/**
+ * A todo and everything below it, parents before their children
+ */
+const snapshotTree = (todos: Todo[], id: string): Todo[] => {
+  const ids = [id, ...getDescendantIds(todos, id)];
+  return ids
+    .map((todoId) => todos.find((todo) => todo.id === todoId))
+    .filter((todo): todo is Todo => !!todo);
+};
+
+const toCreateRequest = (todo: Todo): CreateTodoRequest => ({
+  task: todo.task,
+  priority: todo.priority,
+  completed: todo.completed,
+  completedAt: todo.completedAt ?? null,
+  parentId: todo.parentId ? currentId(todo.parentId) : null,
+  dueAt: todo.dueAt ?? null,
+  estimatedMinutes: todo.estimatedMinutes ?? null,
+  recurrence: todo.recurrence ?? null,
+  occurrence: todo.occurrence,
+  tags: todo.tags,
+  project: todo.project ?? null,
+  position: getPosition(todo),
+});
+
+/**
+ * Create todos again from a snapshot, in order, so subtasks find their new parents
+ */
+const recreate = async (snapshot: Todo[]): Promise<void> => {
+  for (const todo of snapshot) {
+    const created = await syncCreateTodo(toCreateRequest(todo));
+    recreatedIds.set(currentId(todo.id), created.id);
+  }
+};
+
+/**
+ * The values an update is about to overwrite
+ */
+const previousValues = (todo: Todo, changes: UpdateTodoRequest): UpdateTodoRequest =>
+  (Object.keys(changes) as Array<keyof UpdateTodoRequest>).reduce<UpdateTodoRequest>(
+    (previous, key) => ({
+      ...previous,
+      [key]: key === "tags" ? todo.tags ?? [] : todo[key] ?? null,
+    }),
+    {}
+  );
+
+const applyBatch = async (operations: TodoBatchOperation[]): Promise<void> => {
+  if (operations.length === 0) return;
+  const results = await syncBatchTodos(
+    operations.map((operation) => ({ ...operation, id: currentId(operation.id) }))
+  );
+  const failed = results.filter((result) => !result.ok).length;
+  if (failed > 0) {
+    throw new Error(`${failed} of ${results.length} changes failed`);
+  }
+};
+
+/**
+ * Command for a todo that has just been added
+ */
+export const createCommand = (todo: Todo): UndoCommand => ({
+  label: `Added "${todo.task}"`,
+  undo: () => syncDeleteTodo(currentId(todo.id)),
+  redo: () => recreate([todo]),
+});
+
+/**
+ * Command for a todo that has just been deleted with its subtasks
+ * @param todos - All todos as they were before the deletion
+ * @param id - ID of the deleted todo
+ */
+export const deleteCommand = (todos: Todo[], id: string): UndoCommand => {
+  const snapshot = snapshotTree(todos, id);
+  return {
+    label: `Deleted "${snapshot[0]?.task ?? "task"}"`,
+    destructive: true,
+    undo: () => recreate(snapshot),
+    redo: () => syncDeleteTodo(currentId(id)),
+  };
+};
+
+/**
+ * Command for a todo that has just been updated
+ * @param todo - The todo as it was before the update
+ * @param changes - Fields that were changed
+ * @param label - Description for the user
+ */
+export const updateCommand = (
+  todo: Todo,
+  changes: UpdateTodoRequest,
+  label = `Edited "${todo.task}"`
+): UndoCommand => {
+  const previous = previousValues(todo, changes);
+  return {
+    label,
+    undo: async () => {
+      await syncUpdateTodo(await findTodo(todo.id), previous);
+    },
+    redo: async () => {
+      await syncUpdateTodo(await findTodo(todo.id), changes);
+    },
+  };
+};
+
+/**
+ * Command for a todo that has just been moved in the manual order
+ * @param todo - The todo as it was before the move
+ * @param position - Its new position
+ */
+export const moveCommand = (todo: Todo, position: number): UndoCommand => {
+  const previous = getPosition(todo);
+  return {
+    label: `Moved "${todo.task}"`,
+    undo: async () => {
+      await syncReorderTodo(await findTodo(todo.id), previous);
+    },
+    redo: async () => {
+      await syncReorderTodo(await findTodo(todo.id), position);
+    },
+  };
+};
+
+/**
+ * Command for a batch of changes that has just been applied
+ * @param todos - All todos as they were before the batch
+ * @param operations - The operations that succeeded
+ * @param label - Description for the user
+ */
+export const batchCommand = (
+  todos: Todo[],
+  operations: TodoBatchOperation[],
+  label: string
+): UndoCommand => {
+  const inverseUpdates: TodoBatchOperation[] = [];
+  const deleted: Todo[][] = [];
+  operations.forEach((operation) => {
+    const todo = todos.find((candidate) => candidate.id === operation.id);
+    if (!todo) return;
+    if (operation.type === "update") {
+      inverseUpdates.push({
+        type: "update",
+        id: todo.id,
+        changes: previousValues(todo, operation.changes),
+      });
+    } else {
+      deleted.push(snapshotTree(todos, todo.id));
+    }
+  });
+
+  return {
+    label,
+    destructive: deleted.length > 0,
+    undo: async () => {
+      await applyBatch(inverseUpdates);
+      for (const snapshot of deleted) {
+        await recreate(snapshot);
+      }
+    },
+    redo: () => applyBatch(operations),
+  };
+};
+
+/**
+ * One command made of several, undone in reverse order
+ */
+export const combineCommands = (label: string, commands: UndoCommand[]): UndoCommand => ({
+  label,
+  destructive: commands.some((command) => command.destructive),
+  undo: async () => {
+    for (const command of [...commands].reverse()) {
+      await command.undo();
+    }
+  },
+  redo: async () => {
+    for (const command of commands) {
+      await command.redo();
+    }
+  },
+});
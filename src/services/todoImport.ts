@@ -0,0 +1,84 @@
+/**
+ * Todo Import Service
+ *
+ * Creates imported tasks through the offline-first sync service:
+ * - Parents are created before their subtasks, which then point at the new IDs
+ * - Tasks are sent in small concurrent batches so large imports don't flood the API
+ * - A failed task is reported by title and its subtasks are imported at the top level
+ * - Tasks keep the order they have in the file, after the existing ones
+ */
+
+import { syncCreateTodo } from "./todoSync";
+import { POSITION_STEP } from "../utils/todoOrder";
+import type { CreateTodoRequest, ImportedTask, ImportResult } from "../types";
+
+const BATCH_SIZE = 5;
+
+/**
+ * Create imported tasks
+ * @param tasks - Tasks to create; parentIndex refers to this same list
+ * @param onProgress - Called after each batch with the number of tasks handled so far
+ * @param firstPosition - Position in the manual order for the first task
+ * @returns How many tasks were created and the titles of those that failed
+ */
+export const importTasks = async (
+  tasks: ImportedTask[],
+  onProgress?: (done: number, total: number) => void,
+  firstPosition: number = Date.now()
+): Promise<ImportResult> => {
+  const createdIds = new Map<number, string>();
+  const failed: string[] = [];
+  let done = 0;
+
+  // Nesting depth of each task, so every level can be created after its parents
+  const depthOf = (index: number, seen: Set<number> = new Set()): number => {
+    const parentIndex = tasks[index].parentIndex ?? null;
+    if (parentIndex === null || !tasks[parentIndex] || seen.has(index)) {
+      return 0;
+    }
+    seen.add(index);
+    return depthOf(parentIndex, seen) + 1;
+  };
+  const levels: number[][] = [];
+  tasks.forEach((_, index) => {
+    const depth = depthOf(index);
+    levels[depth] = [...(levels[depth] ?? []), index];
+  });
+
+  for (const level of levels) {
+    for (let offset = 0; offset < level.length; offset += BATCH_SIZE) {
+      const batch = level.slice(offset, offset + BATCH_SIZE);
+      await Promise.all(
+        batch.map(async (index) => {
+          const task = tasks[index];
+          const todoData: CreateTodoRequest = {
+            task: task.task,
+            priority: task.priority,
+            completed: task.completed,
+            parentId:
+              task.parentIndex !== null && task.parentIndex !== undefined
+                ? createdIds.get(task.parentIndex) ?? null
+                : null,
+            dueAt: task.dueAt ?? null,
+            estimatedMinutes: task.estimatedMinutes ?? null,
+            recurrence: task.recurrence ?? null,
+            occurrence: task.recurrence ? 1 : undefined,
+            tags: task.tags?.length ? task.tags : undefined,
+            position: firstPosition + index * POSITION_STEP,
+          };
+          try {
+            const todo = await syncCreateTodo(todoData);
+            createdIds.set(index, todo.id);
+          } catch (error) {
+            console.error("Error importing task:", error);
+            failed.push(task.task);
+          }
+        })
+      );
+      done += batch.length;
+      onProgress?.(done, tasks.length);
+    }
+  }
+
+  return { created: createdIds.size, failed };
+};
@@ -0,0 +1,269 @@
+/**
+ * Local Todo Store
+ *
+ * IndexedDB-backed persistence for the offline-first todo list.
+ * It holds:
+ * - A snapshot of the user's todos that the UI reads from
+ * - A durable outbox of mutations that have not reached the backend yet
+ */
+
+import type { Todo, PendingMutation } from "../types";
+
+const DB_NAME = "dayforge";
+const DB_VERSION = 1;
+const TODOS_STORE = "todos";
+const OUTBOX_STORE = "outbox";
+
+/**
+ * Todo as persisted locally, with its position in the list
+ */
+export type StoredTodo = Todo & { localIndex: number };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolve once a transaction has committed
+ */
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Open (and on first use, create) the DayForge database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TODOS_STORE)) {
+          db.createObjectStore(TODOS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "seq", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Read every locally stored todo
+ * @returns Todos in the order they were last saved
+ */
+export const loadTodos = async (): Promise<Todo[]> => {
+  const db = await openDatabase();
+  const stored = await promisifyRequest<StoredTodo[]>(
+    db.transaction(TODOS_STORE).objectStore(TODOS_STORE).getAll()
+  );
+  return stored
+    .sort((a, b) => a.localIndex - b.localIndex)
+    .map(({ localIndex, ...todo }) => todo);
+};
+
+/**
+ * Replace the local snapshot with a fresh list from the server
+ * @param todos - Todos in display order
+ */
+export const saveTodos = async (todos: Todo[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(TODOS_STORE, "readwrite");
+  const store = transaction.objectStore(TODOS_STORE);
+  store.clear();
+  todos.forEach((todo, index) => store.put({ ...todo, localIndex: index }));
+  await transactionDone(transaction);
+};
+
+/**
+ * Insert or update a single todo, keeping its position if it already exists
+ * @param todo - Todo to store
+ */
+export const putTodo = async (todo: Todo): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(TODOS_STORE, "readwrite");
+  const store = transaction.objectStore(TODOS_STORE);
+  const existing = await promisifyRequest<StoredTodo | undefined>(store.get(todo.id));
+  const localIndex = existing?.localIndex ?? Date.now();
+  store.put({ ...todo, localIndex });
+  await transactionDone(transaction);
+};
+
+/**
+ * Remove todos from the local snapshot
+ * @param ids - IDs of the todos to remove
+ * @returns The removed records, for passing to restoreTodos on rollback
+ */
+export const removeTodos = async (ids: string[]): Promise<StoredTodo[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(TODOS_STORE, "readwrite");
+  const store = transaction.objectStore(TODOS_STORE);
+  const removed: StoredTodo[] = [];
+  for (const id of ids) {
+    const existing = await promisifyRequest<StoredTodo | undefined>(store.get(id));
+    if (existing) {
+      removed.push(existing);
+      store.delete(id);
+    }
+  }
+  await transactionDone(transaction);
+  return removed;
+};
+
+/**
+ * Put previously removed records back at their original positions
+ * @param records - Records returned by removeTodos
+ */
+export const restoreTodos = async (records: StoredTodo[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(TODOS_STORE, "readwrite");
+  const store = transaction.objectStore(TODOS_STORE);
+  records.forEach((record) => store.put(record));
+  await transactionDone(transaction);
+};
+
+/**
+ * Append a mutation to the outbox
+ * @param mutation - Mutation without its sequence number
+ * @returns The stored mutation including its assigned sequence number
+ */
+export const enqueueMutation = async (
+  mutation: Omit<PendingMutation, "seq">
+): Promise<PendingMutation> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(OUTBOX_STORE, "readwrite");
+  const seq = await promisifyRequest(transaction.objectStore(OUTBOX_STORE).add(mutation));
+  await transactionDone(transaction);
+  return { ...mutation, seq: seq as number };
+};
+
+/**
+ * Insert a mutation into the outbox ahead of an existing entry. That entry and
+ * everything behind it are renumbered in a single transaction, keeping their order.
+ * @param mutation - Mutation without its sequence number
+ * @param beforeSeq - Sequence number of the entry it has to replay before
+ */
+export const insertMutationBefore = async (
+  mutation: Omit<PendingMutation, "seq">,
+  beforeSeq: number
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(OUTBOX_STORE, "readwrite");
+  const store = transaction.objectStore(OUTBOX_STORE);
+  const behind = (await promisifyRequest<PendingMutation[]>(store.getAll())).filter(
+    (queued) => queued.seq >= beforeSeq
+  );
+  behind.forEach((queued) => store.delete(queued.seq));
+  store.add(mutation);
+  behind.forEach(({ seq, ...queued }) => store.add(queued));
+  await transactionDone(transaction);
+};
+
+/**
+ * Read the outbox in replay order
+ */
+export const loadMutations = async (): Promise<PendingMutation[]> => {
+  const db = await openDatabase();
+  return promisifyRequest<PendingMutation[]>(
+    db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).getAll()
+  );
+};
+
+/**
+ * Overwrite outbox entries in place (used when coalescing mutations)
+ * @param mutations - Mutations to write back
+ */
+export const updateMutations = async (mutations: PendingMutation[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(OUTBOX_STORE, "readwrite");
+  const store = transaction.objectStore(OUTBOX_STORE);
+  mutations.forEach((mutation) => store.put(mutation));
+  await transactionDone(transaction);
+};
+
+/**
+ * Remove outbox entries once they have been replayed or discarded
+ * @param seqs - Sequence numbers of the mutations to remove
+ */
+export const deleteMutations = async (seqs: number[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(OUTBOX_STORE, "readwrite");
+  const store = transaction.objectStore(OUTBOX_STORE);
+  seqs.forEach((seq) => store.delete(seq));
+  await transactionDone(transaction);
+};
+
+/**
+ * Swap a temporary client ID for the ID the server assigned.
+ * Updates the todo snapshot, subtasks pointing at it and every queued
+ * mutation that references the temporary ID in a single transaction.
+ * A todo deleted locally while its creation was in flight stays deleted; its
+ * queued deletion now targets the server ID.
+ * @param tempId - Client-generated ID used while offline
+ * @param serverTodo - Todo as returned by the backend
+ */
+export const remapTodoId = async (tempId: string, serverTodo: Todo): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([TODOS_STORE, OUTBOX_STORE], "readwrite");
+  const todoStore = transaction.objectStore(TODOS_STORE);
+  const outboxStore = transaction.objectStore(OUTBOX_STORE);
+
+  const existing = await promisifyRequest<StoredTodo | undefined>(todoStore.get(tempId));
+  if (existing) {
+    todoStore.delete(tempId);
+    todoStore.put({ ...existing, ...serverTodo, localIndex: existing.localIndex });
+  }
+
+  const todos = await promisifyRequest<StoredTodo[]>(todoStore.getAll());
+  todos
+    .filter((todo) => todo.parentId === tempId)
+    .forEach((todo) => todoStore.put({ ...todo, parentId: serverTodo.id }));
+
+  const mutations = await promisifyRequest<PendingMutation[]>(outboxStore.getAll());
+  mutations
+    .filter(
+      (mutation) => mutation.todoId === tempId || mutation.payload?.parentId === tempId
+    )
+    .forEach((mutation) =>
+      outboxStore.put({
+        ...mutation,
+        todoId: mutation.todoId === tempId ? serverTodo.id : mutation.todoId,
+        payload:
+          mutation.payload?.parentId === tempId
+            ? { ...mutation.payload, parentId: serverTodo.id }
+            : mutation.payload,
+      })
+    );
+
+  await transactionDone(transaction);
+};
+
+/**
+ * Remove every stored todo and queued mutation, e.g. when signing out
+ */
+export const clearStore = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([TODOS_STORE, OUTBOX_STORE], "readwrite");
+  transaction.objectStore(TODOS_STORE).clear();
+  transaction.objectStore(OUTBOX_STORE).clear();
+  await transactionDone(transaction);
+};
@@ -0,0 +1,206 @@
+/**
+ * Todo Sync Tests
+ *
+ * Runs the offline-aware todo layer against the mock API, checking what ends
+ * up queued in the outbox and how it is replayed once the backend is back.
+ */
+
+import { waitFor } from "@testing-library/react";
+import { loginRequest } from "../authConfig";
+import { initializeAuth, signIn } from "./auth";
+import { createMockAuthProvider } from "./mockAuthProvider";
+import { createMockApi } from "./mockApi";
+import { createTodo, initializeApi, setApiAdapter } from "./api";
+import { AuthError, NotFoundError } from "../utils/errors";
+import { loadMutations } from "./todoStore";
+import {
+  clearLocalTodos,
+  flushOutbox,
+  loadLocalTodos,
+  refreshTodos,
+  syncBatchTodos,
+  syncCreateTodo,
+  syncDeleteTodo,
+  syncUpdateTodo,
+} from "./todoSync";
+import type { CreateTodoRequest, Todo } from "../types";
+
+const TODOS: Todo[] = [
+  { id: "todo-1", task: "Write report", priority: "High", completed: false },
+  { id: "todo-2", task: "Pay rent", priority: "Medium", completed: false },
+];
+
+const mockApi = createMockApi();
+
+/**
+ * Wait until a todo created under a temporary ID shows up locally
+ */
+const findLocalTodo = async (task: string): Promise<Todo> => {
+  let found: Todo | undefined;
+  await waitFor(async () => {
+    found = (await loadLocalTodos()).find((todo) => todo.task === task);
+    expect(found).toBeDefined();
+  });
+  return found as Todo;
+};
+
+beforeAll(async () => {
+  await initializeAuth(createMockAuthProvider());
+  await signIn(loginRequest);
+  initializeApi();
+  setApiAdapter(mockApi.adapter);
+});
+
+beforeEach(async () => {
+  await clearLocalTodos();
+  mockApi.reset({ todos: TODOS });
+  mockApi.setLatency(0);
+  await refreshTodos();
+  // Failed requests are logged; the failures here are expected
+  jest.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("creating a todo while the backend is unreachable", () => {
+  it("replays a failed creation ahead of the edits made while it was in flight", async () => {
+    mockApi.addFault({ method: "post", path: "/todos", status: "network", delayMs: 50 });
+
+    const creating = syncCreateTodo({ task: "Call Sam", priority: "Low" });
+    const local = await findLocalTodo("Call Sam");
+    await syncUpdateTodo(local, { completed: true });
+    await creating;
+
+    expect((await loadMutations()).map(({ type }) => type)).toEqual(["create", "update"]);
+
+    await expect(flushOutbox()).resolves.toMatchObject({ replayed: 2, remaining: 0 });
+    expect(mockApi.getTodos().find((todo) => todo.task === "Call Sam")).toMatchObject({
+      completed: true,
+    });
+    expect((await loadLocalTodos()).map(({ id }) => id)).toEqual(["todo-1", "todo-2", "todo-3"]);
+  });
+
+  it("replays a failed creation ahead of subtasks added while it was in flight", async () => {
+    mockApi.addFault({ method: "post", path: "/todos", status: "network", delayMs: 50 });
+
+    const creating = syncCreateTodo({ task: "Plan trip", priority: "Medium" });
+    const parent = await findLocalTodo("Plan trip");
+    await syncCreateTodo({ task: "Book hotel", priority: "Medium", parentId: parent.id });
+    await creating;
+
+    await expect(flushOutbox()).resolves.toMatchObject({ replayed: 2, remaining: 0 });
+    const stored = mockApi.getTodos();
+    const trip = stored.find((todo) => todo.task === "Plan trip");
+    expect(stored.find((todo) => todo.task === "Book hotel")?.parentId).toBe(trip?.id);
+  });
+});
+
+describe("deleting a todo while its creation is in flight", () => {
+  it("keeps it deleted, and deletes it on the server once it has an ID", async () => {
+    mockApi.setLatency(50);
+
+    const creating = syncCreateTodo({ task: "Call Sam", priority: "Low" });
+    const local = await findLocalTodo("Call Sam");
+    await syncDeleteTodo(local.id);
+    const created = await creating;
+
+    // Before the queued deletion has been replayed too
+    expect((await loadLocalTodos()).map(({ id }) => id)).toEqual(["todo-1", "todo-2"]);
+    await waitFor(async () => expect(await loadMutations()).toEqual([]));
+    expect(mockApi.getRequests().map(({ method, path }) => `${method} ${path}`)).toContain(
+      `delete /todos/${created.id}`
+    );
+    expect(mockApi.getTodos().map(({ task }) => task)).not.toContain("Call Sam");
+  });
+});
+
+describe("creating a todo when the request gets no answer", () => {
+  it("replays the creation without a duplicate, then the edits made since", async () => {
+    mockApi.addFault({ method: "post", path: "/todos", status: "network" });
+
+    await syncCreateTodo({ task: "Call Sam", priority: "Low" });
+    const [creation] = await loadMutations();
+    expect(creation).toMatchObject({ type: "create", unconfirmed: true });
+    // Only the answer was lost: the server did create the todo
+    await createTodo(creation.payload as CreateTodoRequest, {
+      idempotencyKey: creation.todoId,
+    });
+
+    const local = await findLocalTodo("Call Sam");
+    await syncUpdateTodo(local, { completed: true });
+    expect((await loadMutations()).map(({ type }) => type)).toEqual(["create", "update"]);
+
+    await expect(flushOutbox()).resolves.toMatchObject({ replayed: 2, remaining: 0 });
+    expect(mockApi.getTodos().filter((todo) => todo.task === "Call Sam")).toEqual([
+      expect.objectContaining({ completed: true }),
+    ]);
+  });
+
+  it("marks a creation unconfirmed when its replay gets no answer", async () => {
+    const navigatorOnLine = jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    await syncCreateTodo({ task: "Call Sam", priority: "Low" });
+    navigatorOnLine.mockRestore();
+    expect((await loadMutations())[0].unconfirmed).toBeUndefined();
+
+    mockApi.addFault({ method: "post", path: "/todos", status: "network" });
+    await expect(flushOutbox()).resolves.toMatchObject({ replayed: 0, remaining: 1 });
+
+    expect((await loadMutations())[0].unconfirmed).toBe(true);
+  });
+});
+
+describe("batch changes", () => {
+  it("keeps the error each failed change ran into, rolling back only those", async () => {
+    // No batch endpoint, so the changes are sent one by one
+    mockApi.addFault({ method: "post", path: "/todos/batch", status: 404 });
+    mockApi.addFault({ method: "put", path: "/todos/todo-2", status: 403 });
+
+    const results = await syncBatchTodos([
+      { type: "update", id: "todo-1", changes: { completed: true } },
+      { type: "update", id: "todo-2", changes: { completed: true } },
+      { type: "delete", id: "todo-9" },
+    ]);
+
+    expect(results.map(({ ok }) => ok)).toEqual([true, false, false]);
+    expect(results[1].cause).toBeInstanceOf(AuthError);
+    expect(results[2].cause).toBeInstanceOf(NotFoundError);
+    expect((await loadLocalTodos()).map(({ completed }) => completed)).toEqual([true, false]);
+  });
+
+  it("gives every change the error of a batch request the backend refused", async () => {
+    mockApi.addFault({ method: "post", path: "/todos/batch", status: 403 });
+
+    const results = await syncBatchTodos([
+      { type: "update", id: "todo-1", changes: { completed: true } },
+      { type: "delete", id: "todo-2" },
+    ]);
+
+    expect(results.map(({ cause }) => cause)).toEqual([
+      expect.any(AuthError),
+      expect.any(AuthError),
+    ]);
+    expect(await loadLocalTodos()).toHaveLength(2);
+  });
+
+  it("keeps a subtask deleted with its parent earlier in the batch deleted", async () => {
+    const subtask: Todo = {
+      id: "todo-3",
+      task: "Draft outline",
+      priority: "Low",
+      completed: false,
+      parentId: "todo-1",
+    };
+    mockApi.reset({ todos: [...TODOS, subtask] });
+    await refreshTodos();
+
+    const results = await syncBatchTodos([
+      { type: "delete", id: "todo-1" },
+      { type: "update", id: "todo-3", changes: { completed: true } },
+    ]);
+
+    expect(results.map(({ ok }) => ok)).toEqual([true, true]);
+    expect((await loadLocalTodos()).map(({ id }) => id)).toEqual(["todo-2"]);
+  });
+});
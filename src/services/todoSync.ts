@@ -0,0 +1,607 @@
+/**
+ * Todo Sync Service
+ *
+ * Offline-aware layer on top of the todo API. It handles:
+ * - Mirroring every change into the local store so the UI works without a connection
+ * - Queueing mutations in the outbox when the backend is unreachable
+ * - Replaying the outbox once connectivity returns, remapping temporary IDs
+ */
+
+import {
+  getTodos,
+  createTodo,
+  updateTodo,
+  reorderTodo,
+  deleteTodo,
+  batchTodos,
+} from "./api";
+import {
+  loadTodos,
+  saveTodos,
+  putTodo,
+  removeTodos,
+  restoreTodos,
+  enqueueMutation,
+  insertMutationBefore,
+  loadMutations,
+  updateMutations,
+  deleteMutations,
+  remapTodoId,
+  clearStore,
+} from "./todoStore";
+import { NetworkError, NotFoundError, SessionExpiredError } from "../utils/errors";
+import { getDescendantIds } from "../utils/todoTree";
+import type {
+  Todo,
+  CreateTodoRequest,
+  UpdateTodoRequest,
+  PendingMutation,
+  OutboxFlushResult,
+  TodoBatchOperation,
+  TodoBatchResult,
+} from "../types";
+
+const TEMP_ID_PREFIX = "temp-";
+
+// How often to retry a non-empty outbox while the browser claims to be online
+const SYNC_RETRY_INTERVAL_MS = 30000;
+
+type ChangeListener = () => void;
+
+const listeners = new Set<ChangeListener>();
+let activeFlush: Promise<OutboxFlushResult> | null = null;
+// Server IDs of todos that were created under a temporary ID
+const remappedIds = new Map<string, string>();
+
+/**
+ * Subscribe to changes of the local todo snapshot
+ * @param listener - Called after every local write or replay
+ * @returns Unsubscribe function
+ */
+export const subscribeToTodoChanges = (listener: ChangeListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyChange = (): void => {
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Whether a request failed because the backend could not be reached at all
+ * (as opposed to the backend rejecting it). An expired session counts too:
+ * changes wait in the outbox until the user signs in again.
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  error instanceof NetworkError || error instanceof SessionExpiredError;
+
+/**
+ * Whether an ID was generated on the client for a todo created offline
+ */
+export const isTempId = (id: string): boolean => id.startsWith(TEMP_ID_PREFIX);
+
+/**
+ * The current ID of a todo, following it from a temporary ID to its server ID
+ * once its creation has been replayed
+ */
+export const resolveTodoId = (id: string): string => remappedIds.get(id) ?? id;
+
+const createTempId = (): string => {
+  const unique =
+    typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+      ? crypto.randomUUID()
+      : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return `${TEMP_ID_PREFIX}${unique}`;
+};
+
+/**
+ * Requests may go straight to the backend only when we look online and no
+ * earlier mutation is still waiting, otherwise ordering would be lost
+ */
+const canSendDirectly = async (): Promise<boolean> =>
+  navigator.onLine && (await loadMutations()).length === 0;
+
+/**
+ * Append a mutation to the outbox, folding it into the queued creation when
+ * the todo has never reached the server.
+ * A creation queued after its direct request failed goes ahead of the changes
+ * made to the todo (or subtasks added to it) while that request was in flight,
+ * since those can only replay once the todo exists on the server.
+ * Changes to a todo whose creation is unconfirmed queue behind it instead: if
+ * the server did create it, replaying the creation only returns that todo.
+ * @param unconfirmed - For a creation that was sent but got no answer
+ */
+const queueMutation = async (
+  type: PendingMutation["type"],
+  todoId: string,
+  payload?: CreateTodoRequest | UpdateTodoRequest,
+  unconfirmed = false
+): Promise<void> => {
+  const entry = {
+    type,
+    todoId,
+    payload,
+    queuedAt: new Date().toISOString(),
+    ...(unconfirmed ? { unconfirmed } : {}),
+  };
+
+  if (type === "create") {
+    const dependent = (await loadMutations()).find(
+      (queued) => queued.todoId === todoId || queued.payload?.parentId === todoId
+    );
+    if (dependent) {
+      await insertMutationBefore(entry, dependent.seq);
+      return;
+    }
+  } else if (isTempId(todoId)) {
+    const mutations = await loadMutations();
+    const creation = mutations.find(
+      (mutation) =>
+        mutation.type === "create" && mutation.todoId === todoId && !mutation.unconfirmed
+    );
+
+    if (creation) {
+      if (type === "update" || type === "reorder") {
+        await updateMutations([
+          { ...creation, payload: { ...creation.payload, ...payload } as CreateTodoRequest },
+        ]);
+      } else {
+        await deleteMutations(
+          mutations.filter((mutation) => mutation.todoId === todoId).map((m) => m.seq)
+        );
+      }
+      return;
+    }
+  }
+
+  await enqueueMutation(entry);
+};
+
+/**
+ * Read the locally stored todos
+ */
+export const loadLocalTodos = (): Promise<Todo[]> => loadTodos();
+
+/**
+ * IDs of todos with changes that have not reached the server yet
+ */
+export const getPendingTodoIds = async (): Promise<string[]> => {
+  const mutations = await loadMutations();
+  return Array.from(new Set(mutations.map((mutation) => mutation.todoId)));
+};
+
+/**
+ * Forget the local snapshot and the outbox, e.g. before another account signs in
+ */
+export const clearLocalTodos = async (): Promise<void> => {
+  await clearStore();
+  remappedIds.clear();
+  notifyChange();
+};
+
+/**
+ * Replay the outbox and then replace the local snapshot with the server's list.
+ * While mutations are still queued the local snapshot is kept as is.
+ * @returns The todos the UI should display
+ */
+export const refreshTodos = async (): Promise<Todo[]> => {
+  const { remaining } = await flushOutbox();
+  if (remaining > 0) {
+    return loadTodos();
+  }
+
+  const todos = await getTodos();
+  await saveTodos(todos);
+  notifyChange();
+  return todos;
+};
+
+/**
+ * Kick off a replay if changes were queued while a direct request was in flight
+ */
+const flushIfQueued = async (): Promise<void> => {
+  if ((await loadMutations()).length > 0) {
+    flushOutbox().catch((error) => console.error("Error syncing offline changes:", error));
+  }
+};
+
+/**
+ * Drop every queued mutation for a todo
+ */
+const discardQueuedFor = async (todoId: string): Promise<void> => {
+  const mutations = await loadMutations();
+  await deleteMutations(
+    mutations.filter((mutation) => mutation.todoId === todoId).map((m) => m.seq)
+  );
+};
+
+/**
+ * Create a todo. It appears locally under a temporary ID straight away and is
+ * either sent to the backend or queued when offline.
+ * If the backend rejects it the local todo is removed again and the error rethrown.
+ * The temporary ID is sent as the idempotency key, so replaying a creation that
+ * timed out can't create the todo twice.
+ * @param todoData - Todo to create
+ * @returns The server's todo, or the temporary todo if queued
+ */
+export const syncCreateTodo = async (todoData: CreateTodoRequest): Promise<Todo> => {
+  const now = new Date().toISOString();
+  const localTodo: Todo = {
+    ...todoData,
+    id: createTempId(),
+    completed: todoData.completed || false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putTodo(localTodo);
+  notifyChange();
+
+  // A subtask of a todo that only exists locally has to wait for its parent
+  const parentIsLocal = !!todoData.parentId && isTempId(todoData.parentId);
+  let unconfirmed = false;
+
+  if (!parentIsLocal && (await canSendDirectly())) {
+    try {
+      const todo = await createTodo(todoData, { idempotencyKey: localTodo.id });
+      await remapTodoId(localTodo.id, todo);
+      remappedIds.set(localTodo.id, todo.id);
+      notifyChange();
+      await flushIfQueued();
+      return todo;
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        await removeTodos([localTodo.id]);
+        await discardQueuedFor(localTodo.id);
+        notifyChange();
+        throw error;
+      }
+      unconfirmed = error instanceof NetworkError;
+    }
+  }
+
+  await queueMutation("create", localTodo.id, todoData, unconfirmed);
+  notifyChange();
+  return localTodo;
+};
+
+/**
+ * Update a todo. The change is applied locally straight away and is either
+ * sent to the backend or queued when offline.
+ * If the backend rejects it the previous version is restored and the error rethrown.
+ * @param todo - Current version of the todo, used for rollback
+ * @param updateData - Fields to change
+ * @returns The updated todo
+ */
+export const syncUpdateTodo = async (
+  todo: Todo,
+  updateData: UpdateTodoRequest
+): Promise<Todo> => {
+  const optimistic: Todo = { ...todo, ...updateData, updatedAt: new Date().toISOString() };
+  await putTodo(optimistic);
+  notifyChange();
+
+  if (!isTempId(todo.id) && (await canSendDirectly())) {
+    try {
+      const updated = await updateTodo(todo.id, updateData);
+      await putTodo(updated);
+      notifyChange();
+      return updated;
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        await putTodo(todo);
+        notifyChange();
+        throw error;
+      }
+    }
+  }
+
+  await queueMutation("update", todo.id, updateData);
+  notifyChange();
+  return optimistic;
+};
+
+/**
+ * Move a todo within the manual order. The new position is applied locally
+ * straight away and is either sent to the backend or queued when offline.
+ * If the backend rejects it the previous position is restored and the error rethrown.
+ * @param todo - Current version of the todo, used for rollback
+ * @param position - New position among its siblings
+ * @returns The moved todo
+ */
+export const syncReorderTodo = async (todo: Todo, position: number): Promise<Todo> => {
+  const optimistic: Todo = { ...todo, position, updatedAt: new Date().toISOString() };
+  await putTodo(optimistic);
+  notifyChange();
+
+  if (!isTempId(todo.id) && (await canSendDirectly())) {
+    try {
+      const moved = await reorderTodo(todo.id, position);
+      await putTodo(moved);
+      notifyChange();
+      return moved;
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        await putTodo(todo);
+        notifyChange();
+        throw error;
+      }
+    }
+  }
+
+  await queueMutation("reorder", todo.id, { position });
+  notifyChange();
+  return optimistic;
+};
+
+/**
+ * Delete a todo and all of its subtasks. They disappear locally straight away
+ * and the deletion is either sent to the backend or queued when offline.
+ * If the backend rejects it the todos are restored in place and the error rethrown.
+ * @param id - Todo ID
+ */
+export const syncDeleteTodo = async (id: string): Promise<void> => {
+  const descendantIds = getDescendantIds(await loadTodos(), id);
+  const removed = await removeTodos([id, ...descendantIds]);
+  for (const descendantId of descendantIds.filter(isTempId)) {
+    await discardQueuedFor(descendantId);
+  }
+  notifyChange();
+
+  if (!isTempId(id) && (await canSendDirectly())) {
+    try {
+      await deleteTodo(id, { cascade: true });
+      return;
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        await restoreTodos(removed);
+        notifyChange();
+        throw error;
+      }
+    }
+  }
+
+  await queueMutation("delete", id);
+  notifyChange();
+};
+
+/**
+ * Apply several changes at once, e.g. to every selected todo. They all show up
+ * locally straight away and are sent to the backend in one batch, or queued
+ * when offline. Changes the backend rejects are rolled back one by one, so the
+ * rest still go through. Changes to a subtask deleted along with its parent
+ * earlier in the batch are skipped, so they can't bring it back.
+ * @param operations - Updates and (cascading) deletes
+ * @returns One result per operation, in the same order; queued and skipped ones
+ *          count as ok
+ */
+export const syncBatchTodos = async (
+  operations: TodoBatchOperation[]
+): Promise<TodoBatchResult[]> => {
+  const todos = await loadTodos();
+  const now = new Date().toISOString();
+  const rollbacks = new Map<string, () => Promise<void>>();
+  const unsent: TodoBatchResult[] = [];
+  const removedIds = new Set<string>();
+
+  for (const operation of operations) {
+    const todo = todos.find((candidate) => candidate.id === operation.id);
+    if (removedIds.has(operation.id)) {
+      unsent.push({ id: operation.id, ok: true });
+    } else if (!todo) {
+      unsent.push({
+        id: operation.id,
+        ok: false,
+        error: "Task not found",
+        cause: new NotFoundError("Task not found"),
+      });
+    } else if (operation.type === "update") {
+      await putTodo({ ...todo, ...operation.changes, updatedAt: now });
+      rollbacks.set(operation.id, () => putTodo(todo));
+    } else {
+      const descendantIds = getDescendantIds(todos, operation.id);
+      const removed = await removeTodos([operation.id, ...descendantIds]);
+      removed.forEach((removedTodo) => removedIds.add(removedTodo.id));
+      for (const descendantId of descendantIds.filter(isTempId)) {
+        await discardQueuedFor(descendantId);
+      }
+      rollbacks.set(operation.id, () => restoreTodos(removed));
+    }
+  }
+  notifyChange();
+
+  const applied = operations.filter((operation) => rollbacks.has(operation.id));
+  const direct = applied.filter((operation) => !isTempId(operation.id));
+  const sent = new Map<string, TodoBatchResult>();
+  if (direct.length > 0 && (await canSendDirectly())) {
+    try {
+      (await batchTodos(direct)).forEach((result) => sent.set(result.id, result));
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        const message = error instanceof Error ? error.message : String(error);
+        direct.forEach((operation) =>
+          sent.set(operation.id, { id: operation.id, ok: false, error: message, cause: error })
+        );
+      }
+    }
+  }
+
+  const results: TodoBatchResult[] = [];
+  for (const operation of applied) {
+    const result = sent.get(operation.id);
+    if (result && !result.offline) {
+      if (result.ok && result.todo) {
+        await putTodo(result.todo);
+      } else if (!result.ok) {
+        await (rollbacks.get(operation.id) as () => Promise<void>)();
+      }
+      results.push(result);
+    } else {
+      await queueMutation(
+        operation.type,
+        operation.id,
+        operation.type === "update" ? operation.changes : undefined
+      );
+      results.push({ id: operation.id, ok: true, offline: true });
+    }
+  }
+  notifyChange();
+  if (sent.size > 0) {
+    await flushIfQueued();
+  }
+
+  return operations.map(
+    (operation) =>
+      results.find((result) => result.id === operation.id) ??
+      (unsent.find((result) => result.id === operation.id) as TodoBatchResult)
+  );
+};
+
+/**
+ * Send a single queued mutation to the backend
+ */
+const replayMutation = async (mutation: PendingMutation): Promise<void> => {
+  switch (mutation.type) {
+    case "create": {
+      const todo = await createTodo(mutation.payload as CreateTodoRequest, {
+        idempotencyKey: mutation.todoId,
+      });
+      await remapTodoId(mutation.todoId, todo);
+      remappedIds.set(mutation.todoId, todo.id);
+      break;
+    }
+    case "update": {
+      const todo = await updateTodo(mutation.todoId, mutation.payload as UpdateTodoRequest);
+      await putTodo(todo);
+      break;
+    }
+    case "reorder": {
+      const position = (mutation.payload as UpdateTodoRequest).position ?? 0;
+      const todo = await reorderTodo(mutation.todoId, position);
+      await putTodo(todo);
+      break;
+    }
+    case "delete": {
+      try {
+        await deleteTodo(mutation.todoId, { cascade: true });
+      } catch (error) {
+        // Already gone on the server counts as replayed
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+      await removeTodos([
+        mutation.todoId,
+        ...getDescendantIds(await loadTodos(), mutation.todoId),
+      ]);
+      break;
+    }
+  }
+  await deleteMutations([mutation.seq]);
+};
+
+/**
+ * Drop a mutation the server refused. A refused creation also takes the
+ * local todo, its local subtasks and everything queued against them with it.
+ */
+const discardMutation = async (mutation: PendingMutation): Promise<void> => {
+  if (mutation.type !== "create") {
+    await deleteMutations([mutation.seq]);
+    return;
+  }
+
+  const ids = [mutation.todoId, ...getDescendantIds(await loadTodos(), mutation.todoId)];
+  for (const id of ids) {
+    await discardQueuedFor(id);
+  }
+  await removeTodos(ids);
+};
+
+const replayOutbox = async (): Promise<OutboxFlushResult> => {
+  let replayed = 0;
+  const rejected: PendingMutation[] = [];
+
+  // Re-read the head of the queue each time: replaying a creation rewrites
+  // the IDs of the entries behind it
+  for (;;) {
+    const [next] = await loadMutations();
+    if (!next) {
+      break;
+    }
+    // A temporary ID at the head means its (or its parent's) creation is
+    // still in flight
+    const parentId = next.type === "create" ? next.payload?.parentId : null;
+    if (
+      (next.type !== "create" && isTempId(next.todoId)) ||
+      (parentId && isTempId(parentId))
+    ) {
+      break;
+    }
+
+    try {
+      await replayMutation(next);
+      replayed += 1;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        if (next.type === "create" && error instanceof NetworkError && !next.unconfirmed) {
+          await updateMutations([{ ...next, unconfirmed: true }]);
+        }
+        break;
+      }
+      console.error("Discarding rejected offline change:", error);
+      rejected.push(next);
+      await discardMutation(next);
+    }
+  }
+
+  if (replayed > 0 || rejected.length > 0) {
+    notifyChange();
+  }
+
+  return {
+    replayed,
+    rejected,
+    remaining: (await loadMutations()).length,
+  };
+};
+
+/**
+ * Replay queued mutations in order. Concurrent calls share a single run.
+ * @returns How many mutations were replayed, rejected or are still waiting
+ */
+export const flushOutbox = (): Promise<OutboxFlushResult> => {
+  if (!activeFlush) {
+    activeFlush = replayOutbox().finally(() => {
+      activeFlush = null;
+    });
+  }
+  return activeFlush;
+};
+
+/**
+ * Flush the outbox now, whenever the browser comes back online and
+ * periodically while changes are waiting
+ * @returns Function that stops background syncing
+ */
+export const startBackgroundSync = (): (() => void) => {
+  const sync = async (): Promise<void> => {
+    if (!navigator.onLine || (await loadMutations()).length === 0) {
+      return;
+    }
+    try {
+      await flushOutbox();
+    } catch (error) {
+      console.error("Error syncing offline changes:", error);
+    }
+  };
+
+  window.addEventListener("online", sync);
+  const interval = window.setInterval(sync, SYNC_RETRY_INTERVAL_MS);
+  sync();
+
+  return () => {
+    window.removeEventListener("online", sync);
+    window.clearInterval(interval);
+  };
+};
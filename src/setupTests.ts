@@ -0,0 +1,21 @@
+/**
+ * Test Setup
+ *
+ * Runs before every test file:
+ * - jest-dom matchers such as toBeInTheDocument
+ * - An in-memory IndexedDB for the local todo store
+ * - Browser APIs the jsdom version bundled with react-scripts lacks
+ */
+
+import "@testing-library/jest-dom";
+import "fake-indexeddb/auto";
+import { TextDecoder, TextEncoder } from "util";
+
+// Used for the mock provider's tokens
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+// fake-indexeddb copies values with structuredClone; the stored records are plain JSON
+if (typeof globalThis.structuredClone !== "function") {
+  globalThis.structuredClone = <T>(value: T): T =>
+    value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -1,28 +1,51 @@
 /**
  * Type Definitions for DayForge Application
  *
- * Contains all TypeScript interfaces and types used throughout the application
+ * Contains all TypeScript interfaces and types used throughout the application;
+ * the types of API payloads are derived from their runtime schemas in ./schemas
  */
 
+import type { Infer } from "./schema";
+import type {
+  todoSchema,
+  todoBatchResultSchema,
+  scheduleItemSchema,
+  savedScheduleSchema,
+  rawScheduleItemSchema,
+  workPeriodSchema,
+  habitsSchema,
+  habitProfileSchema,
+  weekdayHabitsSchema,
+  habitsSettingsSchema,
+} from "./schemas";
+
 /**
  * Represents a single todo/task item
+ * recurrence is an iCalendar RRULE (e.g. "FREQ=WEEKLY;BYDAY=MO") and occurrence
+ * the 1-based position of this instance in its series; completedAt records when
+ * the todo was last checked off; tags are lowercase labels without the "#",
+ * project is the name of the project the todo belongs to and position its place
+ * among its siblings in the manual order (fractional, lower comes first)
  */
-export interface Todo {
-  id: string;
-  task: string;
-  priority: "High" | "Medium" | "Low";
-  completed: boolean;
-  createdAt?: string;
-  updatedAt?: string;
-}
+export type Todo = Infer<typeof todoSchema>;
 
 /**
  * Request payload for creating a new todo
+ * completedAt is only given when putting back a todo that was already done
  */
 export interface CreateTodoRequest {
   task: string;
   priority: "High" | "Medium" | "Low";
   completed?: boolean;
+  completedAt?: string | null;
+  parentId?: string | null;
+  dueAt?: string | null;
+  estimatedMinutes?: number | null;
+  recurrence?: string | null;
+  occurrence?: number;
+  tags?: string[];
+  project?: string | null;
+  position?: number | null;
 }
 
 /**
@@ -32,35 +55,326 @@ export interface UpdateTodoRequest {
   task?: string;
   priority?: "High" | "Medium" | "Low";
   completed?: boolean;
+  parentId?: string | null;
+  dueAt?: string | null;
+  estimatedMinutes?: number | null;
+  recurrence?: string | null;
+  occurrence?: number;
+  tags?: string[];
+  project?: string | null;
+  position?: number | null;
+  completedAt?: string | null;
+}
+
+/**
+ * A todo mutation waiting in the offline outbox to be replayed against /todos
+ */
+export interface PendingMutation {
+  seq: number;
+  type: "create" | "update" | "reorder" | "delete";
+  todoId: string;
+  payload?: CreateTodoRequest | UpdateTodoRequest;
+  queuedAt: string;
+  // A creation that was sent but never answered (e.g. it timed out), so the todo
+  // may already exist on the server
+  unconfirmed?: boolean;
+}
+
+/**
+ * One change in a batch of todo changes; deleting a todo also deletes its subtasks
+ */
+export type TodoBatchOperation =
+  | { type: "update"; id: string; changes: UpdateTodoRequest }
+  | { type: "delete"; id: string };
+
+/**
+ * Outcome of one operation in a batch
+ * todo is the updated todo; offline marks an operation that never reached the
+ * backend, as opposed to one the backend rejected. cause is the error a failed
+ * operation ran into on this device, kept for describing it to the user; it is
+ * never sent or received.
+ */
+export type TodoBatchResult = Infer<typeof todoBatchResultSchema> & { cause?: unknown };
+
+/**
+ * Outcome of replaying the offline outbox
+ */
+export interface OutboxFlushResult {
+  replayed: number;
+  rejected: PendingMutation[];
+  remaining: number;
+}
+
+/**
+ * Client-side state of an optimistic change to a single todo
+ */
+export interface TodoMutationStatus {
+  state: "pending" | "failed";
+  error?: string;
+}
+
+/**
+ * A change that can be undone and redone
+ * label describes it for the user (e.g. Deleted "Report"); scope groups commands that
+ * can be forgotten together, e.g. the edits of one day's schedule; destructive
+ * ones (deletions) are offered for undo straight away in a toast
+ */
+export interface UndoCommand {
+  label: string;
+  scope?: string;
+  destructive?: boolean;
+  undo: () => Promise<void> | void;
+  redo: () => Promise<void> | void;
+}
+
+/**
+ * How the task list is sorted
+ * - manual: the order the user arranged by dragging
+ * - created: oldest first, in the order todos were added
+ * - priority: High first, then by due date
+ * - due: soonest due first, undated last
+ */
+export type TodoSort = "manual" | "created" | "priority" | "due";
+
+/**
+ * Filters applied to the task list (kept in the page URL)
+ * query matches words in the task text; tags must all be present
+ */
+export interface TodoFilters {
+  query: string;
+  tags: string[];
+  project: string | null;
+  priority: Todo["priority"] | null;
+  status: "all" | "open" | "done";
+  sort: TodoSort;
 }
 
+/**
+ * File formats tasks can be imported from
+ */
+export type ImportFormat = "csv" | "markdown" | "ical" | "mstodo";
+
+/**
+ * A task read from an import file, before it is created
+ * parentIndex points at the task's parent within the same import.
+ */
+export interface ImportedTask {
+  task: string;
+  priority: "High" | "Medium" | "Low";
+  completed: boolean;
+  dueAt?: string | null;
+  estimatedMinutes?: number | null;
+  recurrence?: string | null;
+  tags?: string[];
+  parentIndex?: number | null;
+}
+
+/**
+ * Rows of a delimited (CSV/TSV) file
+ */
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Which CSV column (by index) holds each task field; null when there is none
+ */
+export interface ImportColumnMapping {
+  task: number | null;
+  priority: number | null;
+  completed: number | null;
+  dueAt: number | null;
+}
+
+/**
+ * Outcome of creating imported tasks
+ */
+export interface ImportResult {
+  created: number;
+  failed: string[];
+}
+
+/**
+ * A stretch of working time within a day, as "HH:MM" times
+ */
+export type WorkPeriod = Infer<typeof workPeriodSchema>;
+
 /**
  * Represents user habits and preferences for schedule generation
+ * workPeriods, when present, replaces the single start–end window (split shifts;
+ * empty on a day off) and workStartTime/workEndTime then span all of it
  */
-export interface Habits {
-  workStartTime: string;
-  workEndTime: string;
-  breakDuration: number;
-  breakFrequency: number;
-  focusArea: string;
+export type Habits = Infer<typeof habitsSchema>;
+
+/**
+ * A named set of habits, e.g. "Maker day" or "Meeting-heavy"
+ */
+export type HabitProfile = Infer<typeof habitProfileSchema>;
+
+/**
+ * Per-weekday adjustments on top of the default profile
+ * - profileId: use another profile on this weekday
+ * - dayOff: not a working day
+ * - workPeriods: working hours for this weekday, e.g. a split shift
+ */
+export type WeekdayHabits = Infer<typeof weekdayHabitsSchema>;
+
+/**
+ * Everything the user has set up about their working habits
+ * weekdays has seven entries, indexed like Date.getDay() (0 = Sunday)
+ */
+export type HabitsSettings = Infer<typeof habitsSettingsSchema>;
+
+/**
+ * The habits that apply on a particular date
+ */
+export interface ActiveHabits {
+  profile: HabitProfile;
+  habits: Habits;
+  dayOff: boolean;
+}
+
+/**
+ * The habit questionnaire as typed by the user, before validation
+ */
+export type HabitsDraft = { [K in keyof Habits]: string };
+
+/**
+ * Validation messages for the habit questionnaire, by field
+ */
+export type HabitsErrors = Partial<Record<keyof Habits, string>>;
+
+/**
+ * Habit settings as cached on this device; synced is false until the backend has them
+ */
+export interface CachedHabits {
+  settings: HabitsSettings;
+  updatedAt: string;
+  synced: boolean;
 }
 
 /**
- * Represents a single scheduled item in the daily schedule
+ * Progress of saving habits to the backend
  */
-export interface ScheduleItem {
-  time: string;
+export type HabitsSaveState = "idle" | "saving" | "saved" | "offline" | "error";
+
+/**
+ * A schedule item as returned by the /schedule endpoint, before validation
+ */
+export type RawScheduleItem = Infer<typeof rawScheduleItemSchema>;
+
+/**
+ * Represents a single validated block in the daily schedule
+ * start and end are minutes since midnight; breaks are blocks of their own and
+ * events are fixed blocks taken from the user's calendar
+ */
+export type ScheduleItem = Infer<typeof scheduleItemSchema>;
+
+/**
+ * How a calendar event shows the user's availability (Microsoft Graph freeBusyStatus)
+ */
+export type CalendarShowAs =
+  | "free"
+  | "tentative"
+  | "busy"
+  | "oof"
+  | "workingElsewhere"
+  | "unknown";
+
+/**
+ * A calendar event on a given day, clipped to that day
+ * start and end are minutes since midnight in local time
+ */
+export interface CalendarEvent {
+  id: string;
+  subject: string;
+  start: number;
+  end: number;
+  showAs: CalendarShowAs;
+  isAllDay: boolean;
+}
+
+/**
+ * A stretch of time the scheduler must keep free, as local "HH:MM" times
+ */
+export interface BusyInterval {
+  start: string;
+  end: string;
+  subject: string;
+}
+
+/**
+ * Whether calendar events could be loaded for the selected day
+ * (needsConsent: the user has to connect their calendar first)
+ */
+export type CalendarStatus = "idle" | "loading" | "ready" | "unavailable" | "needsConsent";
+
+/**
+ * Where the displayed schedule came from:
+ * - preview: local engine output shown while the AI request is in flight
+ * - ai: response from the /schedule endpoint
+ * - local: local engine output used because the AI was unavailable
+ */
+export type ScheduleSource = "preview" | "ai" | "local";
+
+/**
+ * The schedule kept for one calendar day, stored locally and at /schedules/{date}
+ * date is a YYYY-MM-DD key; source is where the schedule started out and edited
+ * whether the user has changed it by hand since
+ */
+export type SavedSchedule = Infer<typeof savedScheduleSchema>;
+
+/**
+ * One version of a day's schedule, kept so an edit can be undone or redone
+ */
+export interface ScheduleSnapshot {
+  date: string;
+  items: ScheduleItem[];
+  source: ScheduleSource;
+  edited: boolean;
+}
+
+/**
+ * How one planned todo turned out on the day it was scheduled:
+ * - done: completed that day
+ * - done-other-day: completed, but on another day
+ * - open: still not completed
+ * - removed: the todo no longer exists
+ */
+export type PlannedTaskStatus = "done" | "done-other-day" | "open" | "removed";
+
+export interface PlannedTaskOutcome {
+  todoId: string;
   task: string;
-  duration: string;
-  breakDuration?: string | number;
+  plannedMinutes: number;
+  status: PlannedTaskStatus;
+}
+
+/**
+ * Plan vs. actual for one day
+ */
+export interface PlanReview {
+  planned: PlannedTaskOutcome[];
+  unplannedCompleted: Todo[];
+  completedCount: number;
 }
 
 /**
  * Request payload for generating a schedule
+ * Todos carry their due dates and estimates so the schedule can respect
+ * deadlines and real durations, and come in the user's manual order, which
+ * breaks ties between todos of the same priority; date and timeZone anchor those deadlines.
+ * habits are the ones active on that date and profile names their profile;
+ * busy lists calendar meetings the schedule must not overlap.
  */
 export interface GenerateScheduleRequest {
   todos: Todo[];
   habits: Habits;
+  profile?: string;
+  busy: BusyInterval[];
+  date: string;
+  timeZone: string;
 }
 
 /**
@@ -100,3 +414,51 @@ export interface UserAccount {
   username?: string;
   [key: string]: any;
 }
+
+/**
+ * Identity providers the app can sign in with
+ */
+export type AuthProviderKind = "msal" | "oidc" | "mock";
+
+/**
+ * A signed-in account, whichever provider it comes from
+ */
+export interface AuthAccount {
+  id: string;
+  name: string;
+  username: string;
+}
+
+/**
+ * Generic OpenID Connect provider configuration (authorization code flow with PKCE)
+ */
+export interface OidcConfig {
+  authority: string;
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+  displayName: string;
+}
+
+/**
+ * An identity provider: signs accounts in and out and issues their access tokens
+ * acquireTokenSilent fails with InteractionRequiredError (see services/auth) when
+ * the user has to take part; acquireTokenInteractive may leave the page to sign in,
+ * in which case it never settles.
+ */
+export interface AuthProvider {
+  kind: AuthProviderKind;
+  displayName: string;
+  initialize: () => Promise<void>;
+  getAccounts: () => AuthAccount[];
+  getActiveAccount: () => AuthAccount | null;
+  setActiveAccount: (account: AuthAccount) => void;
+  login: (request: LoginRequest, options?: { selectAccount?: boolean }) => Promise<AuthAccount>;
+  logout: (account: AuthAccount) => Promise<void>;
+  acquireTokenSilent: (
+    request: ApiRequest,
+    account: AuthAccount,
+    forceRefresh: boolean
+  ) => Promise<string>;
+  acquireTokenInteractive: (request: ApiRequest, account: AuthAccount) => Promise<string>;
+}
@@ -0,0 +1,242 @@
+/**
+ * Schema Builders
+ *
+ * Small runtime schemas for checking data that comes from outside the app
+ * (API responses), with the static type of each schema derived through Infer:
+ * - Primitives (string, number, boolean, isoDate, oneOf), arrays, objects,
+ *   optional and nullable values, unions and fallbacks
+ * - Parsing coerces what has an obvious fix (a numeric string where a number
+ *   belongs, "high" for "High") and records an issue for every coercion
+ * - Values that cannot be fixed are dropped where that is possible: invalid
+ *   optional fields and array entries, and fields with a fallback (strictArray
+ *   fails as a whole instead, for lists that are only useful complete)
+ * - Unknown object keys are left out of the result
+ *
+ * validate() returns the value together with the issues, so callers choose
+ * between rejecting anything imperfect (strict) and using the repaired value
+ * (lenient).
+ */
+
+export type ValidationMode = "strict" | "lenient";
+
+const INVALID: unique symbol = Symbol("invalid");
+type Invalid = typeof INVALID;
+
+interface ParseContext {
+  issues: string[];
+}
+
+export interface Schema<T> {
+  readonly optional: boolean;
+  parse: (value: unknown, context: ParseContext, path: string) => T | Invalid;
+}
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+/**
+ * The static type a schema checks for
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { optional: true } ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+  }
+>;
+
+const fail = (context: ParseContext, path: string, message: string): Invalid => {
+  context.issues.push(`${path || "value"}: ${message}`);
+  return INVALID;
+};
+
+const coerced = <T>(context: ParseContext, path: string, value: T, from: unknown): T => {
+  context.issues.push(`${path || "value"}: coerced ${JSON.stringify(from)}`);
+  return value;
+};
+
+const schema = <T>(parse: Schema<T>["parse"]): Schema<T> => ({ optional: false, parse });
+
+export const string = (): Schema<string> =>
+  schema((value, context, path) => {
+    if (typeof value === "string") return value;
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return coerced(context, path, String(value), value);
+    }
+    return fail(context, path, value === undefined ? "is missing" : "expected a string");
+  });
+
+export const number = (): Schema<number> =>
+  schema((value, context, path) => {
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    if (typeof value === "string" && value.trim() && Number.isFinite(Number(value))) {
+      return coerced(context, path, Number(value), value);
+    }
+    return fail(context, path, value === undefined ? "is missing" : "expected a number");
+  });
+
+export const boolean = (): Schema<boolean> =>
+  schema((value, context, path) => {
+    if (typeof value === "boolean") return value;
+    if (value === "true" || value === 1) return coerced(context, path, true, value);
+    if (value === "false" || value === 0) return coerced(context, path, false, value);
+    return fail(context, path, value === undefined ? "is missing" : "expected true or false");
+  });
+
+/**
+ * A date-time string that Date can read, such as an ISO 8601 timestamp
+ */
+export const isoDate = (): Schema<string> =>
+  schema((value, context, path) => {
+    if (typeof value === "string" && !Number.isNaN(Date.parse(value))) return value;
+    return fail(context, path, value === undefined ? "is missing" : "expected a date");
+  });
+
+/**
+ * One of a fixed set of strings; other capitalisations are coerced
+ * @param values - Allowed values, e.g. ["High", "Medium", "Low"] as const
+ */
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> =>
+  schema((value, context, path) => {
+    if (typeof value === "string") {
+      if ((values as readonly string[]).includes(value)) return value as T;
+      const match = values.find((candidate) => candidate.toLowerCase() === value.toLowerCase());
+      if (match) return coerced(context, path, match, value);
+    }
+    return fail(context, path, `expected one of ${values.join(", ")}`);
+  });
+
+/**
+ * A list; entries that fail their schema are left out
+ */
+export const array = <T>(item: Schema<T>): Schema<T[]> =>
+  schema((value, context, path) => {
+    if (!Array.isArray(value)) {
+      return fail(context, path, value === undefined ? "is missing" : "expected a list");
+    }
+    return value.reduce<T[]>((items, entry, index) => {
+      const parsed = item.parse(entry, context, `${path}[${index}]`);
+      if (parsed === INVALID) {
+        context.issues.push(`${path}[${index}]: left out`);
+      } else {
+        items.push(parsed);
+      }
+      return items;
+    }, []);
+  });
+
+/**
+ * A list that fails if any of its entries does
+ */
+export const strictArray = <T>(item: Schema<T>): Schema<T[]> =>
+  schema((value, context, path) => {
+    if (!Array.isArray(value)) {
+      return fail(context, path, value === undefined ? "is missing" : "expected a list");
+    }
+    const items = value.map((entry, index) => item.parse(entry, context, `${path}[${index}]`));
+    return items.some((parsed) => parsed === INVALID) ? INVALID : (items as T[]);
+  });
+
+/**
+ * An object with the given fields; it fails if a required field does
+ */
+export const object = <S extends Shape>(shape: S): Schema<InferShape<S>> =>
+  schema((value, context, path) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return fail(context, path, value === undefined ? "is missing" : "expected an object");
+    }
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    let valid = true;
+    Object.entries(shape).forEach(([key, field]) => {
+      const parsed = field.parse(record[key], context, path ? `${path}.${key}` : key);
+      if (parsed === INVALID) {
+        valid = false;
+      } else if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    });
+    return valid ? (result as InferShape<S>) : INVALID;
+  });
+
+/**
+ * A field that may be left out; null counts as left out, and an invalid value is dropped
+ */
+export const optional = <T>(inner: Schema<T>): OptionalSchema<T> => ({
+  optional: true,
+  parse: (value, context, path) => {
+    if (value === undefined || value === null) return undefined;
+    const parsed = inner.parse(value, context, path);
+    return parsed === INVALID ? undefined : parsed;
+  },
+});
+
+/**
+ * A value that may be null (wrap in optional() for fields that may also be left out)
+ */
+export const nullable = <T>(inner: Schema<T>): Schema<T | null> => ({
+  optional: false,
+  parse: (value, context, path) => {
+    if (value === null) return null;
+    return inner.parse(value, context, path);
+  },
+});
+
+/**
+ * A value matching either of two schemas
+ */
+export const union = <A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> =>
+  schema((value, context, path) => {
+    const scratch: ParseContext = { issues: [] };
+    const parsed = first.parse(value, scratch, path);
+    if (parsed !== INVALID && scratch.issues.length === 0) return parsed;
+    return second.parse(value, context, path);
+  });
+
+/**
+ * A required value that is replaced by a fallback when missing or invalid
+ */
+export const withFallback = <T>(inner: Schema<T>, fallback: T): Schema<T> =>
+  schema((value, context, path) => {
+    const scratch: ParseContext = { issues: [] };
+    const parsed = inner.parse(value, scratch, path);
+    if (parsed === INVALID) {
+      const [reason = `${path}: is invalid`] = scratch.issues;
+      context.issues.push(`${reason}, used ${JSON.stringify(fallback)}`);
+      return fallback;
+    }
+    context.issues.push(...scratch.issues);
+    return parsed;
+  });
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; issues: string[] }
+  | { ok: false; issues: string[] };
+
+/**
+ * Check a value against a schema
+ * @param target - Schema to check against
+ * @param value - Untrusted data
+ * @param label - Prefix for issue paths, e.g. "todos"
+ * @returns The parsed value (unless it could not be repaired) and every issue found
+ */
+export const validate = <T>(
+  target: Schema<T>,
+  value: unknown,
+  label = ""
+): ValidationResult<T> => {
+  const context: ParseContext = { issues: [] };
+  const parsed = target.parse(value, context, label);
+  return parsed === INVALID
+    ? { ok: false, issues: context.issues }
+    : { ok: true, value: parsed, issues: context.issues };
+};
@@ -0,0 +1,127 @@
+/**
+ * API Schemas
+ *
+ * Runtime schemas of the payloads the backend returns; the matching static
+ * types in ./index are derived from them, so the two cannot drift apart.
+ * Fields the UI cannot do without (a todo's id and task) make a record invalid;
+ * others fall back to a safe default or are dropped when malformed.
+ *
+ * Schedules from the AI /schedule endpoint and habit settings are then read by
+ * normalizeSchedule in utils/scheduleModel and sanitizeHabitsSettings in
+ * utils/habits, which also deal with what these schemas reject in lenient mode.
+ */
+
+import {
+  string,
+  number,
+  boolean,
+  isoDate,
+  oneOf,
+  array,
+  strictArray,
+  object,
+  optional,
+  nullable,
+  union,
+  withFallback,
+} from "./schema";
+
+// Timestamp used when a saved schedule has none: older than any local edit
+const UNKNOWN_TIMESTAMP = new Date(0).toISOString();
+
+export const todoSchema = object({
+  id: string(),
+  task: string(),
+  priority: withFallback(oneOf(["High", "Medium", "Low"] as const), "Medium"),
+  completed: withFallback(boolean(), false),
+  parentId: optional(nullable(string())),
+  dueAt: optional(nullable(isoDate())),
+  estimatedMinutes: optional(nullable(number())),
+  recurrence: optional(nullable(string())),
+  occurrence: optional(number()),
+  tags: optional(array(string())),
+  project: optional(nullable(string())),
+  position: optional(nullable(number())),
+  completedAt: optional(nullable(isoDate())),
+  createdAt: optional(isoDate()),
+  updatedAt: optional(isoDate()),
+});
+
+export const todoListSchema = array(todoSchema);
+
+export const todoBatchResultSchema = object({
+  id: string(),
+  ok: withFallback(boolean(), false),
+  todo: optional(todoSchema),
+  error: optional(string()),
+  offline: optional(boolean()),
+});
+
+export const todoBatchResponseSchema = object({
+  results: optional(array(todoBatchResultSchema)),
+});
+
+export const scheduleItemSchema = object({
+  start: number(),
+  end: number(),
+  durationMinutes: number(),
+  task: string(),
+  kind: withFallback(oneOf(["task", "break", "event"] as const), "task"),
+  todoId: optional(string()),
+  eventId: optional(string()),
+});
+
+export const savedScheduleSchema = object({
+  date: string(),
+  items: array(scheduleItemSchema),
+  source: withFallback(oneOf(["preview", "ai", "local"] as const), "ai"),
+  edited: withFallback(boolean(), false),
+  updatedAt: withFallback(isoDate(), UNKNOWN_TIMESTAMP),
+});
+
+// Times and durations are read by normalizeSchedule, which accepts many formats
+export const rawScheduleItemSchema = object({
+  time: string(),
+  task: string(),
+  duration: union(number(), string()),
+  breakDuration: optional(union(number(), string())),
+  todoId: optional(string()),
+});
+
+// A schedule missing some of its items is no use, so one bad item rejects it
+export const rawScheduleSchema = strictArray(rawScheduleItemSchema);
+
+// The same list, wrapped as { schedule: [...] }
+export const wrappedRawScheduleSchema = object({ schedule: rawScheduleSchema });
+
+export const workPeriodSchema = object({
+  start: string(),
+  end: string(),
+});
+
+export const habitsSchema = object({
+  workStartTime: string(),
+  workEndTime: string(),
+  breakDuration: number(),
+  breakFrequency: number(),
+  focusArea: withFallback(string(), ""),
+  workPeriods: optional(array(workPeriodSchema)),
+});
+
+export const habitProfileSchema = object({
+  id: string(),
+  name: string(),
+  habits: habitsSchema,
+});
+
+export const weekdayHabitsSchema = object({
+  profileId: optional(nullable(string())),
+  dayOff: optional(boolean()),
+  workPeriods: optional(nullable(array(workPeriodSchema))),
+});
+
+export const habitsSettingsSchema = object({
+  profiles: array(habitProfileSchema),
+  defaultProfileId: string(),
+  weekdays: array(weekdayHabitsSchema),
+});
@@ -0,0 +1,103 @@
+/**
+ * Calendar Busy Time
+ *
+ * Turns calendar events into constraints for the scheduler:
+ * - Which events block time (free and cancelled events don't; all-day events
+ *   only when the user is out of office)
+ * - Busy intervals for the /schedule request
+ * - Fixed "event" blocks shown on the schedule
+ * - Working time with the busy stretches cut out, for the local engine
+ */
+
+import type { BusyInterval, CalendarEvent, ScheduleItem } from "../types";
+import { formatClockTime } from "./scheduleModel";
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Events that the schedule has to work around
+ */
+export const getBlockingEvents = (events: CalendarEvent[]): CalendarEvent[] =>
+  events.filter((event) =>
+    event.isAllDay
+      ? event.showAs === "oof"
+      : event.showAs !== "free" && event.showAs !== "workingElsewhere"
+  );
+
+/**
+ * Busy intervals to send with a /schedule request
+ */
+export const toBusyIntervals = (events: CalendarEvent[]): BusyInterval[] =>
+  getBlockingEvents(events).map((event) => ({
+    start: formatClockTime(event.start),
+    end: formatClockTime(event.end),
+    subject: event.subject,
+  }));
+
+/**
+ * Fixed schedule blocks for the events that block time
+ */
+export const toEventItems = (events: CalendarEvent[]): ScheduleItem[] =>
+  getBlockingEvents(events).map((event) => ({
+    start: event.start,
+    end: event.end,
+    durationMinutes: event.end - event.start,
+    task: event.subject,
+    kind: "event",
+    eventId: event.id,
+  }));
+
+/**
+ * Remove busy stretches from working periods
+ * @param periods - Working periods in order
+ * @param busy - Busy intervals in any order (may overlap)
+ * @returns The free parts of the working periods, in order
+ */
+export const subtractIntervals = (periods: Interval[], busy: Interval[]): Interval[] => {
+  const sortedBusy = [...busy].sort((a, b) => a.start - b.start);
+  const free: Interval[] = [];
+
+  periods.forEach((period) => {
+    let cursor = period.start;
+    sortedBusy.forEach((interval) => {
+      if (interval.end <= cursor || interval.start >= period.end) return;
+      if (interval.start > cursor) {
+        free.push({ start: cursor, end: interval.start });
+      }
+      cursor = Math.max(cursor, interval.end);
+    });
+    if (cursor < period.end) {
+      free.push({ start: cursor, end: period.end });
+    }
+  });
+
+  return free;
+};
+
+/**
+ * Add calendar events to a schedule as fixed blocks
+ * Items the AI echoed back for the same meetings are replaced by the events.
+ * @param items - Schedule without calendar events
+ * @param events - The day's calendar events
+ * @returns The combined schedule in chronological order
+ */
+export const mergeEventsIntoSchedule = (
+  items: ScheduleItem[],
+  events: CalendarEvent[]
+): ScheduleItem[] => {
+  const eventItems = toEventItems(events);
+  const isEcho = (item: ScheduleItem): boolean =>
+    eventItems.some(
+      (event) =>
+        event.task.trim().toLowerCase() === item.task.trim().toLowerCase() &&
+        item.start < event.end &&
+        item.end > event.start
+    );
+
+  return [...items.filter((item) => item.kind !== "event" && !isEcho(item)), ...eventItems].sort(
+    (a, b) => a.start - b.start || a.end - b.end
+  );
+};
@@ -0,0 +1,111 @@
+/**
+ * Date Utilities
+ *
+ * Helpers for due dates and durations:
+ * - Classifying a due date as overdue / due today / upcoming
+ * - Converting between ISO strings and <input type="datetime-local"> values
+ * - Formatting dates and minute counts for display
+ * - Stepping through calendar days by their YYYY-MM-DD key
+ */
+
+export type DueStatus = "overdue" | "today" | "upcoming";
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+/**
+ * Calendar date in local time as YYYY-MM-DD
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Parse a YYYY-MM-DD key as local midnight of that day
+ * @returns The date, or null if the key is malformed
+ */
+export const fromDateKey = (key: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return toDateKey(date) === key ? date : null;
+};
+
+/**
+ * The day key a number of days before or after another
+ */
+export const addDaysToKey = (key: string, days: number): string => {
+  const date = fromDateKey(key) ?? new Date();
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+/**
+ * Whether two dates fall on the same local calendar day
+ */
+export const isSameDay = (a: Date, b: Date): boolean => toDateKey(a) === toDateKey(b);
+
+/**
+ * Classify a due date relative to now
+ * @param dueAt - ISO due date, if any
+ * @param now - Reference time (defaults to the current time)
+ * @returns The due status, or null when there is no (valid) due date
+ */
+export const getDueStatus = (
+  dueAt: string | null | undefined,
+  now: Date = new Date()
+): DueStatus | null => {
+  if (!dueAt) return null;
+  const due = new Date(dueAt);
+  if (Number.isNaN(due.getTime())) return null;
+
+  if (due.getTime() < now.getTime()) return "overdue";
+  if (isSameDay(due, now)) return "today";
+  return "upcoming";
+};
+
+/**
+ * Format a due date compactly, e.g. "Today 15:00", "Tomorrow 09:30" or "Mon, Oct 20 17:00"
+ */
+export const formatDueDate = (dueAt: string, now: Date = new Date()): string => {
+  const due = new Date(dueAt);
+  const time = `${pad(due.getHours())}:${pad(due.getMinutes())}`;
+  const tomorrow = new Date(now);
+  tomorrow.setDate(now.getDate() + 1);
+
+  if (isSameDay(due, now)) return `Today ${time}`;
+  if (isSameDay(due, tomorrow)) return `Tomorrow ${time}`;
+  return `${due.toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  })} ${time}`;
+};
+
+/**
+ * Format a number of minutes as e.g. "45m", "2h" or "1h 30m"
+ */
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Convert an ISO date to the value format of a datetime-local input (local time)
+ */
+export const toDateTimeLocalValue = (iso: string | null | undefined): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  return `${toDateKey(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Convert a datetime-local input value (local time) to an ISO date
+ * @returns ISO string, or null for an empty or invalid value
+ */
+export const fromDateTimeLocalValue = (value: string): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
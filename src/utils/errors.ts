@@ -0,0 +1,158 @@
+/**
+ * Error Types
+ *
+ * The errors API calls fail with, so callers can react to the kind of failure
+ * rather than to raw HTTP details:
+ * - ApiError: base class, with the HTTP status when there was a response
+ * - NetworkError (and TimeoutError): the backend could not be reached in time
+ * - CancelledError: the caller aborted the request
+ * - AuthError (and SessionExpiredError): not signed in, or not allowed
+ * - ValidationError: the request or the response did not have the expected shape
+ * - NotFoundError, RateLimitError (with Retry-After) and ServerError
+ *
+ * describeError turns any of them into a message for the user.
+ */
+
+export class ApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * Raised when the backend could not be reached at all
+ */
+export class NetworkError extends ApiError {
+  constructor(message = "The server could not be reached") {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Raised when the backend did not answer within the request's timeout
+ */
+export class TimeoutError extends NetworkError {
+  constructor(message = "The server took too long to respond") {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Raised when a request was aborted through its AbortSignal
+ */
+export class CancelledError extends ApiError {
+  constructor(message = "The request was cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * Raised when the backend refuses the request's credentials (401) or
+ * permissions (403)
+ */
+export class AuthError extends ApiError {
+  constructor(message = "Not authorized", status = 401) {
+    super(message, status);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Raised when a request needs the user to sign in again
+ */
+export class SessionExpiredError extends AuthError {
+  constructor(message = "Your session has expired. Please sign in again.") {
+    super(message, 401);
+    this.name = "SessionExpiredError";
+  }
+}
+
+/**
+ * Raised when the backend rejects a request as invalid (400, 422), or when a
+ * response cannot be used; issues lists every problem found
+ */
+export class ValidationError extends ApiError {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = [], status?: number) {
+    super(message, status);
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = "Not found") {
+    super(message, 404);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Raised on 429; retryAfterMs is how long the backend asked to wait, when it said
+ */
+export class RateLimitError extends ApiError {
+  retryAfterMs: number | null;
+
+  constructor(retryAfterMs: number | null = null, message = "Too many requests") {
+    super(message, 429);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Raised on 5xx responses
+ */
+export class ServerError extends ApiError {
+  constructor(status: number, message = `Server error (${status})`) {
+    super(message, status);
+    this.name = "ServerError";
+  }
+}
+
+/**
+ * A message for the user about a failed action
+ * @param error - What the action failed with
+ * @param action - What was being done, completing "Couldn't ..." (e.g. "load tasks")
+ */
+export const describeError = (error: unknown, action: string): string => {
+  const failed = `Couldn't ${action}`;
+  if (error instanceof SessionExpiredError) {
+    return `${failed} because your session has expired. Please sign in again.`;
+  }
+  if (error instanceof AuthError) {
+    return `${failed}: you don't have permission to do that.`;
+  }
+  if (error instanceof ValidationError) {
+    return error.issues.length > 0
+      ? `${failed}: ${error.issues[0]}`
+      : `${failed}: the request was not accepted.`;
+  }
+  if (error instanceof NotFoundError) {
+    return `${failed}: it no longer exists on the server.`;
+  }
+  if (error instanceof RateLimitError) {
+    const seconds = error.retryAfterMs !== null ? Math.ceil(error.retryAfterMs / 1000) : null;
+    return seconds
+      ? `${failed}: too many requests. Try again in ${seconds} seconds.`
+      : `${failed}: too many requests. Try again in a moment.`;
+  }
+  if (error instanceof TimeoutError) {
+    return `${failed}: the server took too long to respond. Please try again.`;
+  }
+  if (error instanceof NetworkError) {
+    return `${failed}: the server can't be reached. Please check your connection.`;
+  }
+  if (error instanceof ServerError) {
+    return `${failed}: the server ran into a problem. Please try again later.`;
+  }
+  return `${failed}. Please try again.`;
+};
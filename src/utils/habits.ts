@@ -0,0 +1,273 @@
+/**
+ * Habits
+ *
+ * Defaults, validation and resolution for the user's habits:
+ * - Work hours must be valid times with the end after the start
+ * - Break length and frequency must be positive whole minutes
+ * - Split shifts must be ordered, non-overlapping periods
+ * - Picking the profile and hours that apply on a date from the weekday overrides
+ * - Values loaded from the cache or the backend are checked the same way
+ */
+
+import type {
+  Habits,
+  HabitsDraft,
+  HabitsErrors,
+  HabitsSettings,
+  HabitProfile,
+  WeekdayHabits,
+  WorkPeriod,
+  ActiveHabits,
+} from "../types";
+import { parseTimeOfDay } from "./scheduleModel";
+
+export const DEFAULT_HABITS: Habits = {
+  workStartTime: "09:00",
+  workEndTime: "17:00",
+  breakDuration: 15,
+  breakFrequency: 60,
+  focusArea: "",
+};
+
+export const DEFAULT_PROFILE_ID = "default";
+
+const DEFAULT_WORK_START = 9 * 60;
+const DEFAULT_WORK_END = 17 * 60;
+const MAX_BREAK_MINUTES = 240;
+const MAX_FOCUS_AREA_LENGTH = 100;
+
+/**
+ * Questionnaire values for a set of habits
+ */
+export const toHabitsDraft = (habits: Habits): HabitsDraft => ({
+  workStartTime: habits.workStartTime,
+  workEndTime: habits.workEndTime,
+  breakDuration: String(habits.breakDuration),
+  breakFrequency: String(habits.breakFrequency),
+  focusArea: habits.focusArea,
+});
+
+/**
+ * Parse a whole number of minutes, rejecting blanks, fractions and NaN
+ */
+const parseMinutes = (value: string): number | null =>
+  /^\d+$/.test(value.trim()) ? Number(value.trim()) : null;
+
+/**
+ * Validate the questionnaire
+ * @param draft - Values as typed
+ * @returns The habits when every field is valid (else null) and any errors by field
+ */
+export const validateHabitsDraft = (
+  draft: HabitsDraft
+): { habits: Habits | null; errors: HabitsErrors } => {
+  const errors: HabitsErrors = {};
+
+  const start = parseTimeOfDay(draft.workStartTime);
+  const end = parseTimeOfDay(draft.workEndTime);
+  if (start === null) {
+    errors.workStartTime = "Enter a start time.";
+  }
+  if (end === null) {
+    errors.workEndTime = "Enter an end time.";
+  } else if (start !== null && end <= start) {
+    errors.workEndTime = "End time must be after the start time.";
+  }
+
+  const breakDuration = parseMinutes(draft.breakDuration);
+  if (breakDuration === null || breakDuration < 1) {
+    errors.breakDuration = "Enter a break length of at least 1 minute.";
+  } else if (breakDuration > MAX_BREAK_MINUTES) {
+    errors.breakDuration = `Breaks can be at most ${MAX_BREAK_MINUTES} minutes.`;
+  }
+
+  const breakFrequency = parseMinutes(draft.breakFrequency);
+  if (breakFrequency === null || breakFrequency < 1) {
+    errors.breakFrequency = "Enter how often to take a break, in minutes.";
+  }
+
+  if (draft.focusArea.length > MAX_FOCUS_AREA_LENGTH) {
+    errors.focusArea = `Keep the focus area under ${MAX_FOCUS_AREA_LENGTH} characters.`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { habits: null, errors };
+  }
+  return {
+    habits: {
+      workStartTime: draft.workStartTime,
+      workEndTime: draft.workEndTime,
+      breakDuration: breakDuration as number,
+      breakFrequency: breakFrequency as number,
+      focusArea: draft.focusArea.trim(),
+    },
+    errors,
+  };
+};
+
+/**
+ * Check habits loaded from the cache or the backend
+ * @returns The habits, or null if they are missing or invalid
+ */
+export const sanitizeHabits = (value: unknown): Habits | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Partial<Record<keyof Habits, unknown>>;
+  const text = (field: unknown, fallback: string): string =>
+    typeof field === "string" || typeof field === "number" ? String(field) : fallback;
+
+  return validateHabitsDraft({
+    workStartTime: text(raw.workStartTime, ""),
+    workEndTime: text(raw.workEndTime, ""),
+    breakDuration: text(raw.breakDuration, ""),
+    breakFrequency: text(raw.breakFrequency, ""),
+    focusArea: text(raw.focusArea, ""),
+  }).habits;
+};
+
+/**
+ * Settings for a new user: one default profile and no weekday overrides
+ */
+export const createDefaultSettings = (habits: Habits = DEFAULT_HABITS): HabitsSettings => ({
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: "Default", habits }],
+  defaultProfileId: DEFAULT_PROFILE_ID,
+  weekdays: Array.from({ length: 7 }, () => ({})),
+});
+
+/**
+ * A fresh ID for a new profile
+ */
+export const createProfileId = (): string =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Check a list of work periods
+ * @returns A message describing the first problem, or null if they are valid
+ */
+export const validateWorkPeriods = (periods: WorkPeriod[]): string | null => {
+  let previousEnd = -1;
+  for (const period of periods) {
+    const start = parseTimeOfDay(period.start);
+    const end = parseTimeOfDay(period.end);
+    if (start === null || end === null) {
+      return "Enter a start and end time for every period.";
+    }
+    if (end <= start) {
+      return "Each period must end after it starts.";
+    }
+    if (start < previousEnd) {
+      return "Periods must be in order and must not overlap.";
+    }
+    previousEnd = end;
+  }
+  return null;
+};
+
+/**
+ * Working time for a set of habits, in minutes since midnight
+ * @returns The work periods, or the single start–end window when there are none;
+ *          empty on a day off
+ */
+export const getWorkPeriods = (
+  habits: Pick<Habits, "workStartTime" | "workEndTime" | "workPeriods">
+): Array<{ start: number; end: number }> => {
+  if (habits.workPeriods) {
+    return validateWorkPeriods(habits.workPeriods)
+      ? []
+      : habits.workPeriods.map((period) => ({
+          start: parseTimeOfDay(period.start) as number,
+          end: parseTimeOfDay(period.end) as number,
+        }));
+  }
+  const start = parseTimeOfDay(habits.workStartTime) ?? DEFAULT_WORK_START;
+  const end = parseTimeOfDay(habits.workEndTime) ?? DEFAULT_WORK_END;
+  return [{ start, end: end > start ? end : DEFAULT_WORK_END }];
+};
+
+/**
+ * The profile and hours that apply on a date
+ * @param settings - The user's habit settings
+ * @param date - Day to resolve
+ * @param options - { ignoreDayOff: plan the day even if it is marked as off }
+ */
+export const resolveHabitsForDate = (
+  settings: HabitsSettings,
+  date: Date,
+  options: { ignoreDayOff?: boolean } = {}
+): ActiveHabits => {
+  const override: WeekdayHabits = settings.weekdays[date.getDay()] ?? {};
+  const findProfile = (id: string | null | undefined): HabitProfile | undefined =>
+    settings.profiles.find((profile) => profile.id === id);
+  const profile =
+    findProfile(override.profileId) ??
+    findProfile(settings.defaultProfileId) ??
+    settings.profiles[0];
+
+  const dayOff = Boolean(override.dayOff) && !options.ignoreDayOff;
+  const periods =
+    override.workPeriods?.length && !validateWorkPeriods(override.workPeriods)
+      ? override.workPeriods
+      : null;
+
+  let habits: Habits = profile.habits;
+  if (dayOff) {
+    habits = { ...habits, workPeriods: [] };
+  } else if (periods) {
+    habits = {
+      ...habits,
+      workStartTime: periods[0].start,
+      workEndTime: periods[periods.length - 1].end,
+      workPeriods: periods,
+    };
+  }
+  return { profile, habits, dayOff };
+};
+
+/**
+ * Check habit settings loaded from the cache or the backend.
+ * A plain Habits object (saved before profiles existed) becomes the default profile.
+ * @returns The settings, or null if they are missing or invalid
+ */
+export const sanitizeHabitsSettings = (value: unknown): HabitsSettings | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Partial<HabitsSettings>;
+
+  if (!Array.isArray(raw.profiles)) {
+    const legacy = sanitizeHabits(value);
+    return legacy ? createDefaultSettings(legacy) : null;
+  }
+
+  const profiles: HabitProfile[] = [];
+  raw.profiles.forEach((entry) => {
+    const habits = sanitizeHabits(entry?.habits);
+    if (habits && typeof entry.id === "string" && typeof entry.name === "string") {
+      profiles.push({ id: entry.id, name: entry.name, habits });
+    }
+  });
+  if (profiles.length === 0) return null;
+
+  const weekdays: WeekdayHabits[] = Array.from({ length: 7 }, (_, day) => {
+    const entry = Array.isArray(raw.weekdays) ? raw.weekdays[day] : null;
+    if (!entry || typeof entry !== "object") return {};
+    const workPeriods =
+      Array.isArray(entry.workPeriods) && !validateWorkPeriods(entry.workPeriods)
+        ? entry.workPeriods.map((period) => ({ start: period.start, end: period.end }))
+        : null;
+    return {
+      profileId: profiles.some((profile) => profile.id === entry.profileId)
+        ? entry.profileId
+        : null,
+      dayOff: Boolean(entry.dayOff),
+      workPeriods,
+    };
+  });
+
+  return {
+    profiles,
+    defaultProfileId: profiles.some((profile) => profile.id === raw.defaultProfileId)
+      ? (raw.defaultProfileId as string)
+      : profiles[0].id,
+    weekdays,
+  };
+};
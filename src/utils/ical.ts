@@ -0,0 +1,183 @@
+/**
+ * iCalendar Export
+ *
+ * Serializes a day's schedule and open todos as an RFC 5545 VCALENDAR so they can
+ * be imported into other calendar apps:
+ * - Schedule blocks become VEVENTs in floating local time (meetings that came from
+ *   the user's calendar are left out, since they are already there)
+ * - Open todos become VTODOs, with priority, due date, recurrence, tags and parent;
+ *   their dates are floating local time too, so a recurrence repeats on local days
+ * - Text is escaped and long lines are folded at 75 octets
+ */
+
+import type { ScheduleItem, Todo } from "../types";
+import { tryParseRRule, formatRRule } from "./recurrence";
+
+const PRODUCT_ID = "-//DayForge//Schedule Export//EN";
+const UID_DOMAIN = "dayforge";
+const MAX_LINE_OCTETS = 75;
+
+// iCal PRIORITY: 1 is highest, 9 lowest
+const PRIORITY_MAP: Record<Todo["priority"], number> = {
+  High: 1,
+  Medium: 5,
+  Low: 9,
+};
+
+export interface ICalendarInput {
+  /** Day key (YYYY-MM-DD) the schedule is for */
+  date: string;
+  items: ScheduleItem[];
+  /** Todos to export; completed ones are skipped */
+  todos?: Todo[];
+  /** Timestamp for DTSTAMP (defaults to now) */
+  now?: Date;
+}
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+export const escapeICalText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Fold a content line into 75-octet chunks joined by CRLF + space
+ * Multi-byte characters are never split.
+ */
+export const foldICalLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  Array.from(line).forEach((char) => {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  });
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+};
+
+/**
+ * Local date-time without a zone (e.g. 20240115T093000)
+ */
+const formatFloatingDateTime = (value: Date): string =>
+  `${value.getFullYear()}${pad(value.getMonth() + 1)}${pad(value.getDate())}T${pad(
+    value.getHours()
+  )}${pad(value.getMinutes())}${pad(value.getSeconds())}`;
+
+/**
+ * Local date-time of a time of day, in minutes since midnight, on a day key
+ */
+const formatLocalDateTime = (date: string, minutes: number): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  return formatFloatingDateTime(new Date(year, month - 1, day, 0, minutes));
+};
+
+/**
+ * UTC date-time (e.g. 20240115T083000Z)
+ */
+const formatUtcDateTime = (value: Date): string =>
+  `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}T${pad(
+    value.getUTCHours()
+  )}${pad(value.getUTCMinutes())}${pad(value.getUTCSeconds())}Z`;
+
+const buildEvent = (item: ScheduleItem, date: string, index: number, stamp: string): string[] => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${date}-${index}-${item.start}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatLocalDateTime(date, item.start)}`,
+    `DTEND:${formatLocalDateTime(date, item.end)}`,
+    `SUMMARY:${escapeICalText(item.task)}`,
+  ];
+  if (item.kind === "break") {
+    lines.push("CATEGORIES:Break", "TRANSP:TRANSPARENT");
+  }
+  if (item.todoId) {
+    lines.push(`RELATED-TO:${item.todoId}@${UID_DOMAIN}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+const buildTodo = (todo: Todo, stamp: string): string[] => {
+  const lines = [
+    "BEGIN:VTODO",
+    `UID:${todo.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeICalText(todo.task)}`,
+    `PRIORITY:${PRIORITY_MAP[todo.priority] ?? PRIORITY_MAP.Medium}`,
+    "STATUS:NEEDS-ACTION",
+  ];
+
+  const due = todo.dueAt ? new Date(todo.dueAt) : null;
+  if (due && !Number.isNaN(due.getTime())) {
+    lines.push(`DUE:${formatFloatingDateTime(due)}`);
+    const rule = tryParseRRule(todo.recurrence);
+    if (rule) {
+      // RRULE counts occurrences from DTSTART, which must come before DUE: start at
+      // the beginning of the due day, so each occurrence is due later that day.
+      // A todo due at midnight leaves no room and goes without one.
+      const dayStart = new Date(due.getFullYear(), due.getMonth(), due.getDate());
+      if (dayStart < due) {
+        lines.push(`DTSTART:${formatFloatingDateTime(dayStart)}`);
+      }
+      lines.push(`RRULE:${formatRRule(rule)}`);
+    }
+  }
+  if (todo.tags?.length) {
+    lines.push(`CATEGORIES:${todo.tags.map(escapeICalText).join(",")}`);
+  }
+  if (todo.estimatedMinutes) {
+    lines.push(`X-DAYFORGE-ESTIMATE:PT${todo.estimatedMinutes}M`);
+  }
+  if (todo.parentId) {
+    lines.push(`RELATED-TO;RELTYPE=PARENT:${todo.parentId}@${UID_DOMAIN}`);
+  }
+  lines.push("END:VTODO");
+  return lines;
+};
+
+/**
+ * Build an iCalendar document for a day's schedule and open todos
+ * @param input - Day, schedule blocks and todos to export
+ * @returns VCALENDAR text with CRLF line endings
+ */
+export const buildICalendar = ({
+  date,
+  items,
+  todos = [],
+  now = new Date(),
+}: ICalendarInput): string => {
+  const stamp = formatUtcDateTime(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...items.flatMap((item, index) =>
+      item.kind === "event" ? [] : buildEvent(item, date, index, stamp)
+    ),
+    ...todos.filter((todo) => !todo.completed).flatMap((todo) => buildTodo(todo, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(foldICalLine).join("\r\n")}\r\n`;
+};
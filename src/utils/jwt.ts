@@ -0,0 +1,52 @@
+/**
+ * JWT Utilities
+ *
+ * Just enough JSON Web Token handling for the auth providers:
+ * - Base64url encoding, as used by JWTs and PKCE
+ * - Reading the claims of an ID token (the signature is not verified; the token
+ *   comes straight from the identity provider over HTTPS)
+ * - Building unsigned tokens for the mock provider
+ */
+
+export type JwtClaims = Record<string, unknown>;
+
+/**
+ * Encode bytes as base64url without padding
+ */
+export const encodeBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const decodeBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+/**
+ * Read the claims of a JWT
+ * @returns The payload, or null if the token is malformed
+ */
+export const decodeJwtPayload = (token: string): JwtClaims | null => {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(decodeBase64Url(payload)));
+    return claims && typeof claims === "object" ? (claims as JwtClaims) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Build an unsigned JWT ("alg": "none") carrying the given claims
+ */
+export const encodeUnsignedJwt = (claims: JwtClaims): string => {
+  const encode = (value: object): string =>
+    encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  return `${encode({ alg: "none", typ: "JWT" })}.${encode(claims)}.`;
+};
@@ -0,0 +1,61 @@
+/**
+ * Plan Review
+ *
+ * Compares a day's schedule with what actually got done:
+ * - Each planned todo (its "(continued)" parts merged) with how it turned out
+ * - Todos completed that day without being on the schedule
+ */
+
+import type { Todo, ScheduleItem, PlanReview, PlannedTaskStatus } from "../types";
+import { toDateKey } from "./dates";
+
+const completedOn = (todo: Todo): string | null =>
+  todo.completed && todo.completedAt ? toDateKey(new Date(todo.completedAt)) : null;
+
+/**
+ * Review a day's schedule against the current todos
+ * @param items - The schedule saved for the day
+ * @param todos - All todos
+ * @param date - Day key (YYYY-MM-DD) of the schedule
+ * @returns Planned outcomes in schedule order and the unplanned completions
+ */
+export const reviewPlan = (items: ScheduleItem[], todos: Todo[], date: string): PlanReview => {
+  const todosById = new Map(todos.map((todo) => [todo.id, todo]));
+  const planned = new Map<string, PlanReview["planned"][number]>();
+
+  items.forEach((item) => {
+    if (item.kind !== "task" || !item.todoId) return;
+    const existing = planned.get(item.todoId);
+    if (existing) {
+      existing.plannedMinutes += item.durationMinutes;
+      return;
+    }
+
+    const todo = todosById.get(item.todoId);
+    let status: PlannedTaskStatus;
+    if (!todo) {
+      status = "removed";
+    } else if (!todo.completed) {
+      status = "open";
+    } else {
+      // Todos completed before completedAt was recorded count for the planned day
+      const day = completedOn(todo);
+      status = day === null || day === date ? "done" : "done-other-day";
+    }
+    planned.set(item.todoId, {
+      todoId: item.todoId,
+      task: todo?.task ?? item.task,
+      plannedMinutes: item.durationMinutes,
+      status,
+    });
+  });
+
+  const outcomes = Array.from(planned.values());
+  return {
+    planned: outcomes,
+    unplannedCompleted: todos.filter(
+      (todo) => completedOn(todo) === date && !planned.has(todo.id)
+    ),
+    completedCount: outcomes.filter((outcome) => outcome.status === "done").length,
+  };
+};
@@ -0,0 +1,197 @@
+/**
+ * Quick-Add Parser Tests
+ *
+ * Reading dates, priorities, estimates, tags, projects and recurrence typed
+ * inline in the task input, and what is left over as the title.
+ */
+
+import { parseQuickAdd } from "./quickAdd";
+
+// Monday 19 October 2026, 10:00
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+const at = (month: number, day: number, hours = 23, minutes = 59, year = 2026): string =>
+  new Date(year, month - 1, day, hours, minutes).toISOString();
+
+const parse = (input: string) => parseQuickAdd(input, NOW);
+
+describe("due dates", () => {
+  it.each([
+    ["Call Sam today", at(10, 19)],
+    ["Call Sam tonight", at(10, 19, 20, 0)],
+    ["Call Sam tomorrow 3pm", at(10, 20, 15, 0)],
+    ["Call Sam at 9am on friday", at(10, 23, 9, 0)],
+    ["Call Sam monday", at(10, 26)],
+    ["Call Sam next week", at(10, 26)],
+    ["Call Sam in 3 days", at(10, 22)],
+    ["Call Sam in a month", at(11, 19)],
+    ["Call Sam 2026-10-25 15:30", at(10, 25, 15, 30)],
+    ["Call Sam jan 5", at(1, 5, 23, 59, 2027)],
+    ["Call Sam 5th december", at(12, 5)],
+    ["Call Sam 3pm", at(10, 19, 15, 0)],
+    ["Call Sam 9am", at(10, 20, 9, 0)],
+  ])("reads %j", (input, dueAt) => {
+    expect(parse(input)).toMatchObject({ task: "Call Sam", dueAt });
+  });
+
+  it("leaves phrases that only look like dates or times in the title", () => {
+    expect(parse("Plan feb 30 party at 13pm")).toMatchObject({
+      task: "Plan feb 30 party at 13pm",
+      dueAt: null,
+    });
+  });
+
+  it("reads a date after a phrase that only looks like one", () => {
+    expect(parse("Plan feb 30 party jan 5")).toMatchObject({
+      task: "Plan feb 30 party",
+      dueAt: at(1, 5, 23, 59, 2027),
+    });
+  });
+});
+
+describe("priorities", () => {
+  it.each([
+    ["!high", "High"],
+    ["!H", "High"],
+    ["!1", "High"],
+    ["!!!", "High"],
+    ["!medium", "Medium"],
+    ["!2", "Medium"],
+    ["!!", "Medium"],
+    ["!low", "Low"],
+    ["!3", "Low"],
+  ])("reads %s as %s", (text, priority) => {
+    expect(parse(`Pay rent ${text}`)).toMatchObject({ task: "Pay rent", priority });
+  });
+
+  it("leaves an unknown priority in the title", () => {
+    expect(parse("Pay rent !urgent")).toMatchObject({ task: "Pay rent !urgent", priority: null });
+  });
+});
+
+describe("estimates", () => {
+  it.each([
+    ["~45m", 45],
+    ["~45min", 45],
+    ["~1h", 60],
+    ["~1.5h", 90],
+    ["~1h30m", 90],
+    ["~90", 90],
+  ])("reads %s as %i minutes", (text, estimatedMinutes) => {
+    expect(parse(`Write report ${text}`)).toMatchObject({
+      task: "Write report",
+      estimatedMinutes,
+    });
+  });
+
+  it("leaves an empty estimate in the title", () => {
+    expect(parse("Write report ~0")).toMatchObject({
+      task: "Write report ~0",
+      estimatedMinutes: null,
+    });
+  });
+});
+
+describe("tags and projects", () => {
+  it("reads lowercased tags once each, and a project", () => {
+    expect(parse("Write report #Work #deep-work +Q3-planning #work")).toMatchObject({
+      task: "Write report",
+      tags: ["work", "deep-work"],
+      project: "Q3-planning",
+    });
+  });
+
+  it("leaves tags and projects that don't start with a letter in the title", () => {
+    expect(parse("Buy #1 gift +5")).toMatchObject({
+      task: "Buy #1 gift +5",
+      tags: [],
+      project: null,
+    });
+  });
+});
+
+describe("recurrence", () => {
+  it.each([
+    ["daily", "FREQ=DAILY"],
+    ["weekdays", "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"],
+    ["every weekday", "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"],
+    ["weekly", "FREQ=WEEKLY"],
+    ["every other week", "FREQ=WEEKLY;INTERVAL=2"],
+    ["every 3 months", "FREQ=MONTHLY;INTERVAL=3"],
+    ["annually", "FREQ=YEARLY"],
+    ["every monday and friday", "FREQ=WEEKLY;BYDAY=MO,FR"],
+    ["every 2 weeks on monday", "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO"],
+    ["every week on tuesday, thursday and saturday", "FREQ=WEEKLY;BYDAY=TU,TH,SA"],
+    ["every month on the 1st", "FREQ=MONTHLY;BYMONTHDAY=1"],
+    ["every 2 months on the 15th", "FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=15"],
+    ["every month on the last day", "FREQ=MONTHLY;BYMONTHDAY=-1"],
+  ])("reads %j", (text, recurrence) => {
+    expect(parse(`Pay rent ${text}`)).toMatchObject({ task: "Pay rent", recurrence });
+  });
+
+  it.each(["Review the weekly report", "Send daily standup notes", "Pay monthly rent today"])(
+    "leaves %j one-off, reading daily, weekly etc. only as the last word",
+    (input) => {
+      const result = parse(input);
+
+      expect(result.recurrence).toBeNull();
+      expect(result.task).toBe(input.replace(" today", ""));
+    }
+  );
+
+  it("starts a weekly task on its next day, today included", () => {
+    expect(parse("Standup every monday").dueAt).toBe(at(10, 19));
+    expect(parse("Review every friday 4pm").dueAt).toBe(at(10, 23, 16, 0));
+  });
+
+  it("starts a monthly task on its next day of the month", () => {
+    expect(parse("Pay rent every month on the 1st").dueAt).toBe(at(11, 1));
+    expect(parse("Pay rent every month on the last day").dueAt).toBe(at(10, 31));
+    expect(parseQuickAdd("Pay rent every month on the 31st", new Date(2026, 10, 5)).dueAt).toBe(
+      at(12, 31)
+    );
+  });
+
+  it("keeps an explicit due date over the recurrence's first day", () => {
+    expect(parse("Pay rent every month on the 1st tomorrow").dueAt).toBe(at(10, 20));
+  });
+});
+
+describe("titles", () => {
+  it("removes every recognized phrase and reports each as a token", () => {
+    const result = parse("Write report tomorrow 3pm !high ~45m #work +website every friday");
+
+    expect(result.task).toBe("Write report");
+    expect(result.tokens.map(({ kind, text }) => [kind, text])).toEqual([
+      ["recurrence", "every friday"],
+      ["due", "tomorrow 3pm"],
+      ["priority", "!high"],
+      ["estimate", "~45m"],
+      ["tag", "#work"],
+      ["project", "+website"],
+    ]);
+  });
+
+  it("keeps plain text as the title untouched", () => {
+    expect(parse("  Read chapter 5 of the book ")).toEqual({
+      task: "Read chapter 5 of the book",
+      priority: null,
+      dueAt: null,
+      estimatedMinutes: null,
+      tags: [],
+      project: null,
+      recurrence: null,
+      tokens: [],
+    });
+  });
+
+  it.each(["every 2 weeks on monday", "every month on the 1st", "!high ~1h #work", "tomorrow"])(
+    "leaves an empty title for %j",
+    (input) => {
+      const result = parse(input);
+
+      expect(result.task).toBe("");
+      expect(result.tokens).not.toEqual([]);
+    }
+  );
+});
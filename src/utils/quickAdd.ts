@@ -0,0 +1,403 @@
+/**
+ * Quick-Add Parser
+ *
+ * Reads task details typed inline in the task input, e.g.
+ * "Write report tomorrow 3pm !high ~45m #work every friday":
+ * - Priority: !high / !h / !1 / !!!, !medium / !m / !2 / !!, !low / !l / !3
+ * - Due date: today, tonight, tomorrow, weekday names, "in 3 days", "next week",
+ *   "Jan 5" / "5 Jan", YYYY-MM-DD, optionally with a time (3pm, 15:30, noon)
+ * - Estimate: ~45m, ~1h, ~1.5h, ~1h30m, ~90
+ * - Tags: #work, #deep-work
+ * - Project: +website, +Q3-planning
+ * - Recurrence: every friday, every other week, every 2 months, every 2 weeks on monday,
+ *   every month on the 1st / on the last day, or daily, weekdays, weekly etc. at the end
+ *   (so "Review the weekly report" stays a one-off)
+ * Recognized phrases are removed from the title and reported as tokens for a preview.
+ * Input made up of nothing but details leaves an empty title.
+ * Runs entirely locally; dates are relative to the given "now".
+ */
+
+import type { Todo } from "../types";
+import { parseRRule, describeRRule, WEEKDAYS } from "./recurrence";
+import type { Weekday } from "./recurrence";
+import { formatDueDate, formatMinutes } from "./dates";
+
+export type QuickAddTokenKind =
+  | "priority"
+  | "due"
+  | "estimate"
+  | "tag"
+  | "project"
+  | "recurrence";
+
+/**
+ * A recognized phrase, with the text it was typed as and a label for the preview
+ */
+export interface QuickAddToken {
+  kind: QuickAddTokenKind;
+  text: string;
+  label: string;
+}
+
+export interface QuickAddResult {
+  /** The title with recognized phrases removed; empty if nothing else was typed */
+  task: string;
+  priority: Todo["priority"] | null;
+  dueAt: string | null;
+  estimatedMinutes: number | null;
+  tags: string[];
+  project: string | null;
+  recurrence: string | null;
+  tokens: QuickAddToken[];
+}
+
+// Dates without a time are due at the end of the day
+const END_OF_DAY = 23 * 60 + 59;
+const TONIGHT = 20 * 60;
+
+const DAY_NAMES: Record<string, Weekday> = {
+  sunday: "SU",
+  monday: "MO",
+  tuesday: "TU",
+  wednesday: "WE",
+  thursday: "TH",
+  friday: "FR",
+  saturday: "SA",
+};
+const DAY_PATTERN = "sunday|monday|tuesday|wednesday|thursday|friday|saturday";
+// "monday", "monday and friday", "monday, wednesday and friday"
+const DAY_LIST_PATTERN = `(?:${DAY_PATTERN})(?:\\s*(?:,|and)\\s*(?:${DAY_PATTERN}))*`;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_PATTERN = [
+  "jan(?:uary)?",
+  "feb(?:ruary)?",
+  "mar(?:ch)?",
+  "apr(?:il)?",
+  "may",
+  "june?",
+  "july?",
+  "aug(?:ust)?",
+  "sep(?:t(?:ember)?)?",
+  "oct(?:ober)?",
+  "nov(?:ember)?",
+  "dec(?:ember)?",
+].join("|");
+
+const PRIORITIES: Record<string, Todo["priority"]> = {
+  high: "High",
+  h: "High",
+  "1": "High",
+  "!!": "High",
+  medium: "Medium",
+  med: "Medium",
+  m: "Medium",
+  "2": "Medium",
+  "!": "Medium",
+  low: "Low",
+  l: "Low",
+  "3": "Low",
+};
+
+const UNIT_FREQUENCIES: Record<string, string> = {
+  day: "DAILY",
+  week: "WEEKLY",
+  month: "MONTHLY",
+  year: "YEARLY",
+};
+
+/**
+ * A whole-word pattern: preceded by the start or whitespace, followed by the end,
+ * whitespace or closing punctuation
+ */
+const word = (pattern: string): RegExp =>
+  new RegExp(`(^|\\s)(${pattern})(?=$|[\\s,.;])`, "i");
+
+const TIME_PATTERN =
+  "(?:at\\s+)?(?:noon|midnight|\\d{1,2}(?::\\d{2})?\\s?[ap]\\.?m\\.?|\\d{1,2}:\\d{2})";
+
+// ~1h30m, ~1.5h, ~45m, ~45min, ~90
+const ESTIMATE_PATTERN = "~(?:\\d+(?:\\.\\d+)?h)?(?:\\d+(?:m|min|mins)?)?";
+
+const INTERVAL_PATTERN = "every\\s+(?:other\\s+|\\d+\\s+)?";
+// 1st to 31st
+const MONTH_DAY_PATTERN = "(?:[12]\\d|3[01]|[1-9])(?:st|nd|rd|th)?";
+const RECURRENCE_PATTERN = [
+  `${INTERVAL_PATTERN}weeks?\\s+on\\s+${DAY_LIST_PATTERN}`,
+  `${INTERVAL_PATTERN}months?\\s+on\\s+the\\s+(?:${MONTH_DAY_PATTERN}|last\\s+day)`,
+  `${INTERVAL_PATTERN}(?:${DAY_LIST_PATTERN}|weekday|day|week|month|year)s?`,
+  // Only as the last word, since they are just as often part of the title
+  "(?:daily|weekdays|weekly|monthly|yearly|annually)(?=[\\s.]*$)",
+].join("|");
+
+/**
+ * Minutes since midnight for a time phrase such as "3pm", "at 15:30" or "noon"
+ */
+const parseTime = (text: string): number | null => {
+  const value = text.toLowerCase().replace(/^at\s+/, "").replace(/\./g, "").trim();
+  if (value === "noon") return 12 * 60;
+  if (value === "midnight") return 0;
+  const match = /^(\d{1,2})(?::(\d{2}))?\s?([ap]m)?$/.exec(value);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (match[3] === "pm" ? 12 : 0);
+  }
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+/**
+ * Minutes in an estimate such as "~1h30m" or "~90"
+ * @returns The estimate, or null if it is empty or zero
+ */
+const parseEstimate = (text: string): number | null => {
+  const match = /^~(?:(\d+(?:\.\d+)?)h)?(?:(\d+)(?:m|min|mins)?)?$/.exec(text.toLowerCase());
+  if (!match) return null;
+  const total = Math.round(Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0));
+  return total > 0 ? total : null;
+};
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * The next day with the given weekday, today included when includeToday is set
+ */
+const nextWeekday = (now: Date, day: Weekday, includeToday: boolean): Date => {
+  const target = WEEKDAYS.indexOf(day);
+  let offset = (target - now.getDay() + 7) % 7;
+  if (offset === 0 && !includeToday) offset = 7;
+  return addDays(startOfDay(now), offset);
+};
+
+/**
+ * The next day that is the given day of the month (-1 for the last day), today
+ * included; months too short for it are skipped
+ */
+const nextMonthDay = (now: Date, day: number): Date => {
+  const today = startOfDay(now);
+  for (let offset = 0; ; offset += 1) {
+    const length = new Date(today.getFullYear(), today.getMonth() + offset + 1, 0).getDate();
+    const date = new Date(today.getFullYear(), today.getMonth() + offset, day < 0 ? length : day);
+    if (day <= length && date >= today) return date;
+  }
+};
+
+/**
+ * The day a date phrase refers to
+ * @returns The day (at midnight), or null if the phrase isn't a date
+ */
+const parseDay = (text: string, now: Date): Date | null => {
+  const value = text.toLowerCase().replace(/^(on|this)\s+/, "").trim();
+  const today = startOfDay(now);
+
+  if (value === "today" || value === "tonight") return today;
+  if (value === "tomorrow" || value === "tmrw" || value === "tmr") return addDays(today, 1);
+  if (value === "next week") return addDays(today, 7);
+
+  const weekday = /^(next\s+)?(\w+)$/.exec(value);
+  if (weekday && DAY_NAMES[weekday[2]]) {
+    return nextWeekday(now, DAY_NAMES[weekday[2]], false);
+  }
+
+  const relative = /^in\s+(\d+|a|an|one)\s+(day|week|month)s?$/.exec(value);
+  if (relative) {
+    const count = /^\d+$/.test(relative[1]) ? Number(relative[1]) : 1;
+    if (relative[2] === "day") return addDays(today, count);
+    if (relative[2] === "week") return addDays(today, count * 7);
+    return new Date(today.getFullYear(), today.getMonth() + count, today.getDate());
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return date.getMonth() === Number(iso[2]) - 1 ? date : null;
+  }
+
+  // "jan 5", "5 jan", "january 5th"; past dates roll over to next year
+  const monthFirst = /^([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?$/.exec(value);
+  const dayFirst = /^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)$/.exec(value);
+  const monthName = monthFirst?.[1] ?? dayFirst?.[2];
+  const dayOfMonth = Number(monthFirst?.[2] ?? dayFirst?.[1]);
+  const month = monthName ? MONTHS.indexOf(monthName.slice(0, 3)) : -1;
+  if (month >= 0 && dayOfMonth >= 1 && dayOfMonth <= 31) {
+    let date = new Date(today.getFullYear(), month, dayOfMonth);
+    if (date.getMonth() !== month) return null;
+    if (date < today) date = new Date(today.getFullYear() + 1, month, dayOfMonth);
+    return date;
+  }
+  return null;
+};
+
+const DATE_PATTERN = [
+  "today",
+  "tonight",
+  "tomorrow",
+  "tmrw",
+  "tmr",
+  "next week",
+  `(?:on\\s+|this\\s+|next\\s+)?(?:${DAY_PATTERN})`,
+  "in\\s+(?:\\d+|a|an|one)\\s+(?:day|week|month)s?",
+  "(?:on\\s+)?\\d{4}-\\d{2}-\\d{2}",
+  `(?:on\\s+)?(?:${MONTH_PATTERN})\\s+\\d{1,2}(?:st|nd|rd|th)?`,
+  `(?:on\\s+)?\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTH_PATTERN})`,
+].join("|");
+
+/**
+ * Parse a quick-add phrase
+ * @param input - Text typed in the task input
+ * @param now - Reference time for relative dates
+ * @returns The title and any task details found in it
+ */
+export const parseQuickAdd = (input: string, now: Date = new Date()): QuickAddResult => {
+  let rest = ` ${input} `;
+  const tokens: QuickAddToken[] = [];
+
+  /**
+   * Remove the first match of a pattern from the remaining text
+   * @param accept - Skips matches unless it returns true
+   * @returns The matched text (without the leading space), or null
+   */
+  const take = (pattern: RegExp, accept?: (text: string) => boolean): string | null => {
+    const matcher = new RegExp(pattern.source, `${pattern.flags.replace("g", "")}g`);
+    for (let match = matcher.exec(rest); match; match = matcher.exec(rest)) {
+      if (!accept || accept(match[2])) {
+        const end = match.index + match[0].length;
+        rest = `${rest.slice(0, match.index)}${match[1]} ${rest.slice(end)}`;
+        return match[2];
+      }
+      // A later match may start inside this one
+      matcher.lastIndex = match.index + 1;
+    }
+    return null;
+  };
+
+  // Recurrence first, so "every friday" isn't read as a due date
+  let recurrence: string | null = null;
+  let recurrenceDays: Weekday[] = [];
+  let recurrenceMonthDay: number | null = null;
+  const recurrenceText = take(word(RECURRENCE_PATTERN));
+  if (recurrenceText) {
+    const value = recurrenceText.toLowerCase();
+    const interval = /every\s+other\s/.test(value)
+      ? 2
+      : Number(/every\s+(\d+)\s/.exec(value)?.[1] ?? 1);
+    const intervalPart = interval > 1 ? `;INTERVAL=${interval}` : "";
+    recurrenceDays = (value.match(new RegExp(DAY_PATTERN, "g")) ?? []).map(
+      (day) => DAY_NAMES[day]
+    );
+    const unit = /^every\s+(?:other\s+|\d+\s+)?(day|week|month|year)s?(?:\s|$)/.exec(value)?.[1];
+    const monthDay = /\son\s+the\s+(?:(\d+)|last\s+day)/.exec(value);
+
+    if (value === "weekdays" || /every\s+weekdays?$/.test(value)) {
+      recurrence = "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR";
+    } else if (recurrenceDays.length > 0) {
+      recurrence = `FREQ=WEEKLY${intervalPart};BYDAY=${recurrenceDays.join(",")}`;
+    } else if (monthDay) {
+      recurrenceMonthDay = monthDay[1] ? Number(monthDay[1]) : -1;
+      recurrence = `FREQ=MONTHLY${intervalPart};BYMONTHDAY=${recurrenceMonthDay}`;
+    } else if (value === "daily") {
+      recurrence = "FREQ=DAILY";
+    } else if (value === "weekly") {
+      recurrence = "FREQ=WEEKLY";
+    } else if (value === "monthly") {
+      recurrence = "FREQ=MONTHLY";
+    } else if (value === "yearly" || value === "annually") {
+      recurrence = "FREQ=YEARLY";
+    } else if (unit) {
+      recurrence = `FREQ=${UNIT_FREQUENCIES[unit]}${intervalPart}`;
+    }
+    if (recurrence) {
+      tokens.push({
+        kind: "recurrence",
+        text: recurrenceText,
+        label: describeRRule(parseRRule(recurrence)),
+      });
+    }
+  }
+
+  // Due date and time, in either order ("tomorrow 3pm", "at 9am on friday")
+  // Phrases that only look like dates or times (e.g. "feb 30") stay in the title
+  let dueAt: string | null = null;
+  const dateText = take(word(DATE_PATTERN), (text) => parseDay(text, now) !== null);
+  const timeText = take(word(TIME_PATTERN), (text) => parseTime(text) !== null);
+  const time = timeText ? parseTime(timeText) : null;
+  let dueDay = dateText ? parseDay(dateText, now) : null;
+  if (!dueDay && recurrenceDays.length > 0) {
+    // "every friday" starts this (or next) friday
+    dueDay = nextWeekday(now, recurrenceDays[0], true);
+  } else if (!dueDay && recurrenceMonthDay !== null) {
+    // "every month on the 1st" starts on the next 1st
+    dueDay = nextMonthDay(now, recurrenceMonthDay);
+  }
+  if (dueDay || time !== null) {
+    const minutes = time ?? (dateText?.toLowerCase() === "tonight" ? TONIGHT : END_OF_DAY);
+    if (!dueDay) {
+      // A time on its own means the next time it comes round
+      dueDay = startOfDay(now);
+      if (minutes <= now.getHours() * 60 + now.getMinutes()) dueDay = addDays(dueDay, 1);
+    }
+    dueAt = new Date(
+      dueDay.getFullYear(),
+      dueDay.getMonth(),
+      dueDay.getDate(),
+      0,
+      minutes
+    ).toISOString();
+    if (dateText || timeText) {
+      tokens.push({
+        kind: "due",
+        text: [dateText, timeText].filter(Boolean).join(" "),
+        label: formatDueDate(dueAt, now),
+      });
+    }
+  }
+
+  let priority: Todo["priority"] | null = null;
+  const priorityText = take(word("!(?:high|h|medium|med|m|low|l|[123]|!{1,2})"));
+  if (priorityText) {
+    priority = PRIORITIES[priorityText.slice(1).toLowerCase()] ?? null;
+    if (priority) {
+      tokens.push({ kind: "priority", text: priorityText, label: `${priority} priority` });
+    }
+  }
+
+  const estimateText = take(word(ESTIMATE_PATTERN), (text) => parseEstimate(text) !== null);
+  const estimatedMinutes = estimateText ? parseEstimate(estimateText) : null;
+  if (estimateText && estimatedMinutes) {
+    tokens.push({ kind: "estimate", text: estimateText, label: formatMinutes(estimatedMinutes) });
+  }
+
+  const tags: string[] = [];
+  const tagPattern = word("#[a-z][\\w/-]*");
+  for (let tagText = take(tagPattern); tagText; tagText = take(tagPattern)) {
+    const tag = tagText.slice(1).toLowerCase();
+    if (!tags.includes(tag)) {
+      tags.push(tag);
+      tokens.push({ kind: "tag", text: tagText, label: `#${tag}` });
+    }
+  }
+
+  const projectText = take(word("\\+[a-z][\\w/-]*"));
+  const project = projectText ? projectText.slice(1) : null;
+  if (projectText) {
+    tokens.push({ kind: "project", text: projectText, label: `📁 ${project}` });
+  }
+
+  const task = rest.replace(/\s+/g, " ").trim();
+  return {
+    task,
+    priority,
+    dueAt,
+    estimatedMinutes,
+    tags,
+    project,
+    recurrence,
+    tokens,
+  };
+};
@@ -0,0 +1,251 @@
+/**
+ * Recurrence Tests
+ *
+ * Parsing and describing RRULE strings, and finding the next occurrence of a
+ * series across month ends, intervals, COUNT/UNTIL limits and DST changes.
+ */
+
+import {
+  describeRRule,
+  formatRRule,
+  getNextOccurrence,
+  getNextRecurrence,
+  parseRRule,
+  tryParseRRule,
+} from "./recurrence";
+import type { Todo } from "../types";
+
+/**
+ * A local date and time; months are 1-based to read like the calendar
+ */
+const at = (year: number, month: number, day: number, hours = 9, minutes = 0): Date =>
+  new Date(year, month - 1, day, hours, minutes);
+
+/**
+ * Every occurrence after dtstart, up to a limit
+ */
+const occurrences = (rule: string, dtstart: Date, limit: number): Date[] => {
+  const dates: Date[] = [];
+  let after = dtstart;
+  while (dates.length < limit) {
+    const next = getNextOccurrence(parseRRule(rule), dtstart, after);
+    if (!next) break;
+    dates.push(next);
+    after = next;
+  }
+  return dates;
+};
+
+const recurringTodo = (recurrence: string, dueAt: Date, occurrence?: number): Todo => ({
+  id: "todo-1",
+  task: "Water plants",
+  priority: "Low",
+  completed: true,
+  dueAt: dueAt.toISOString(),
+  recurrence,
+  occurrence,
+  tags: ["home"],
+  position: 3000,
+});
+
+describe("parseRRule", () => {
+  it("reads every supported part, with or without the RRULE: prefix", () => {
+    expect(parseRRule("RRULE:FREQ=weekly;INTERVAL=2;BYDAY=MO,-1FR;COUNT=4")).toEqual({
+      freq: "WEEKLY",
+      interval: 2,
+      byDay: [{ day: "MO" }, { day: "FR", ordinal: -1 }],
+      count: 4,
+    });
+    expect(parseRRule("FREQ=MONTHLY;BYMONTHDAY=1,-1")).toEqual({
+      freq: "MONTHLY",
+      interval: 1,
+      byMonthDay: [1, -1],
+    });
+  });
+
+  it("reads a date-only UNTIL as the end of that local day", () => {
+    expect(parseRRule("FREQ=DAILY;UNTIL=20261231").until).toEqual(
+      new Date(2026, 11, 31, 23, 59, 59)
+    );
+    expect(parseRRule("FREQ=DAILY;UNTIL=20261231T120000Z").until).toEqual(
+      new Date(Date.UTC(2026, 11, 31, 12))
+    );
+  });
+
+  it.each([
+    ["INTERVAL=2", "FREQ is required"],
+    ["FREQ=HOURLY", 'Unsupported FREQ "HOURLY"'],
+    ["FREQ=DAILY;INTERVAL=0", "INTERVAL must be a positive whole number"],
+    ["FREQ=MONTHLY;BYDAY=6MO", 'Invalid BYDAY ordinal "6MO"'],
+    ["FREQ=MONTHLY;BYMONTHDAY=32", 'Invalid BYMONTHDAY entry "32"'],
+    ["FREQ=DAILY;COUNT=3;UNTIL=20261231", "COUNT and UNTIL cannot be combined"],
+    ["FREQ=DAILY;BYHOUR=9", 'Unsupported rule part "BYHOUR"'],
+  ])("rejects %s", (rule, message) => {
+    expect(() => parseRRule(rule)).toThrow(message);
+    expect(tryParseRRule(rule)).toBeNull();
+  });
+
+  it("formats a rule back to the same string", () => {
+    const rule = "FREQ=MONTHLY;INTERVAL=3;BYDAY=2TU,-1FR;UNTIL=20261231T235959Z";
+    expect(formatRRule(parseRRule(rule))).toBe(rule);
+  });
+});
+
+describe("describeRRule", () => {
+  it.each([
+    ["FREQ=DAILY", "Every day"],
+    ["FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", "Every weekday"],
+    ["FREQ=WEEKLY;INTERVAL=2;BYDAY=MO", "Every 2 weeks on Monday"],
+    ["FREQ=MONTHLY;BYDAY=-1FR", "Every month on the last Friday"],
+    ["FREQ=MONTHLY;BYMONTHDAY=-2", "Every month on the 2nd to last day"],
+    ["FREQ=YEARLY;COUNT=1", "Every year, 1 time"],
+  ])("describes %s", (rule, description) => {
+    expect(describeRRule(parseRRule(rule))).toBe(description);
+  });
+});
+
+describe("getNextOccurrence", () => {
+  describe("at the end of the month", () => {
+    it("skips months without the start day", () => {
+      expect(occurrences("FREQ=MONTHLY", at(2026, 1, 31), 3)).toEqual([
+        at(2026, 3, 31),
+        at(2026, 5, 31),
+        at(2026, 7, 31),
+      ]);
+    });
+
+    it("counts negative month days from the end of each month", () => {
+      expect(occurrences("FREQ=MONTHLY;BYMONTHDAY=-1", at(2026, 1, 31), 3)).toEqual([
+        at(2026, 2, 28),
+        at(2026, 3, 31),
+        at(2026, 4, 30),
+      ]);
+    });
+
+    it("finds the last weekday of each month", () => {
+      expect(occurrences("FREQ=MONTHLY;BYDAY=-1FR", at(2026, 1, 30), 2)).toEqual([
+        at(2026, 2, 27),
+        at(2026, 3, 27),
+      ]);
+    });
+
+    it("only repeats February 29th in leap years", () => {
+      expect(occurrences("FREQ=YEARLY", at(2024, 2, 29), 1)).toEqual([at(2028, 2, 29)]);
+    });
+  });
+
+  describe("with BYDAY and an interval", () => {
+    it("repeats the listed days every other week", () => {
+      // 5 October 2026 is a Monday
+      expect(occurrences("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE", at(2026, 10, 5), 4)).toEqual([
+        at(2026, 10, 7),
+        at(2026, 10, 19),
+        at(2026, 10, 21),
+        at(2026, 11, 2),
+      ]);
+    });
+
+    it("keeps the week interval when the series starts on an unlisted day", () => {
+      // 8 October 2026 is a Thursday
+      expect(occurrences("FREQ=WEEKLY;INTERVAL=3;BYDAY=MO", at(2026, 10, 8), 2)).toEqual([
+        at(2026, 10, 26),
+        at(2026, 11, 16),
+      ]);
+    });
+
+    it("repeats an ordinal weekday every other month", () => {
+      expect(occurrences("FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU", at(2026, 9, 8), 2)).toEqual([
+        at(2026, 11, 10),
+        at(2027, 1, 12),
+      ]);
+    });
+  });
+
+  it("stops at UNTIL", () => {
+    expect(occurrences("FREQ=DAILY;UNTIL=20261021", at(2026, 10, 19), 5)).toEqual([
+      at(2026, 10, 20),
+      at(2026, 10, 21),
+    ]);
+  });
+
+  it("starts from the given time, not from the start of the series", () => {
+    const next = getNextOccurrence(
+      parseRRule("FREQ=WEEKLY;BYDAY=MO"),
+      at(2026, 10, 5),
+      at(2026, 10, 19, 9)
+    );
+    expect(next).toEqual(at(2026, 10, 26));
+  });
+});
+
+describe("getNextRecurrence", () => {
+  it("creates the next instance, keeping the task's details and place", () => {
+    expect(
+      getNextRecurrence(recurringTodo("FREQ=WEEKLY", at(2026, 10, 19)), at(2026, 10, 19, 8))
+    ).toEqual({
+      task: "Water plants",
+      priority: "Low",
+      completed: false,
+      parentId: null,
+      dueAt: at(2026, 10, 26).toISOString(),
+      estimatedMinutes: null,
+      recurrence: "FREQ=WEEKLY",
+      occurrence: 2,
+      tags: ["home"],
+      project: null,
+      position: 3000,
+    });
+  });
+
+  it("skips occurrences that are already overdue when completed late", () => {
+    const next = getNextRecurrence(
+      recurringTodo("FREQ=DAILY", at(2026, 10, 1)),
+      at(2026, 10, 19, 12)
+    );
+    expect(next?.dueAt).toBe(at(2026, 10, 20).toISOString());
+  });
+
+  it("ends the series after COUNT instances", () => {
+    const rule = "FREQ=DAILY;COUNT=3";
+    const second = recurringTodo(rule, at(2026, 10, 19), 2);
+    const third = recurringTodo(rule, at(2026, 10, 20), 3);
+
+    expect(getNextRecurrence(second, at(2026, 10, 19))).toMatchObject({ occurrence: 3 });
+    expect(getNextRecurrence(third, at(2026, 10, 20))).toBeNull();
+  });
+
+  it("ends the series after UNTIL", () => {
+    const rule = "FREQ=DAILY;UNTIL=20261020";
+    expect(getNextRecurrence(recurringTodo(rule, at(2026, 10, 20)), at(2026, 10, 20))).toBeNull();
+  });
+
+  it("ignores an invalid rule", () => {
+    expect(getNextRecurrence(recurringTodo("FREQ=SOMETIMES", at(2026, 10, 19)))).toBeNull();
+  });
+});
+
+// Tests run in Europe/Amsterdam (see scripts/jest-time-zone.js)
+describe("across daylight saving time changes", () => {
+  it("keeps the time of day when the clocks go forward", () => {
+    // Clocks go forward on 29 March 2026
+    const next = getNextOccurrence(parseRRule("FREQ=DAILY"), at(2026, 3, 28), at(2026, 3, 28));
+    expect(next?.toISOString()).toBe("2026-03-29T07:00:00.000Z");
+  });
+
+  it("keeps the time of day when the clocks go back", () => {
+    // Clocks go back on 25 October 2026
+    const next = getNextRecurrence(
+      recurringTodo("FREQ=WEEKLY;BYDAY=MO", at(2026, 10, 19)),
+      at(2026, 10, 19, 10)
+    );
+    expect(next?.dueAt).toBe("2026-10-26T08:00:00.000Z");
+  });
+
+  it("keeps weekly intervals aligned over the change", () => {
+    expect(
+      occurrences("FREQ=WEEKLY;INTERVAL=2;BYDAY=SU", at(2026, 10, 11, 23, 30), 2).map((date) =>
+        date.toISOString()
+      )
+    ).toEqual(["2026-10-25T22:30:00.000Z", "2026-11-08T22:30:00.000Z"]);
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Recurrence Utilities
+ *
+ * Support for repeating todos based on a subset of iCalendar RRULE (RFC 5545):
+ * FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.
+ * It handles:
+ * - Parsing and formatting rule strings such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO"
+ * - Describing rules in plain English for the UI
+ * - Expanding a rule to its next occurrence when a recurring todo is completed
+ *
+ * Weeks start on Monday. For YEARLY rules BYDAY and BYMONTHDAY apply within the
+ * month of the first occurrence, since BYMONTH is not supported.
+ */
+
+import type { Todo, CreateTodoRequest } from "../types";
+import { getPosition } from "./todoOrder";
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+export type Weekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+/**
+ * A BYDAY entry, e.g. "MO" or with an ordinal "2MO" (second Monday) / "-1FR" (last Friday)
+ */
+export interface WeekdaySpec {
+  day: Weekday;
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: WeekdaySpec[];
+  byMonthDay?: number[];
+  count?: number;
+  until?: Date;
+}
+
+// Indexed like Date#getDay()
+export const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+  SU: "Sunday",
+};
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on days scanned when looking for the next occurrence
+const MAX_SCAN_DAYS = 366 * 30;
+
+const parsePositiveInt = (value: string, part: string): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`${part} must be a positive whole number`);
+  }
+  return number;
+};
+
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) {
+    throw new Error("UNTIL must look like 20251231 or 20251231T235959Z");
+  }
+  const [, y, mo, d, h = "23", mi = "59", s = "59", utc] = match;
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix)
+ * @param text - Rule such as "FREQ=MONTHLY;BYDAY=2MO"
+ * @returns Parsed rule
+ * @throws Error describing the first invalid or unsupported part
+ */
+export const parseRRule = (text: string): RecurrenceRule => {
+  const body = text.trim().replace(/^RRULE:/i, "");
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  body
+    .split(";")
+    .filter(Boolean)
+    .forEach((part) => {
+      const [rawKey, value = ""] = part.split("=");
+      const key = rawKey.trim().toUpperCase();
+      const upperValue = value.trim().toUpperCase();
+
+      switch (key) {
+        case "FREQ":
+          if (!FREQUENCIES.includes(upperValue as Frequency)) {
+            throw new Error(`Unsupported FREQ "${value}"`);
+          }
+          rule.freq = upperValue as Frequency;
+          break;
+        case "INTERVAL":
+          rule.interval = parsePositiveInt(upperValue, "INTERVAL");
+          break;
+        case "BYDAY":
+          rule.byDay = upperValue.split(",").map((entry) => {
+            const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(entry.trim());
+            if (!match) {
+              throw new Error(`Invalid BYDAY entry "${entry}"`);
+            }
+            const ordinal = match[1] ? Number(match[1]) : undefined;
+            if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+              throw new Error(`Invalid BYDAY ordinal "${entry}"`);
+            }
+            return { day: match[2] as Weekday, ordinal };
+          });
+          break;
+        case "BYMONTHDAY":
+          rule.byMonthDay = upperValue.split(",").map((entry) => {
+            const day = Number(entry);
+            if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+              throw new Error(`Invalid BYMONTHDAY entry "${entry}"`);
+            }
+            return day;
+          });
+          break;
+        case "COUNT":
+          rule.count = parsePositiveInt(upperValue, "COUNT");
+          break;
+        case "UNTIL":
+          rule.until = parseUntil(upperValue);
+          break;
+        default:
+          throw new Error(`Unsupported rule part "${rawKey}"`);
+      }
+    });
+
+  if (!rule.freq) {
+    throw new Error("FREQ is required");
+  }
+  if (rule.count && rule.until) {
+    throw new Error("COUNT and UNTIL cannot be combined");
+  }
+  return rule as RecurrenceRule;
+};
+
+/**
+ * Parse a rule, returning null instead of throwing for invalid input
+ */
+export const tryParseRRule = (text: string | null | undefined): RecurrenceRule | null => {
+  if (!text) return null;
+  try {
+    return parseRRule(text);
+  } catch {
+    return null;
+  }
+};
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, "0");
+
+/**
+ * Serialize a rule back to RRULE syntax (without the "RRULE:" prefix)
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((spec) => `${spec.ordinal ?? ""}${spec.day}`).join(",")}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    const u = rule.until;
+    parts.push(
+      `UNTIL=${u.getUTCFullYear()}${pad(u.getUTCMonth() + 1)}${pad(u.getUTCDate())}T${pad(
+        u.getUTCHours()
+      )}${pad(u.getUTCMinutes())}${pad(u.getUTCSeconds())}Z`
+    );
+  }
+  return parts.join(";");
+};
+
+const ordinalName = (ordinal: number): string => {
+  if (ordinal === -1) return "last";
+  if (ordinal < 0) return `${ordinalName(-ordinal)} to last`;
+  return ["", "1st", "2nd", "3rd", "4th", "5th"][ordinal] ?? `${ordinal}th`;
+};
+
+/**
+ * Describe a rule in plain English, e.g. "Every 2 weeks on Monday"
+ */
+export const describeRRule = (rule: RecurrenceRule): string => {
+  const days = rule.byDay ?? [];
+  const isWeekdays =
+    rule.freq === "WEEKLY" &&
+    rule.interval === 1 &&
+    days.length === 5 &&
+    ["MO", "TU", "WE", "TH", "FR"].every((day) => days.some((spec) => spec.day === day));
+
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" }[rule.freq];
+  let description = isWeekdays
+    ? "Every weekday"
+    : rule.interval === 1
+    ? `Every ${unit}`
+    : `Every ${rule.interval} ${unit}s`;
+
+  if (!isWeekdays && days.length > 0) {
+    description += ` on ${days
+      .map((spec) =>
+        spec.ordinal
+          ? `the ${ordinalName(spec.ordinal)} ${WEEKDAY_NAMES[spec.day]}`
+          : WEEKDAY_NAMES[spec.day]
+      )
+      .join(", ")}`;
+  }
+  if (rule.byMonthDay?.length) {
+    description += ` on ${rule.byMonthDay
+      .map((day) => (day < 0 ? `the ${ordinalName(day)} day` : `day ${day}`))
+      .join(", ")}`;
+  }
+  if (rule.count) {
+    description += `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+  }
+  if (rule.until) {
+    description += `, until ${rule.until.toLocaleDateString()}`;
+  }
+  return description;
+};
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const daysBetween = (a: Date, b: Date): number =>
+  Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+
+const startOfWeek = (date: Date): Date => {
+  const start = startOfDay(date);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const daysInMonth = (date: Date): number =>
+  new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+
+const matchesMonthDay = (date: Date, byMonthDay: number[]): boolean =>
+  byMonthDay.some((day) =>
+    day > 0 ? date.getDate() === day : date.getDate() === daysInMonth(date) + day + 1
+  );
+
+const matchesWeekdayInMonth = (date: Date, spec: WeekdaySpec): boolean => {
+  if (WEEKDAYS[date.getDay()] !== spec.day) return false;
+  if (!spec.ordinal) return true;
+  return spec.ordinal > 0
+    ? Math.ceil(date.getDate() / 7) === spec.ordinal
+    : Math.ceil((daysInMonth(date) - date.getDate() + 1) / 7) === -spec.ordinal;
+};
+
+/**
+ * Whether a calendar day is part of the recurrence set anchored at dtstart
+ */
+const isOccurrenceDay = (rule: RecurrenceRule, dtstart: Date, date: Date): boolean => {
+  const weekday = WEEKDAYS[date.getDay()];
+
+  switch (rule.freq) {
+    case "DAILY":
+      return (
+        daysBetween(dtstart, date) % rule.interval === 0 &&
+        (!rule.byDay?.length || rule.byDay.some((spec) => spec.day === weekday)) &&
+        (!rule.byMonthDay?.length || matchesMonthDay(date, rule.byMonthDay))
+      );
+    case "WEEKLY": {
+      const weeks = daysBetween(startOfWeek(dtstart), startOfWeek(date)) / 7;
+      const days = rule.byDay?.length
+        ? rule.byDay.map((spec) => spec.day)
+        : [WEEKDAYS[dtstart.getDay()]];
+      return weeks % rule.interval === 0 && days.includes(weekday);
+    }
+    case "MONTHLY":
+    case "YEARLY": {
+      const months =
+        (date.getFullYear() - dtstart.getFullYear()) * 12 + date.getMonth() - dtstart.getMonth();
+      const aligned =
+        rule.freq === "MONTHLY"
+          ? months % rule.interval === 0
+          : months % (12 * rule.interval) === 0;
+      if (!aligned) return false;
+      if (rule.byMonthDay?.length) return matchesMonthDay(date, rule.byMonthDay);
+      if (rule.byDay?.length) return rule.byDay.some((spec) => matchesWeekdayInMonth(date, spec));
+      return date.getDate() === dtstart.getDate();
+    }
+  }
+};
+
+/**
+ * Find the first occurrence strictly after a given time.
+ * Occurrences happen at the time of day of dtstart.
+ * @param rule - Recurrence rule
+ * @param dtstart - First occurrence of the series
+ * @param after - Occurrences at or before this time are skipped
+ * @returns The next occurrence, or null if the series has ended (UNTIL)
+ */
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  dtstart: Date,
+  after: Date
+): Date | null => {
+  const from = after.getTime() > dtstart.getTime() ? after : dtstart;
+  const day = startOfDay(from);
+
+  for (let i = 0; i <= MAX_SCAN_DAYS; i += 1) {
+    const candidate = new Date(
+      day.getFullYear(),
+      day.getMonth(),
+      day.getDate() + i,
+      dtstart.getHours(),
+      dtstart.getMinutes()
+    );
+    if (rule.until && candidate.getTime() > rule.until.getTime()) {
+      return null;
+    }
+    if (candidate.getTime() > after.getTime() && isOccurrenceDay(rule, dtstart, candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+/**
+ * Build the next instance of a recurring todo that has just been completed.
+ * The next due date comes after both the current due date and now, so
+ * completing a chore late does not produce instances that are already overdue.
+ * The next instance takes the completed one's place in the manual order.
+ * @param todo - The recurring todo being completed
+ * @param now - Completion time
+ * @returns Todo data for the next instance, or null if the series has ended
+ */
+export const getNextRecurrence = (
+  todo: Todo,
+  now: Date = new Date()
+): CreateTodoRequest | null => {
+  const rule = tryParseRRule(todo.recurrence);
+  if (!rule) return null;
+
+  const occurrence = todo.occurrence ?? 1;
+  if (rule.count && occurrence >= rule.count) return null;
+
+  const dtstart = todo.dueAt ? new Date(todo.dueAt) : now;
+  const after = dtstart.getTime() > now.getTime() ? dtstart : now;
+  const next = getNextOccurrence(rule, dtstart, after);
+  if (!next) return null;
+
+  return {
+    task: todo.task,
+    priority: todo.priority,
+    completed: false,
+    parentId: todo.parentId ?? null,
+    dueAt: next.toISOString(),
+    estimatedMinutes: todo.estimatedMinutes ?? null,
+    recurrence: todo.recurrence,
+    occurrence: occurrence + 1,
+    tags: todo.tags,
+    project: todo.project ?? null,
+    position: getPosition(todo),
+  };
+};
@@ -0,0 +1,180 @@
+/**
+ * Schedule Editing
+ *
+ * Pure operations behind drag-and-drop editing of a schedule:
+ * - Moving a block to a new start time or resizing it
+ * - Reflowing later blocks so nothing overlaps the edited one
+ * - Re-inserting generated breaks according to the user's habits
+ *
+ * Generated breaks (kind "break" titled "Break") are recreated on every reflow;
+ * named breaks such as "Lunch" are kept as regular blocks that count as rest.
+ * Calendar events stay where they are and other blocks are moved past them.
+ */
+
+import type { Habits, ScheduleItem } from "../types";
+
+export const SNAP_MINUTES = 5;
+export const MIN_BLOCK_MINUTES = 5;
+
+const MINUTES_PER_DAY = 24 * 60;
+const GENERATED_BREAK_TITLE = "Break";
+
+/**
+ * Round to the nearest snapping step
+ */
+export const snapMinutes = (minutes: number): number =>
+  Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+/**
+ * Whether a block was inserted by the scheduler rather than planned
+ */
+export const isGeneratedBreak = (item: ScheduleItem): boolean =>
+  item.kind === "break" && item.task === GENERATED_BREAK_TITLE;
+
+/**
+ * Whether the user can move or resize a block
+ */
+export const isEditableItem = (item: ScheduleItem): boolean =>
+  item.kind !== "event" && !isGeneratedBreak(item);
+
+const withTimes = (item: ScheduleItem, start: number, durationMinutes: number): ScheduleItem => ({
+  ...item,
+  start,
+  end: start + durationMinutes,
+  durationMinutes,
+});
+
+/**
+ * Lay blocks out again so they no longer overlap, inserting breaks as needed.
+ * The anchor keeps its start time; blocks that overlap it go after it, and
+ * every later block is pushed back just enough to follow the one before it.
+ * @param items - Current schedule (generated breaks are discarded)
+ * @param habits - Break preferences
+ * @param anchor - The block that was just edited, if any
+ * @returns New schedule in chronological order
+ */
+export const reflowSchedule = (
+  items: ScheduleItem[],
+  habits: Habits,
+  anchor?: ScheduleItem
+): ScheduleItem[] => {
+  const breakDuration = habits.breakDuration > 0 ? habits.breakDuration : 0;
+  const breakFrequency = habits.breakFrequency > 0 ? habits.breakFrequency : 0;
+  const takesBreaks = breakDuration > 0 && breakFrequency > 0;
+
+  // Blocks that started before the anchor but reach into it are sorted after it
+  const sortKey = (item: ScheduleItem): number => {
+    if (!anchor || item === anchor) return item.start;
+    return item.start < anchor.start && item.end > anchor.start ? anchor.start + 0.5 : item.start;
+  };
+
+  const events = items
+    .filter((item) => item.kind === "event")
+    .sort((a, b) => a.start - b.start);
+  const planned = items
+    .filter((item) => item.kind !== "event" && !isGeneratedBreak(item))
+    .sort((a, b) => sortKey(a) - sortKey(b) || (a === anchor ? -1 : b === anchor ? 1 : 0));
+
+  // Earliest start at or after `start` where a block fits between events
+  const clearOfEvents = (start: number, duration: number): number =>
+    events.reduce(
+      (at, event) => (at < event.end && at + duration > event.start ? event.end : at),
+      start
+    );
+
+  const result: ScheduleItem[] = [];
+  let cursor = 0;
+  let sinceBreak = 0;
+
+  planned.forEach((item) => {
+    let start = clearOfEvents(Math.max(item.start, cursor), item.durationMinutes);
+
+    // A long enough gap counts as a break
+    if (start - cursor >= breakDuration) {
+      sinceBreak = 0;
+    }
+    // Breaks go in before the next block, but never push the block the user just placed
+    const breakDue =
+      takesBreaks &&
+      result.length > 0 &&
+      sinceBreak >= breakFrequency &&
+      !(item === anchor && cursor + breakDuration > start);
+
+    if (item.kind === "break") {
+      sinceBreak = 0;
+    } else if (breakDue) {
+      const breakStart = clearOfEvents(cursor, breakDuration);
+      result.push({
+        start: breakStart,
+        end: breakStart + breakDuration,
+        durationMinutes: breakDuration,
+        task: GENERATED_BREAK_TITLE,
+        kind: "break",
+      });
+      start = clearOfEvents(Math.max(start, breakStart + breakDuration), item.durationMinutes);
+      sinceBreak = 0;
+    }
+
+    const duration = Math.min(item.durationMinutes, MINUTES_PER_DAY - start);
+    if (duration < MIN_BLOCK_MINUTES) {
+      return;
+    }
+    result.push(withTimes(item, start, duration));
+    cursor = start + duration;
+    if (item.kind !== "break") {
+      sinceBreak += duration;
+    }
+  });
+
+  return [...result, ...events].sort((a, b) => a.start - b.start || a.end - b.end);
+};
+
+/**
+ * Move a block to a new start time and reflow the rest of the day
+ * @param items - Current schedule
+ * @param index - Index of the block to move
+ * @param newStart - Requested start (minutes since midnight, snapped)
+ * @param habits - Break preferences
+ */
+export const moveScheduleItem = (
+  items: ScheduleItem[],
+  index: number,
+  newStart: number,
+  habits: Habits
+): ScheduleItem[] => {
+  const item = items[index];
+  if (!item || !isEditableItem(item)) return items;
+
+  const start = Math.min(
+    Math.max(0, snapMinutes(newStart)),
+    MINUTES_PER_DAY - item.durationMinutes
+  );
+  const moved = withTimes(item, start, item.durationMinutes);
+  const next = items.map((existing, i) => (i === index ? moved : existing));
+  return reflowSchedule(next, habits, moved);
+};
+
+/**
+ * Change a block's duration and reflow the blocks after it
+ * @param items - Current schedule
+ * @param index - Index of the block to resize
+ * @param newDuration - Requested duration in minutes (snapped)
+ * @param habits - Break preferences
+ */
+export const resizeScheduleItem = (
+  items: ScheduleItem[],
+  index: number,
+  newDuration: number,
+  habits: Habits
+): ScheduleItem[] => {
+  const item = items[index];
+  if (!item || !isEditableItem(item)) return items;
+
+  const duration = Math.min(
+    Math.max(MIN_BLOCK_MINUTES, snapMinutes(newDuration)),
+    MINUTES_PER_DAY - item.start
+  );
+  const resized = withTimes(item, item.start, duration);
+  const next = items.map((existing, i) => (i === index ? resized : existing));
+  return reflowSchedule(next, habits, resized);
+};
@@ -0,0 +1,179 @@
+/**
+ * Schedule Engine Tests
+ *
+ * Planning a day on the device: task order, meetings, breaks, split shifts and
+ * tasks that don't fit in the working time.
+ */
+
+import { buildLocalSchedule, getSchedulableTodos } from "./scheduleEngine";
+import { formatClockTime } from "./scheduleModel";
+import { DEFAULT_HABITS } from "./habits";
+import type { CalendarEvent, Habits, ScheduleItem, Todo } from "../types";
+
+// Nine to five without breaks, unless a test says otherwise
+const HABITS: Habits = { ...DEFAULT_HABITS, breakFrequency: 0 };
+
+const todo = (
+  id: string,
+  priority: Todo["priority"],
+  estimatedMinutes: number | null,
+  fields: Partial<Todo> = {}
+): Todo => ({ id, task: `Task ${id}`, priority, completed: false, estimatedMinutes, ...fields });
+
+const meeting = (
+  subject: string,
+  start: string,
+  end: string,
+  fields: Partial<CalendarEvent> = {}
+): CalendarEvent => {
+  const minutes = (time: string): number => {
+    const [hours, mins] = time.split(":").map(Number);
+    return hours * 60 + mins;
+  };
+  return {
+    id: subject,
+    subject,
+    start: minutes(start),
+    end: minutes(end),
+    showAs: "busy",
+    isAllDay: false,
+    ...fields,
+  };
+};
+
+/**
+ * A schedule as "09:00-10:00 Task 1" lines, for readable comparisons
+ */
+const summarize = (items: ScheduleItem[]): string[] =>
+  items.map((item) => `${formatClockTime(item.start)}-${formatClockTime(item.end)} ${item.task}`);
+
+describe("getSchedulableTodos", () => {
+  it("orders by priority, then due date, then manual order", () => {
+    const todos = [
+      todo("1", "Low", 30),
+      todo("2", "High", 30, { position: 2000 }),
+      todo("3", "High", 30, { position: 1000 }),
+      todo("4", "High", 30, { dueAt: "2026-10-20T12:00:00.000Z", position: 3000 }),
+      todo("5", "Medium", 30),
+    ];
+
+    expect(getSchedulableTodos(todos).map(({ id }) => id)).toEqual(["4", "3", "2", "5", "1"]);
+  });
+
+  it("leaves out completed todos and parents with subtasks", () => {
+    const todos = [
+      todo("1", "High", 60),
+      todo("2", "High", 30, { parentId: "1" }),
+      todo("3", "High", 30, { completed: true }),
+    ];
+
+    expect(getSchedulableTodos(todos).map(({ id }) => id)).toEqual(["2"]);
+  });
+
+  it("schedules a parent whose subtasks are all done", () => {
+    const todos = [
+      todo("1", "High", 60),
+      todo("2", "High", 30, { parentId: "1", completed: true }),
+      todo("3", "Low", 30),
+    ];
+
+    expect(getSchedulableTodos(todos).map(({ id }) => id)).toEqual(["1", "3"]);
+  });
+});
+
+describe("buildLocalSchedule", () => {
+  it("packs tasks from the start of the day in priority order", () => {
+    const schedule = buildLocalSchedule(
+      [todo("1", "Low", null), todo("2", "High", 90), todo("3", "Medium", null)],
+      HABITS
+    );
+
+    expect(summarize(schedule)).toEqual([
+      "09:00-10:30 Task 2",
+      "10:30-11:15 Task 3",
+      "11:15-11:45 Task 1",
+    ]);
+    expect(schedule.map(({ kind }) => kind)).toEqual(["task", "task", "task"]);
+  });
+
+  it("plans around meetings, splitting a task that runs into one", () => {
+    const schedule = buildLocalSchedule([todo("1", "High", 90), todo("2", "Low", 30)], HABITS, [
+      meeting("Standup", "10:00", "10:30"),
+      meeting("Lunch", "11:00", "12:00", { showAs: "free" }),
+    ]);
+
+    expect(summarize(schedule)).toEqual([
+      "09:00-10:00 Task 1",
+      "10:00-10:30 Standup",
+      "10:30-11:00 Task 1 (continued)",
+      "11:00-11:30 Task 2",
+    ]);
+    expect(schedule[1]).toMatchObject({ kind: "event" });
+  });
+
+  it("takes a break after every breakFrequency minutes of work", () => {
+    const schedule = buildLocalSchedule([todo("1", "High", 90), todo("2", "High", 60)], {
+      ...HABITS,
+      breakFrequency: 60,
+      breakDuration: 15,
+    });
+
+    expect(summarize(schedule)).toEqual([
+      "09:00-10:00 Task 1",
+      "10:00-10:15 Break",
+      "10:15-10:45 Task 1 (continued)",
+      "10:45-11:15 Task 2",
+      "11:15-11:30 Break",
+      "11:30-12:00 Task 2 (continued)",
+    ]);
+  });
+
+  it("starts counting towards a break again after a meeting", () => {
+    const schedule = buildLocalSchedule(
+      [todo("1", "High", 60), todo("2", "High", 60)],
+      { ...HABITS, breakFrequency: 60, breakDuration: 15 },
+      [meeting("Standup", "10:00", "10:15")]
+    );
+
+    expect(summarize(schedule)).toEqual([
+      "09:00-10:00 Task 1",
+      "10:00-10:15 Standup",
+      "10:15-11:15 Task 2",
+    ]);
+  });
+
+  it("uses every period of a split shift", () => {
+    const schedule = buildLocalSchedule([todo("1", "High", 90)], {
+      ...HABITS,
+      workPeriods: [
+        { start: "09:00", end: "10:00" },
+        { start: "13:00", end: "17:00" },
+      ],
+    });
+
+    expect(summarize(schedule)).toEqual(["09:00-10:00 Task 1", "13:00-13:30 Task 1 (continued)"]);
+  });
+
+  it("skips a task that doesn't fit in the time left, keeping it whole", () => {
+    const schedule = buildLocalSchedule(
+      [todo("1", "High", 60), todo("2", "Medium", 120), todo("3", "Low", 30)],
+      { ...HABITS, workEndTime: "11:00" }
+    );
+
+    expect(summarize(schedule)).toEqual(["09:00-10:00 Task 1", "10:00-10:30 Task 3"]);
+  });
+
+  it("leaves out a task that doesn't fit before the end of the day at all", () => {
+    const schedule = buildLocalSchedule([todo("1", "High", 600)], HABITS);
+
+    expect(schedule).toEqual([]);
+  });
+
+  it("plans nothing but the meetings on a day without working time", () => {
+    const schedule = buildLocalSchedule([todo("1", "High", 30)], HABITS, [
+      meeting("Offsite", "09:00", "17:00"),
+    ]);
+
+    expect(summarize(schedule)).toEqual(["09:00-17:00 Offsite"]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Local Schedule Engine
+ *
+ * Deterministic, offline counterpart to the AI /schedule endpoint.
+ * It takes the same todos and habits and:
+ * - Orders open tasks by priority, then due date, then the user's manual order
+ * - Packs them into the working time (the workStartTime–workEndTime window, or
+ *   each of the work periods of a split shift) using their estimates
+ * - Keeps clear of calendar meetings, which appear as fixed event blocks
+ * - Inserts a break of breakDuration after every breakFrequency minutes of work,
+ *   splitting a task across the break when needed
+ * - Skips a task that does not fit in the working time left, rather than
+ *   planning only part of it
+ *
+ * The output uses the same ScheduleItem model as the validated AI response, so it
+ * can be shown as an instant preview, used as a fallback, or checked in unit tests.
+ */
+
+import type { Todo, Habits, ScheduleItem, CalendarEvent } from "../types";
+import { getWorkPeriods } from "./habits";
+import { getBlockingEvents, subtractIntervals, mergeEventsIntoSchedule } from "./calendar";
+import { getPosition } from "./todoOrder";
+
+// Used when a todo has no estimate
+export const DEFAULT_TASK_MINUTES: Record<Todo["priority"], number> = {
+  High: 60,
+  Medium: 45,
+  Low: 30,
+};
+
+const PRIORITY_RANK: Record<Todo["priority"], number> = {
+  High: 0,
+  Medium: 1,
+  Low: 2,
+};
+
+/**
+ * Open todos that should get time on the schedule, in scheduling order.
+ * Parents with open subtasks are left out since their subtasks are scheduled instead;
+ * a parent whose subtasks are all done is scheduled itself.
+ */
+export const getSchedulableTodos = (todos: Todo[]): Todo[] => {
+  const parentIds = new Set(
+    todos.filter((todo) => !todo.completed && todo.parentId).map((todo) => todo.parentId)
+  );
+  const dueTime = (todo: Todo): number =>
+    todo.dueAt ? new Date(todo.dueAt).getTime() || Infinity : Infinity;
+
+  return todos
+    .map((todo, index) => ({ todo, index }))
+    .filter(({ todo }) => !todo.completed && !parentIds.has(todo.id))
+    .sort(
+      (a, b) =>
+        PRIORITY_RANK[a.todo.priority] - PRIORITY_RANK[b.todo.priority] ||
+        dueTime(a.todo) - dueTime(b.todo) ||
+        getPosition(a.todo) - getPosition(b.todo) ||
+        a.index - b.index
+    )
+    .map(({ todo }) => todo);
+};
+
+/**
+ * Where the next item can start: the free period, the time within it and the
+ * minutes worked since the last break
+ */
+interface PlanPosition {
+  periodIndex: number;
+  cursor: number;
+  sinceBreak: number;
+}
+
+/**
+ * Build a schedule for the day without calling the backend
+ * @param todos - All todos (completed ones are skipped)
+ * @param habits - Work hours (or work periods) and break preferences
+ * @param events - The day's calendar events to plan around
+ * @returns Schedule items (tasks, breaks and events) in chronological order; a task
+ *          that does not fit in the free working time left is skipped whole, and
+ *          later (shorter) tasks may still take that time
+ */
+export const buildLocalSchedule = (
+  todos: Todo[],
+  habits: Habits,
+  events: CalendarEvent[] = []
+): ScheduleItem[] => {
+  const periods = subtractIntervals(getWorkPeriods(habits), getBlockingEvents(events));
+  const breakDuration = habits.breakDuration > 0 ? habits.breakDuration : 0;
+  const breakFrequency = habits.breakFrequency > 0 ? habits.breakFrequency : 0;
+  const takesBreaks = breakDuration > 0 && breakFrequency > 0;
+
+  /**
+   * Plan a todo from the given position, splitting it across breaks and free
+   * periods as needed
+   * @returns The todo's items (with the breaks before them) and the position
+   *          after it, or null if it does not fit in the time left
+   */
+  const placeTodo = (
+    todo: Todo,
+    from: PlanPosition
+  ): { items: ScheduleItem[]; position: PlanPosition } | null => {
+    const placed: ScheduleItem[] = [];
+    let { periodIndex, cursor, sinceBreak } = from;
+    let remaining = todo.estimatedMinutes || DEFAULT_TASK_MINUTES[todo.priority];
+    let part = 0;
+
+    while (remaining > 0) {
+      if (periodIndex >= periods.length) {
+        return null;
+      }
+      const periodEnd = periods[periodIndex].end;
+
+      // Move on to the next free period; the time in between counts as a break
+      if (cursor >= periodEnd) {
+        periodIndex += 1;
+        cursor = periods[periodIndex]?.start ?? cursor;
+        sinceBreak = 0;
+        continue;
+      }
+
+      if (takesBreaks && sinceBreak >= breakFrequency) {
+        if (cursor + breakDuration >= periodEnd) {
+          cursor = periodEnd;
+          continue;
+        }
+        placed.push({
+          start: cursor,
+          end: cursor + breakDuration,
+          durationMinutes: breakDuration,
+          task: "Break",
+          kind: "break",
+        });
+        cursor += breakDuration;
+        sinceBreak = 0;
+      }
+
+      const chunk = Math.min(
+        remaining,
+        periodEnd - cursor,
+        takesBreaks ? breakFrequency - sinceBreak : remaining
+      );
+      placed.push({
+        start: cursor,
+        end: cursor + chunk,
+        durationMinutes: chunk,
+        task: part === 0 ? todo.task : `${todo.task} (continued)`,
+        kind: "task",
+        todoId: todo.id,
+      });
+      cursor += chunk;
+      sinceBreak += chunk;
+      remaining -= chunk;
+      part += 1;
+    }
+
+    return { items: placed, position: { periodIndex, cursor, sinceBreak } };
+  };
+
+  const items: ScheduleItem[] = [];
+  let position: PlanPosition = { periodIndex: 0, cursor: periods[0]?.start ?? 0, sinceBreak: 0 };
+
+  for (const todo of getSchedulableTodos(todos)) {
+    const placed = placeTodo(todo, position);
+    if (placed) {
+      items.push(...placed.items);
+      position = placed.position;
+    }
+  }
+
+  return mergeEventsIntoSchedule(items, events);
+};
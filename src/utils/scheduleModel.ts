@@ -0,0 +1,192 @@
+/**
+ * Schedule Model
+ *
+ * Parsing and validation for schedules coming from the AI /schedule endpoint.
+ * It handles:
+ * - Parsing clock times ("09:00", "9:30 AM", ISO date-times) into minutes since midnight
+ * - Parsing durations ("45 min", "1h 30m", "1.5 hours", 90) into minutes
+ * - Normalising raw items into ScheduleItems with explicit start/end, separate
+ *   break blocks and, where possible, a link back to the source todo
+ * - Rejecting malformed output with a ScheduleValidationError listing every problem
+ */
+
+import type { Todo, ScheduleItem, RawScheduleItem } from "../types";
+import { ValidationError } from "./errors";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Raised when a schedule response cannot be turned into a valid schedule
+ */
+export class ScheduleValidationError extends ValidationError {
+  constructor(issues: string[]) {
+    super(
+      `Invalid schedule: ${issues.slice(0, 3).join("; ")}${issues.length > 3 ? "; ..." : ""}`,
+      issues
+    );
+    this.name = "ScheduleValidationError";
+  }
+}
+
+/**
+ * Format minutes since midnight as "HH:MM"
+ */
+export const formatClockTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60) % 24;
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Parse a time of day into minutes since midnight.
+ * Accepts "HH:MM", "HH:MM:SS", "9:30 AM", "9am" and ISO date-times (local time).
+ * @returns Minutes, or null if the value is not a recognisable time
+ */
+export const parseTimeOfDay = (value: unknown): number | null => {
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? null : date.getHours() * 60 + date.getMinutes();
+  }
+
+  const match = /^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i.exec(text);
+  if (!match || (!match[2] && !match[3])) return null;
+
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, "");
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+/**
+ * Parse a duration into whole minutes.
+ * Accepts numbers (minutes), "45", "45 min", "1h 30m", "1.5 hours", "1 hour 15 minutes" and "1:30".
+ * @returns Minutes, or null if the value is not a recognisable positive duration
+ */
+export const parseDurationMinutes = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+  }
+  if (typeof value !== "string") return null;
+  const text = value.trim().toLowerCase();
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return parseDurationMinutes(Number(text));
+  }
+
+  const clock = /^(\d+):(\d{2})$/.exec(text);
+  if (clock) {
+    return parseDurationMinutes(Number(clock[1]) * 60 + Number(clock[2]));
+  }
+
+  const unitPattern = /(\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m)(?![a-z])/g;
+  let total = 0;
+  let matched = "";
+  let match: RegExpExecArray | null;
+  while ((match = unitPattern.exec(text)) !== null) {
+    const amount = Number(match[1]);
+    total += match[2].startsWith("h") ? amount * 60 : amount;
+    matched += match[0];
+  }
+  // Reject strings with anything besides the recognised amounts
+  if (!matched || text.replace(unitPattern, "").replace(/\band\b|[\s,]+/g, "") !== "") {
+    return null;
+  }
+  return parseDurationMinutes(total);
+};
+
+/**
+ * Find the todo a schedule item refers to: by explicit ID, else by task title
+ */
+const findTodoId = (raw: RawScheduleItem, todos: Todo[]): string | undefined => {
+  if (typeof raw.todoId === "string" && todos.some((todo) => todo.id === raw.todoId)) {
+    return raw.todoId;
+  }
+  const title = raw.task.trim().toLowerCase();
+  return todos.find((todo) => todo.task.trim().toLowerCase() === title)?.id;
+};
+
+/**
+ * Validate and normalise a raw /schedule response
+ * @param data - Response body: an array of items, or an object with a "schedule" array
+ * @param todos - Todos the schedule was generated from, used to link items back
+ * @returns Items sorted by start time, with breaks as separate blocks
+ * @throws ScheduleValidationError if the response or any item is malformed
+ */
+export const normalizeSchedule = (data: unknown, todos: Todo[] = []): ScheduleItem[] => {
+  const list =
+    data && typeof data === "object" && !Array.isArray(data)
+      ? (data as { schedule?: unknown }).schedule
+      : data;
+  if (!Array.isArray(list)) {
+    throw new ScheduleValidationError(["expected a list of schedule items"]);
+  }
+
+  const issues: string[] = [];
+  const items: ScheduleItem[] = [];
+
+  list.forEach((entry, index) => {
+    const label = `item ${index + 1}`;
+    if (!entry || typeof entry !== "object") {
+      issues.push(`${label} is not an object`);
+      return;
+    }
+    const raw = entry as RawScheduleItem;
+
+    if (typeof raw.task !== "string" || !raw.task.trim()) {
+      issues.push(`${label} has no task`);
+      return;
+    }
+    const start = parseTimeOfDay(raw.time);
+    if (start === null) {
+      issues.push(`${label} has an invalid time "${String(raw.time)}"`);
+      return;
+    }
+    const durationMinutes = parseDurationMinutes(raw.duration);
+    if (durationMinutes === null) {
+      issues.push(`${label} has an invalid duration "${String(raw.duration)}"`);
+      return;
+    }
+    const end = start + durationMinutes;
+    if (end > MINUTES_PER_DAY) {
+      issues.push(`${label} runs past midnight`);
+      return;
+    }
+
+    const isBreak = /^(break|lunch|rest)\b/i.test(raw.task.trim());
+    items.push({
+      start,
+      end,
+      durationMinutes,
+      task: raw.task.trim(),
+      kind: isBreak ? "break" : "task",
+      todoId: isBreak ? undefined : findTodoId(raw, todos),
+    });
+
+    if (raw.breakDuration) {
+      const breakMinutes = parseDurationMinutes(raw.breakDuration);
+      if (breakMinutes === null) {
+        issues.push(`${label} has an invalid break duration "${String(raw.breakDuration)}"`);
+      } else if (end + breakMinutes <= MINUTES_PER_DAY) {
+        items.push({
+          start: end,
+          end: end + breakMinutes,
+          durationMinutes: breakMinutes,
+          task: "Break",
+          kind: "break",
+        });
+      }
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ScheduleValidationError(issues);
+  }
+  return items.sort((a, b) => a.start - b.start || a.end - b.end);
+};
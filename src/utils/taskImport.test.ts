@@ -0,0 +1,356 @@
+/**
+ * Task Import Tests
+ *
+ * Reading tasks from CSV/TSV, Markdown checklists, iCalendar VTODOs and
+ * Microsoft To Do JSON, and picking out duplicates and the tasks to import.
+ */
+
+import {
+  detectImportFormat,
+  findDuplicateTasks,
+  guessColumnMapping,
+  mapCsvTasks,
+  parseCsv,
+  parseICalTasks,
+  parseMarkdownTasks,
+  parseMicrosoftToDoTasks,
+  parsePriority,
+  selectImportedTasks,
+} from "./taskImport";
+import type { ImportedTask, Todo } from "../types";
+
+/**
+ * The end of a local day as an ISO string, which is when date-only tasks are due
+ */
+const endOfDay = (year: number, month: number, day: number): string =>
+  new Date(year, month - 1, day, 23, 59).toISOString();
+
+const OUTLOOK_CSV = [
+  "\uFEFFSubject,Priority,Due Date,Status",
+  '"Write report, part 1",High,2026-10-20,Not started',
+  '"Call Sam',
+  'about the ""big"" order",Low,,Completed',
+  "",
+  ",Normal,2026-10-21,",
+  "Water plants,Normal,10/22/2026,",
+].join("\r\n");
+
+const ICAL = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VTODO",
+  "UID:parent@example.com",
+  "SUMMARY:Plan the trip\\, with the family",
+  "PRIORITY:1",
+  "DUE;VALUE=DATE:20261020",
+  "RRULE:FREQ=yearly",
+  "CATEGORIES:Home,Family\\, friends",
+  "X-DAYFORGE-ESTIMATE:PT90M",
+  "DESCRIPTION:First line\\nsecond line",
+  "END:VTODO",
+  "BEGIN:VTODO",
+  "UID:child@example.com",
+  "SUMMARY:Book a hotel that is close to the station and has a late check-i",
+  " n desk",
+  "RELATED-TO;RELTYPE=PARENT:parent@example.com",
+  "DUE:20261019T080000Z",
+  "STATUS:COMPLETED",
+  "PRIORITY:9",
+  "END:VTODO",
+  "BEGIN:VTODO",
+  "UID:sibling@example.com",
+  "SUMMARY:Pack",
+  "RELATED-TO;RELTYPE=SIBLING:parent@example.com",
+  "DUE;TZID=Europe/Amsterdam:20261021T093000",
+  "PERCENT-COMPLETE:100",
+  "END:VTODO",
+  "BEGIN:VTODO",
+  "SUMMARY:",
+  "END:VTODO",
+  "BEGIN:VEVENT",
+  "SUMMARY:Not a task",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+const TODO_JSON = JSON.stringify({
+  lists: [
+    {
+      displayName: "Tasks",
+      tasks: [
+        {
+          title: " Renew passport ",
+          importance: "high",
+          status: "notStarted",
+          dueDateTime: { dateTime: "2026-10-20T00:00:00.0000000", timeZone: "UTC" },
+          recurrence: {
+            pattern: { type: "weekly", interval: 2, daysOfWeek: ["monday", "friday"] },
+          },
+          checklistItems: [
+            { displayName: "Take photos", isChecked: true },
+            { displayName: " " },
+            { displayName: "Fill in the form" },
+          ],
+        },
+        {
+          title: "Pay rent",
+          status: "completed",
+          recurrence: { pattern: { type: "absoluteMonthly", dayOfMonth: 1 } },
+        },
+        { title: "" },
+      ],
+    },
+  ],
+});
+
+describe("detectImportFormat", () => {
+  it.each([
+    ["tasks.ics", "", "ical"],
+    ["Tasks.JSON", "", "mstodo"],
+    ["tasks.tsv", "", "csv"],
+    ["notes.md", "", "markdown"],
+    ["export.txt", "BEGIN:VCALENDAR\r\n", "ical"],
+    ["export.txt", '  [{"title": "Pay rent"}]', "mstodo"],
+    ["export.txt", "# Notes\n- [ ] Pay rent", "markdown"],
+    ["export.txt", "Task,Due\nPay rent,", "csv"],
+  ])("reads %s with %j as %s", (fileName, text, format) => {
+    expect(detectImportFormat(fileName, text)).toBe(format);
+  });
+});
+
+describe("parsePriority", () => {
+  it.each([
+    ["High", "High"],
+    ["urgent", "High"],
+    [1, "High"],
+    ["5", "Medium"],
+    ["0", "Medium"],
+    ["normal", "Medium"],
+    ["9", "Low"],
+    [" low ", "Low"],
+    [null, "Medium"],
+  ])("reads %j as %s", (value, priority) => {
+    expect(parsePriority(value)).toBe(priority);
+  });
+});
+
+describe("CSV", () => {
+  it("keeps quoted delimiters, quotes and line breaks inside their field", () => {
+    expect(parseCsv(OUTLOOK_CSV)).toEqual({
+      headers: ["Subject", "Priority", "Due Date", "Status"],
+      rows: [
+        ["Write report, part 1", "High", "2026-10-20", "Not started"],
+        ['Call Sam\r\nabout the "big" order', "Low", "", "Completed"],
+        ["", "Normal", "2026-10-21", ""],
+        ["Water plants", "Normal", "10/22/2026", ""],
+      ],
+    });
+  });
+
+  it("detects semicolon and tab delimiters", () => {
+    expect(parseCsv('Task;Due\n"Pay; rent";2026-10-20\n').rows).toEqual([
+      ["Pay; rent", "2026-10-20"],
+    ]);
+    expect(parseCsv("Task\tDue\nPay, rent\t2026-10-20").rows).toEqual([
+      ["Pay, rent", "2026-10-20"],
+    ]);
+  });
+
+  it("guesses the columns from the headers", () => {
+    expect(guessColumnMapping(["Subject", "Priority", "Due Date", "Status"])).toEqual({
+      task: 0,
+      priority: 1,
+      completed: 3,
+      dueAt: 2,
+    });
+    expect(guessColumnMapping(["What", "When"])).toEqual({
+      task: 0,
+      priority: null,
+      completed: null,
+      dueAt: null,
+    });
+    expect(guessColumnMapping([]).task).toBeNull();
+  });
+
+  it("maps the rows to tasks, skipping rows without a title", () => {
+    const table = parseCsv(OUTLOOK_CSV);
+
+    expect(mapCsvTasks(table, guessColumnMapping(table.headers))).toEqual([
+      {
+        task: "Write report, part 1",
+        priority: "High",
+        completed: false,
+        dueAt: endOfDay(2026, 10, 20),
+      },
+      {
+        task: 'Call Sam\r\nabout the "big" order',
+        priority: "Low",
+        completed: true,
+        dueAt: null,
+      },
+      { task: "Water plants", priority: "Medium", completed: false, dueAt: endOfDay(2026, 10, 22) },
+    ]);
+  });
+
+  it("counts a completion date as done", () => {
+    const table = parseCsv("Task,Date Completed\nPay rent,2026-10-01\nCall Sam,");
+
+    expect(
+      mapCsvTasks(table, guessColumnMapping(table.headers)).map(({ completed }) => completed)
+    ).toEqual([true, false]);
+  });
+
+  it("imports nothing without a task column", () => {
+    expect(
+      mapCsvTasks(parseCsv("Task\nPay rent"), {
+        task: null,
+        priority: null,
+        completed: null,
+        dueAt: null,
+      })
+    ).toEqual([]);
+  });
+});
+
+describe("Markdown", () => {
+  it("reads checklist items, with indented items as subtasks (a tab counts as 4 spaces)", () => {
+    const markdown = [
+      "# Weekend",
+      "",
+      "- [ ] Plan the trip",
+      "  - [x] Book a hotel",
+      "  - [ ] Pack",
+      "\t* [ ] Passport",
+      "- [X] Pay rent",
+      "1. [ ] Call Sam",
+      "- [ ]   ",
+      "- Not a checklist item",
+    ].join("\n");
+
+    expect(parseMarkdownTasks(markdown)).toEqual([
+      { task: "Plan the trip", priority: "Medium", completed: false, parentIndex: null },
+      { task: "Book a hotel", priority: "Medium", completed: true, parentIndex: 0 },
+      { task: "Pack", priority: "Medium", completed: false, parentIndex: 0 },
+      { task: "Passport", priority: "Medium", completed: false, parentIndex: 2 },
+      { task: "Pay rent", priority: "Medium", completed: true, parentIndex: null },
+      { task: "Call Sam", priority: "Medium", completed: false, parentIndex: null },
+    ]);
+  });
+});
+
+describe("iCalendar", () => {
+  it("reads VTODOs, unfolding continued lines and undoing escapes", () => {
+    const [trip, hotel, pack, ...rest] = parseICalTasks(ICAL);
+
+    expect(trip).toEqual({
+      task: "Plan the trip, with the family",
+      priority: "High",
+      completed: false,
+      dueAt: endOfDay(2026, 10, 20),
+      estimatedMinutes: 90,
+      recurrence: "FREQ=YEARLY",
+      tags: ["home", "family,-friends"],
+      parentIndex: null,
+    });
+    expect(hotel).toMatchObject({
+      task: "Book a hotel that is close to the station and has a late check-in desk",
+      priority: "Low",
+      completed: true,
+      dueAt: "2026-10-19T08:00:00.000Z",
+      parentIndex: 0,
+    });
+    expect(pack).toMatchObject({
+      task: "Pack",
+      completed: true,
+      dueAt: new Date(2026, 9, 21, 9, 30).toISOString(),
+      parentIndex: null,
+    });
+    expect(rest).toEqual([]);
+  });
+
+  it("reads files with bare LF line endings and folds indented with a tab", () => {
+    const ical = "BEGIN:VTODO\nSUMMARY:Call\n\t Sam\\; then email\\\\archive\nEND:VTODO\n";
+
+    expect(parseICalTasks(ical)).toEqual([
+      expect.objectContaining({ task: "Call Sam; then email\\archive" }),
+    ]);
+  });
+});
+
+describe("Microsoft To Do", () => {
+  it("reads tasks from lists, with checklist steps as subtasks", () => {
+    expect(parseMicrosoftToDoTasks(TODO_JSON)).toEqual([
+      {
+        task: "Renew passport",
+        priority: "High",
+        completed: false,
+        dueAt: endOfDay(2026, 10, 20),
+        recurrence: "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR",
+        parentIndex: null,
+      },
+      { task: "Take photos", priority: "High", completed: true, parentIndex: 0 },
+      { task: "Fill in the form", priority: "High", completed: false, parentIndex: 0 },
+      {
+        task: "Pay rent",
+        priority: "Medium",
+        completed: true,
+        dueAt: null,
+        recurrence: "FREQ=MONTHLY;BYMONTHDAY=1",
+        parentIndex: null,
+      },
+    ]);
+  });
+
+  it("reads a Graph page of tasks", () => {
+    expect(parseMicrosoftToDoTasks('{"value": [{"title": "Pay rent"}]}')).toEqual([
+      expect.objectContaining({ task: "Pay rent" }),
+    ]);
+  });
+
+  it("explains what is wrong with an unusable file", () => {
+    expect(() => parseMicrosoftToDoTasks("Pay rent")).toThrow(
+      "This file isn't valid Microsoft To Do JSON."
+    );
+    expect(() => parseMicrosoftToDoTasks('{"value": []}')).toThrow(
+      "No tasks were found in this file."
+    );
+  });
+});
+
+describe("findDuplicateTasks", () => {
+  it("flags tasks the user already has or that repeat within the import", () => {
+    const existing: Todo[] = [
+      { id: "todo-1", task: "Pay  Rent", priority: "High", completed: false },
+    ];
+    const tasks: ImportedTask[] = ["pay rent", "Call Sam", " call sam "].map((task) => ({
+      task,
+      priority: "Medium",
+      completed: false,
+    }));
+
+    expect(findDuplicateTasks(tasks, existing)).toEqual([true, false, true]);
+  });
+});
+
+describe("selectImportedTasks", () => {
+  it("attaches subtasks to their nearest chosen ancestor", () => {
+    const tasks: ImportedTask[] = [
+      { task: "Plan the trip", priority: "Medium", completed: false, parentIndex: null },
+      { task: "Book travel", priority: "Medium", completed: false, parentIndex: 0 },
+      { task: "Book a hotel", priority: "Medium", completed: false, parentIndex: 1 },
+      { task: "Pay rent", priority: "Medium", completed: false, parentIndex: null },
+    ];
+
+    expect(
+      selectImportedTasks(tasks, [true, false, true, true]).map(({ task, parentIndex }) => [
+        task,
+        parentIndex,
+      ])
+    ).toEqual([
+      ["Plan the trip", null],
+      ["Book a hotel", 0],
+      ["Pay rent", null],
+    ]);
+    expect(selectImportedTasks(tasks, [false, false, true, false])[0].parentIndex).toBeNull();
+  });
+});
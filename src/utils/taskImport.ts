@@ -0,0 +1,488 @@
+/**
+ * Task Import Parsers
+ *
+ * Reads tasks from files exported by other tools:
+ * - CSV/TSV (including Outlook and Microsoft To Do CSV exports), with the columns
+ *   mapped to task fields by the user (a mapping is guessed from the headers)
+ * - Markdown checklists ("- [ ] task", "- [x] done"); indentation makes subtasks
+ * - iCalendar VTODOs, with priority, status, due date, recurrence, categories and parents
+ * - Microsoft To Do JSON (Graph todoTask lists), with checklist items as subtasks
+ * - Duplicate detection against the user's existing todos
+ */
+
+import type {
+  ImportColumnMapping,
+  ImportFormat,
+  ImportTable,
+  ImportedTask,
+  Todo,
+} from "../types";
+import { tryParseRRule, formatRRule } from "./recurrence";
+import type { Weekday } from "./recurrence";
+
+type Priority = ImportedTask["priority"];
+
+const TRUE_VALUES = ["true", "yes", "y", "x", "1", "done", "complete", "completed", "✓", "✔"];
+
+const CHECKLIST_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/;
+
+// Tab stops used to measure Markdown indentation
+const TAB_WIDTH = 4;
+
+/**
+ * Guess a file's format from its name, falling back to its contents
+ */
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  if (extension === "ics") return "ical";
+  if (extension === "json") return "mstodo";
+  if (extension === "csv" || extension === "tsv") return "csv";
+  if (extension === "md" || extension === "markdown") return "markdown";
+
+  const trimmed = text.trimStart();
+  if (/^BEGIN:VCALENDAR/i.test(trimmed)) return "ical";
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) return "mstodo";
+  if (text.split(/\r?\n/).some((line) => CHECKLIST_PATTERN.test(line))) return "markdown";
+  return "csv";
+};
+
+/**
+ * Map a priority label or iCal-style number to a todo priority
+ */
+export const parsePriority = (value: string | number | null | undefined): Priority => {
+  const text = String(value ?? "").trim().toLowerCase();
+  if (/^\d+$/.test(text)) {
+    const level = Number(text);
+    // iCal: 1–4 high, 5 medium, 6–9 low, 0 undefined
+    if (level >= 1 && level <= 4) return "High";
+    if (level >= 6 && level <= 9) return "Low";
+    return "Medium";
+  }
+  if (["high", "urgent", "important", "!!!", "a"].includes(text)) return "High";
+  if (["low", "minor", "!", "c"].includes(text)) return "Low";
+  return "Medium";
+};
+
+/**
+ * Whether a cell marks a task as done (yes/true/x/completed, or a completion date)
+ */
+const parseCompleted = (value: string | undefined): boolean => {
+  const text = (value ?? "").trim().toLowerCase();
+  if (!text) return false;
+  if (TRUE_VALUES.includes(text)) return true;
+  return /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/.test(text);
+};
+
+/**
+ * Parse a due date cell to an ISO string
+ * Dates without a time are due at the end of that day.
+ */
+const parseDueDate = (value: string | undefined): string | null => {
+  const text = (value ?? "").trim();
+  if (!text) return null;
+
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  const date = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]), 23, 59)
+    : new Date(text);
+  if (Number.isNaN(date.getTime())) return null;
+  if (!dateOnly && !/\d:\d/.test(text)) {
+    date.setHours(23, 59, 0, 0);
+  }
+  return date.toISOString();
+};
+
+/**
+ * Split delimited text into rows (RFC 4180 quoting; comma, semicolon or tab)
+ * @param text - File contents
+ * @returns The first row as headers and the remaining non-empty rows
+ */
+export const parseCsv = (text: string): ImportTable => {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+  const [headers = [], ...body] = nonEmpty;
+  return { headers: headers.map((header) => header.trim()), rows: body };
+};
+
+/**
+ * Guess which columns hold which task fields from their headers
+ */
+export const guessColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const find = (pattern: RegExp): number | null => {
+    const index = headers.findIndex((header) => pattern.test(header.trim()));
+    return index >= 0 ? index : null;
+  };
+  return {
+    task:
+      find(/^(task|title|subject|name|todo|to do|description)$/i) ?? (headers.length ? 0 : null),
+    priority: find(/priority|importance/i),
+    completed: find(/^(completed?|done|status|date completed|completed date)$/i),
+    dueAt: find(/due/i),
+  };
+};
+
+/**
+ * Read tasks from CSV rows using a column mapping
+ * Rows without a task title are skipped.
+ */
+export const mapCsvTasks = (table: ImportTable, mapping: ImportColumnMapping): ImportedTask[] => {
+  if (mapping.task === null) return [];
+  const cell = (row: string[], index: number | null): string | undefined =>
+    index === null ? undefined : row[index];
+
+  return table.rows
+    .map((row) => ({
+      task: (cell(row, mapping.task) ?? "").trim(),
+      priority: parsePriority(cell(row, mapping.priority)),
+      completed: parseCompleted(cell(row, mapping.completed)),
+      dueAt: parseDueDate(cell(row, mapping.dueAt)),
+    }))
+    .filter((task) => task.task !== "");
+};
+
+/**
+ * Read tasks from a Markdown checklist
+ * Lines indented below a checklist item become its subtasks; other lines are ignored.
+ */
+export const parseMarkdownTasks = (text: string): ImportedTask[] => {
+  const tasks: ImportedTask[] = [];
+  // Open ancestors as [indent, index] pairs
+  const stack: Array<[number, number]> = [];
+
+  text.split(/\r?\n/).forEach((line) => {
+    const match = CHECKLIST_PATTERN.exec(line);
+    if (!match || !match[3].trim()) return;
+
+    const indent = match[1].replace(/\t/g, " ".repeat(TAB_WIDTH)).length;
+    while (stack.length > 0 && stack[stack.length - 1][0] >= indent) {
+      stack.pop();
+    }
+    tasks.push({
+      task: match[3].trim(),
+      priority: "Medium",
+      completed: match[2].toLowerCase() === "x",
+      parentIndex: stack.length > 0 ? stack[stack.length - 1][1] : null,
+    });
+    stack.push([indent, tasks.length - 1]);
+  });
+
+  return tasks;
+};
+
+/**
+ * Undo iCalendar TEXT escaping
+ */
+const unescapeICalText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char
+  );
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value to an ISO string
+ * Values without a trailing Z (floating or TZID) are read as local time.
+ */
+const parseICalDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+  if (!match[4]) {
+    return new Date(year, month - 1, day, 23, 59).toISOString();
+  }
+  const date = match[7]
+    ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+    : new Date(year, month - 1, day, hours, minutes, seconds);
+  return date.toISOString();
+};
+
+/**
+ * Read tasks from the VTODOs of an iCalendar file
+ * RELATED-TO links to other VTODOs in the file become subtasks.
+ */
+export const parseICalTasks = (text: string): ImportedTask[] => {
+  // Unfold continuation lines before splitting
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const tasks: ImportedTask[] = [];
+  const uids: Array<string | null> = [];
+  const parents: Array<string | null> = [];
+  let current: Record<string, { params: string; value: string }> | null = null;
+
+  lines.forEach((line) => {
+    const match = /^([A-Za-z0-9-]+)((?:;[^:]*)?):(.*)$/.exec(line);
+    if (!match) return;
+    const name = match[1].toUpperCase();
+    const params = match[2].toUpperCase();
+    const value = match[3];
+
+    if (name === "BEGIN" && value.toUpperCase() === "VTODO") {
+      current = {};
+      return;
+    }
+    if (!current) return;
+    if (name === "END" && value.toUpperCase() === "VTODO") {
+      const fields: Record<string, { params: string; value: string }> = current;
+      current = null;
+      const summary = unescapeICalText(fields.SUMMARY?.value ?? "").trim();
+      if (!summary) return;
+
+      const status = (fields.STATUS?.value ?? "").toUpperCase();
+      const rule = tryParseRRule(fields.RRULE?.value);
+      const estimate = /^PT(\d+)M$/i.exec(fields["X-DAYFORGE-ESTIMATE"]?.value ?? "");
+      tasks.push({
+        task: summary,
+        priority: parsePriority(fields.PRIORITY?.value ?? 0),
+        completed:
+          status === "COMPLETED" ||
+          Boolean(fields.COMPLETED) ||
+          fields["PERCENT-COMPLETE"]?.value === "100",
+        dueAt: fields.DUE ? parseICalDate(fields.DUE.value) : null,
+        estimatedMinutes: estimate ? Number(estimate[1]) : null,
+        recurrence: rule ? formatRRule(rule) : null,
+        // Categories are comma-separated; escaped commas belong to a category
+        tags: ((fields.CATEGORIES?.value ?? "").match(/(?:\\.|[^,])+/g) ?? [])
+          .map((tag) => unescapeICalText(tag).trim().toLowerCase().replace(/\s+/g, "-"))
+          .filter(Boolean),
+      });
+      uids.push(fields.UID?.value ?? null);
+      const related = fields["RELATED-TO"];
+      const isParentLink =
+        !related?.params.includes("RELTYPE=") || related.params.includes("RELTYPE=PARENT");
+      parents.push(related && isParentLink ? related.value : null);
+      return;
+    }
+    // Keep the first occurrence of each property
+    if (!current[name]) {
+      current[name] = { params, value };
+    }
+  });
+
+  return tasks.map((task, index) => {
+    const parentIndex = parents[index] ? uids.indexOf(parents[index]) : -1;
+    return {
+      ...task,
+      parentIndex: parentIndex >= 0 && parentIndex !== index ? parentIndex : null,
+    };
+  });
+};
+
+/**
+ * A task from the Microsoft Graph To Do API (/me/todo/lists/{id}/tasks)
+ */
+interface ToDoTask {
+  title?: string;
+  importance?: string;
+  status?: string;
+  dueDateTime?: { dateTime?: string; timeZone?: string } | null;
+  recurrence?: {
+    pattern?: {
+      type?: string;
+      interval?: number;
+      daysOfWeek?: string[];
+      dayOfMonth?: number;
+    };
+  } | null;
+  checklistItems?: Array<{ displayName?: string; isChecked?: boolean }>;
+}
+
+const GRAPH_WEEKDAYS: Record<string, Weekday> = {
+  sunday: "SU",
+  monday: "MO",
+  tuesday: "TU",
+  wednesday: "WE",
+  thursday: "TH",
+  friday: "FR",
+  saturday: "SA",
+};
+
+/**
+ * Convert a To Do recurrence pattern to RRULE text
+ * Relative monthly/yearly patterns are not supported and are dropped.
+ */
+const toDoRecurrenceToRRule = (recurrence: ToDoTask["recurrence"]): string | null => {
+  const pattern = recurrence?.pattern;
+  if (!pattern?.type) return null;
+  const interval = pattern.interval && pattern.interval > 1 ? `;INTERVAL=${pattern.interval}` : "";
+  const days = (pattern.daysOfWeek ?? [])
+    .map((day) => GRAPH_WEEKDAYS[day.toLowerCase()])
+    .filter(Boolean);
+
+  switch (pattern.type) {
+    case "daily":
+      return `FREQ=DAILY${interval}`;
+    case "weekly":
+      return `FREQ=WEEKLY${interval}${days.length ? `;BYDAY=${days.join(",")}` : ""}`;
+    case "absoluteMonthly":
+      return `FREQ=MONTHLY${interval}${
+        pattern.dayOfMonth ? `;BYMONTHDAY=${pattern.dayOfMonth}` : ""
+      }`;
+    case "absoluteYearly":
+      return `FREQ=YEARLY${interval}`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parse a To Do dueDateTime; To Do stores due dates at midnight of the day
+ */
+const parseToDoDueDate = (due: ToDoTask["dueDateTime"]): string | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(due?.dateTime ?? "");
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 23, 59).toISOString();
+};
+
+/**
+ * Collect To Do tasks from the shapes an export can take: a task array, a Graph
+ * page ({ value: [...] }), or lists carrying their tasks
+ */
+const collectToDoTasks = (data: unknown): ToDoTask[] => {
+  if (Array.isArray(data)) {
+    return data.flatMap((entry) =>
+      entry && typeof entry === "object" && "tasks" in entry
+        ? collectToDoTasks(entry)
+        : [entry as ToDoTask]
+    );
+  }
+  if (data && typeof data === "object") {
+    const record = data as Record<string, unknown>;
+    if (Array.isArray(record.value)) return collectToDoTasks(record.value);
+    if (Array.isArray(record.lists)) return collectToDoTasks(record.lists);
+    if (Array.isArray(record.tasks)) return collectToDoTasks(record.tasks);
+  }
+  return [];
+};
+
+/**
+ * Read tasks from a Microsoft To Do JSON export
+ * Checklist steps become subtasks of their task.
+ * @throws Error if the text is not JSON or contains no tasks
+ */
+export const parseMicrosoftToDoTasks = (text: string): ImportedTask[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid Microsoft To Do JSON.");
+  }
+
+  const tasks: ImportedTask[] = [];
+  collectToDoTasks(data).forEach((todo) => {
+    const title = typeof todo?.title === "string" ? todo.title.trim() : "";
+    if (!title) return;
+    const importance: ImportedTask["priority"] =
+      todo.importance === "high" ? "High" : todo.importance === "low" ? "Low" : "Medium";
+    tasks.push({
+      task: title,
+      priority: importance,
+      completed: todo.status === "completed",
+      dueAt: parseToDoDueDate(todo.dueDateTime),
+      recurrence: toDoRecurrenceToRRule(todo.recurrence),
+      parentIndex: null,
+    });
+
+    const parentIndex = tasks.length - 1;
+    (todo.checklistItems ?? []).forEach((item) => {
+      const step = item.displayName?.trim();
+      if (!step) return;
+      tasks.push({
+        task: step,
+        priority: importance,
+        completed: Boolean(item.isChecked),
+        parentIndex,
+      });
+    });
+  });
+
+  if (tasks.length === 0) {
+    throw new Error("No tasks were found in this file.");
+  }
+  return tasks;
+};
+
+const normalizeTitle = (task: string): string => task.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Flag imported tasks that already exist (same title, ignoring case and spacing),
+ * either among the user's todos or earlier in the same import
+ * @returns One flag per imported task
+ */
+export const findDuplicateTasks = (tasks: ImportedTask[], existing: Todo[]): boolean[] => {
+  const seen = new Set(existing.map((todo) => normalizeTitle(todo.task)));
+  return tasks.map((task) => {
+    const key = normalizeTitle(task.task);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return duplicate;
+  });
+};
+
+/**
+ * Keep only the chosen tasks, pointing subtasks at their nearest chosen ancestor
+ * @param tasks - All parsed tasks
+ * @param selected - Whether each task should be imported
+ * @returns The chosen tasks with parentIndex renumbered for the shorter list
+ */
+export const selectImportedTasks = (
+  tasks: ImportedTask[],
+  selected: boolean[]
+): ImportedTask[] => {
+  const newIndex = new Map<number, number>();
+  tasks.forEach((_, index) => {
+    if (selected[index]) newIndex.set(index, newIndex.size);
+  });
+
+  const chosenAncestor = (index: number): number | null => {
+    let parent = tasks[index].parentIndex ?? null;
+    const seen = new Set<number>();
+    while (parent !== null && !newIndex.has(parent) && !seen.has(parent)) {
+      seen.add(parent);
+      parent = tasks[parent]?.parentIndex ?? null;
+    }
+    return parent !== null && newIndex.has(parent) ? newIndex.get(parent) ?? null : null;
+  };
+
+  return tasks
+    .map((task, index) => ({ task, index }))
+    .filter(({ index }) => selected[index])
+    .map(({ task, index }) => ({ ...task, parentIndex: chosenAncestor(index) }));
+};
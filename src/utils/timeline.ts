@@ -0,0 +1,114 @@
+/**
+ * Timeline Layout
+ *
+ * Computes the geometry of the day timeline from a validated schedule:
+ * - The visible time range (work hours, widened to fit every block)
+ * - Side-by-side columns for blocks that overlap each other
+ * - Unscheduled gaps inside the work window (or each work period of a split shift)
+ */
+
+import type { ScheduleItem } from "../types";
+
+export interface TimelineBlock {
+  item: ScheduleItem;
+  index: number;
+  column: number;
+  columns: number;
+  overlaps: boolean;
+}
+
+export interface TimelineGap {
+  start: number;
+  end: number;
+}
+
+export interface TimelineLayout {
+  rangeStart: number;
+  rangeEnd: number;
+  blocks: TimelineBlock[];
+  gaps: TimelineGap[];
+  overlapCount: number;
+}
+
+// Gaps shorter than this are treated as scheduling slack, not free time
+const MIN_GAP_MINUTES = 5;
+
+/**
+ * Lay out schedule items on a vertical timeline
+ * @param items - Schedule items in any order
+ * @param workStart - Start of the work window (minutes since midnight)
+ * @param workEnd - End of the work window (minutes since midnight)
+ * @param periods - Working periods to look for free time in (defaults to the window)
+ * @returns Range, positioned blocks and free gaps
+ */
+export const layoutTimeline = (
+  items: ScheduleItem[],
+  workStart: number,
+  workEnd: number,
+  periods: TimelineGap[] = [{ start: workStart, end: workEnd }]
+): TimelineLayout => {
+  const sorted = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => a.item.start - b.item.start || b.item.end - a.item.end);
+
+  const firstStart = Math.min(workStart, ...sorted.map(({ item }) => item.start));
+  const lastEnd = Math.max(workEnd, ...sorted.map(({ item }) => item.end));
+  const rangeStart = Math.floor(firstStart / 60) * 60;
+  const rangeEnd = Math.min(24 * 60, Math.ceil(lastEnd / 60) * 60);
+
+  // Group overlapping blocks into clusters and give each block the first free column
+  const blocks: TimelineBlock[] = [];
+  let cluster: TimelineBlock[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = (): void => {
+    cluster.forEach((block) => {
+      block.columns = columnEnds.length;
+      block.overlaps = columnEnds.length > 1;
+    });
+    blocks.push(...cluster);
+    cluster = [];
+    columnEnds = [];
+  };
+
+  sorted.forEach(({ item, index }) => {
+    if (item.start >= clusterEnd) {
+      closeCluster();
+    }
+    let column = columnEnds.findIndex((end) => end <= item.start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(item.end);
+    } else {
+      columnEnds[column] = item.end;
+    }
+    cluster.push({ item, index, column, columns: 1, overlaps: false });
+    clusterEnd = Math.max(clusterEnd, item.end);
+  });
+  closeCluster();
+
+  // Free time inside each working period
+  const gaps: TimelineGap[] = [];
+  periods.forEach((period) => {
+    let cursor = period.start;
+    sorted.forEach(({ item }) => {
+      if (item.end <= period.start || item.start >= period.end) return;
+      if (item.start - cursor >= MIN_GAP_MINUTES) {
+        gaps.push({ start: cursor, end: item.start });
+      }
+      cursor = Math.max(cursor, item.end);
+    });
+    if (period.end - cursor >= MIN_GAP_MINUTES) {
+      gaps.push({ start: cursor, end: period.end });
+    }
+  });
+
+  return {
+    rangeStart,
+    rangeEnd,
+    blocks,
+    gaps,
+    overlapCount: blocks.filter((block) => block.overlaps).length,
+  };
+};
@@ -0,0 +1,176 @@
+/**
+ * Todo Filter Utilities
+ *
+ * Narrowing and ordering the task list:
+ * - Matching todos against search text, tags, project, priority and completion
+ * - Filtering the todo tree while keeping the parents of matching subtasks
+ * - Sorting siblings in manual order, or by creation, priority or due date
+ * - Reading and writing the filters as URL query parameters
+ */
+
+import type { Todo, TodoFilters, TodoSort } from "../types";
+import type { TodoNode } from "./todoTree";
+import { compareByPosition } from "./todoOrder";
+
+export const DEFAULT_FILTERS: TodoFilters = {
+  query: "",
+  tags: [],
+  project: null,
+  priority: null,
+  status: "all",
+  sort: "manual",
+};
+
+const PRIORITY_RANK: Record<Todo["priority"], number> = { High: 0, Medium: 1, Low: 2 };
+const SORTS: TodoSort[] = ["manual", "created", "priority", "due"];
+const PRIORITIES: Array<Todo["priority"]> = ["High", "Medium", "Low"];
+
+/**
+ * Whether any filter (other than the sort order) is active
+ */
+export const hasActiveFilters = (filters: TodoFilters): boolean =>
+  filters.query.trim() !== "" ||
+  filters.tags.length > 0 ||
+  filters.project !== null ||
+  filters.priority !== null ||
+  filters.status !== "all";
+
+/**
+ * Whether a todo passes the filters; every word of the query must appear in its text
+ */
+export const matchesFilters = (todo: Todo, filters: TodoFilters): boolean => {
+  if (filters.status === "open" && todo.completed) return false;
+  if (filters.status === "done" && !todo.completed) return false;
+  if (filters.priority && todo.priority !== filters.priority) return false;
+  if (filters.project && todo.project !== filters.project) return false;
+  if (filters.tags.some((tag) => !(todo.tags ?? []).includes(tag))) return false;
+
+  const text = todo.task.toLowerCase();
+  return filters.query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => text.includes(word));
+};
+
+const dueTime = (todo: Todo): number => {
+  const time = todo.dueAt ? new Date(todo.dueAt).getTime() : NaN;
+  return Number.isNaN(time) ? Infinity : time;
+};
+
+const createdTime = (todo: Todo): number => {
+  const time = todo.createdAt ? new Date(todo.createdAt).getTime() : NaN;
+  return Number.isNaN(time) ? 0 : time;
+};
+
+/**
+ * Comparator for a sort order; ties keep the list order (Array.sort is stable)
+ */
+export const compareTodos = (sort: TodoSort) => (a: Todo, b: Todo): number => {
+  const byPriority = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+  const byDue = dueTime(a) - dueTime(b);
+  switch (sort) {
+    case "priority":
+      return byPriority || (Number.isNaN(byDue) ? 0 : byDue);
+    case "due":
+      return (Number.isNaN(byDue) ? 0 : byDue) || byPriority;
+    case "created":
+      return createdTime(a) - createdTime(b);
+    default:
+      return compareByPosition(a, b);
+  }
+};
+
+/**
+ * Filter and sort the todo tree
+ * A todo that doesn't match stays visible (as context) when one of its subtasks
+ * does. Every node keeps the completion roll-up of all of its children.
+ * @param nodes - Top-level nodes of the full tree
+ * @param filters - Filters and sort order
+ * @returns The visible nodes, and how many todos match
+ */
+export const filterTodoTree = (
+  nodes: TodoNode[],
+  filters: TodoFilters
+): { nodes: TodoNode[]; matchCount: number } => {
+  const compare = compareTodos(filters.sort);
+  let matchCount = 0;
+
+  const visit = (siblings: TodoNode[]): TodoNode[] =>
+    [...siblings]
+      .sort((a, b) => compare(a.todo, b.todo))
+      .flatMap((node) => {
+        const children = visit(node.children);
+        const matches = matchesFilters(node.todo, filters);
+        if (matches) matchCount += 1;
+        if (!matches && children.length === 0) return [];
+        return [
+          {
+            todo: node.todo,
+            children,
+            context: !matches,
+            rollup: {
+              done: node.children.filter((child) => child.todo.completed).length,
+              total: node.children.length,
+            },
+          },
+        ];
+      });
+
+  return { nodes: visit(nodes), matchCount };
+};
+
+/**
+ * The tags and projects in use, alphabetically
+ */
+export const collectTagsAndProjects = (todos: Todo[]): { tags: string[]; projects: string[] } => {
+  const tags = new Set<string>();
+  const projects = new Set<string>();
+  todos.forEach((todo) => {
+    (todo.tags ?? []).forEach((tag) => tags.add(tag));
+    if (todo.project) projects.add(todo.project);
+  });
+  const byName = (a: string, b: string): number => a.localeCompare(b);
+  return { tags: Array.from(tags).sort(byName), projects: Array.from(projects).sort(byName) };
+};
+
+/**
+ * Read filters from a URL query string (e.g. "?q=report&tag=work&sort=due")
+ * Unknown or malformed values fall back to the defaults.
+ */
+export const filtersFromSearch = (search: string): TodoFilters => {
+  const params = new URLSearchParams(search);
+  const status = params.get("status");
+  const priority = params.get("priority") as Todo["priority"] | null;
+  const sort = params.get("sort") as TodoSort | null;
+  return {
+    query: params.get("q") ?? "",
+    tags: params.getAll("tag").filter(Boolean),
+    project: params.get("project") || null,
+    priority: priority && PRIORITIES.includes(priority) ? priority : null,
+    status: status === "open" || status === "done" ? status : "all",
+    sort: sort && SORTS.includes(sort) ? sort : DEFAULT_FILTERS.sort,
+  };
+};
+
+/**
+ * Write filters into a URL query string, keeping unrelated parameters
+ * Defaults are left out so an unfiltered list has a clean URL.
+ * @param filters - Current filters
+ * @param search - Existing query string
+ * @returns The new query string, with a leading "?" unless it is empty
+ */
+export const filtersToSearch = (filters: TodoFilters, search = ""): string => {
+  const params = new URLSearchParams(search);
+  ["q", "tag", "project", "priority", "status", "sort"].forEach((key) => params.delete(key));
+
+  if (filters.query.trim()) params.set("q", filters.query);
+  filters.tags.forEach((tag) => params.append("tag", tag));
+  if (filters.project) params.set("project", filters.project);
+  if (filters.priority) params.set("priority", filters.priority);
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set("sort", filters.sort);
+
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
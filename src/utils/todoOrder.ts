@@ -0,0 +1,99 @@
+/**
+ * Todo Order Utilities
+ *
+ * Manual ordering of the task list with fractional positions:
+ * - A todo without a position sits where its creation time puts it, so lists
+ *   from before manual ordering keep their order
+ * - New todos are appended after everything else
+ * - Moving a todo gives it a position between its new neighbours, so only the
+ *   moved todo changes (siblings are renumbered only once positions get too close)
+ */
+
+import type { Todo } from "../types";
+
+// Gap left between appended todos; positions share the scale of millisecond timestamps
+export const POSITION_STEP = 1000;
+
+/**
+ * Where a todo sits in the manual order
+ */
+export const getPosition = (todo: Todo): number => {
+  if (typeof todo.position === "number" && Number.isFinite(todo.position)) {
+    return todo.position;
+  }
+  const created = todo.createdAt ? new Date(todo.createdAt).getTime() : NaN;
+  return Number.isNaN(created) ? 0 : created;
+};
+
+/**
+ * Comparator for the manual order
+ */
+export const compareByPosition = (a: Todo, b: Todo): number => getPosition(a) - getPosition(b);
+
+/**
+ * Todos in manual order; ties keep their list order
+ */
+export const sortByPosition = (todos: Todo[]): Todo[] => [...todos].sort(compareByPosition);
+
+/**
+ * Position for a todo added at the end of the list
+ * @param todos - Existing todos
+ * @param now - Current time, used as a floor so the order survives clock-based fallbacks
+ */
+export const getAppendPosition = (todos: Todo[], now: Date = new Date()): number =>
+  todos.reduce(
+    (position, todo) => Math.max(position, getPosition(todo) + POSITION_STEP),
+    now.getTime()
+  );
+
+/**
+ * A position strictly between two others
+ * @param before - Position of the todo above, if any
+ * @param after - Position of the todo below, if any
+ * @returns The new position, or null when the two are too close to fit one in between
+ */
+export const positionBetween = (before?: number, after?: number): number | null => {
+  if (before === undefined && after === undefined) return 0;
+  if (before === undefined) return (after as number) - POSITION_STEP;
+  if (after === undefined) return before + POSITION_STEP;
+
+  const middle = before + (after - before) / 2;
+  return middle > before && middle < after ? middle : null;
+};
+
+/**
+ * New positions after moving a todo among its siblings
+ * Usually only the moved todo changes; when there is no room left between its
+ * new neighbours every sibling is renumbered.
+ * @param siblings - The todos sharing the moved todo's parent, in manual order
+ * @param id - ID of the moved todo
+ * @param toIndex - Index it should end up at
+ * @returns The todos to update with their new positions (empty if nothing moves)
+ */
+export const getReorderUpdates = (
+  siblings: Todo[],
+  id: string,
+  toIndex: number
+): Array<{ todo: Todo; position: number }> => {
+  const fromIndex = siblings.findIndex((todo) => todo.id === id);
+  const target = Math.max(0, Math.min(toIndex, siblings.length - 1));
+  if (fromIndex === -1 || fromIndex === target) return [];
+
+  const moved = siblings[fromIndex];
+  const others = siblings.filter((todo) => todo.id !== id);
+  const before = others[target - 1];
+  const after = others[target];
+  const position = positionBetween(
+    before ? getPosition(before) : undefined,
+    after ? getPosition(after) : undefined
+  );
+  if (position !== null) {
+    return [{ todo: moved, position }];
+  }
+
+  const reordered = [...others.slice(0, target), moved, ...others.slice(target)];
+  const start = Math.min(...siblings.map(getPosition));
+  return reordered
+    .map((todo, index) => ({ todo, position: start + index * POSITION_STEP }))
+    .filter(({ todo, position }) => todo.position !== position);
+};
@@ -0,0 +1,111 @@
+/**
+ * Todo Tree Utilities
+ *
+ * Helpers for working with parent/child todos:
+ * - Building the nested tree the task list renders, and flattening it again
+ * - Finding descendants for cascading deletes
+ * - Completion roll-up for parent todos
+ */
+
+import type { Todo } from "../types";
+
+/**
+ * A todo together with its ordered children
+ * In a filtered tree, context marks a todo shown only because a subtask matches,
+ * and rollup counts all of its children rather than the visible ones.
+ */
+export interface TodoNode {
+  todo: Todo;
+  children: TodoNode[];
+  context?: boolean;
+  rollup?: { done: number; total: number };
+}
+
+/**
+ * Build the todo hierarchy. Children keep the order they have in the list;
+ * todos whose parent is missing are shown at the top level.
+ * @param todos - Flat list of todos
+ * @returns Top-level nodes
+ */
+export const buildTodoTree = (todos: Todo[]): TodoNode[] => {
+  const nodes = new Map<string, TodoNode>();
+  todos.forEach((todo) => nodes.set(todo.id, { todo, children: [] }));
+
+  const roots: TodoNode[] = [];
+  todos.forEach((todo) => {
+    const node = nodes.get(todo.id) as TodoNode;
+    const parent = todo.parentId ? nodes.get(todo.parentId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+};
+
+/**
+ * Every node of a tree, parents before their children, in display order
+ */
+export const flattenTodoTree = (nodes: TodoNode[]): TodoNode[] =>
+  nodes.flatMap((node) => [node, ...flattenTodoTree(node.children)]);
+
+/**
+ * Direct children of a todo, in list order
+ */
+export const getChildren = (todos: Todo[], parentId: string): Todo[] =>
+  todos.filter((todo) => todo.parentId === parentId);
+
+/**
+ * IDs of every todo below the given one
+ * @param todos - Flat list of todos
+ * @param id - Ancestor todo ID
+ */
+export const getDescendantIds = (todos: Todo[], id: string): string[] => {
+  const descendants: string[] = [];
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    getChildren(todos, current).forEach((child) => {
+      if (!descendants.includes(child.id) && child.id !== id) {
+        descendants.push(child.id);
+        queue.push(child.id);
+      }
+    });
+  }
+  return descendants;
+};
+
+/**
+ * How many direct children of a todo are done
+ */
+export const getCompletionRollup = (
+  todos: Todo[],
+  parentId: string
+): { done: number; total: number } => {
+  const children = getChildren(todos, parentId);
+  return {
+    done: children.filter((child) => child.completed).length,
+    total: children.length,
+  };
+};
+
+/**
+ * The parent that should be completed automatically after a child changes:
+ * one that is still open while all of its children are now done.
+ * @param todos - Flat list of todos, already reflecting the child's new state
+ * @param childId - ID of the todo that changed
+ * @returns The parent to complete, if any
+ */
+export const getParentToAutoComplete = (todos: Todo[], childId: string): Todo | undefined => {
+  const child = todos.find((todo) => todo.id === childId);
+  const parent = child?.parentId
+    ? todos.find((todo) => todo.id === child.parentId)
+    : undefined;
+  if (!parent || parent.completed) {
+    return undefined;
+  }
+
+  const { done, total } = getCompletionRollup(todos, parent.id);
+  return total > 0 && done === total ? parent : undefined;
+};